@@ -0,0 +1,35 @@
+import { cn } from '@/lib/utils';
+import { useAudioLevel } from '@/hooks/use-audio-level';
+import { AudioLevelMonitor, SPEAKING_LEVEL } from '@/webrtc/audioLevels';
+
+interface AudioLevelMeterProps {
+  monitor: AudioLevelMonitor | null;
+  id: string;
+  className?: string;
+}
+
+// Horizontal bar showing one live mic level; green once it counts as speech
+const AudioLevelMeter = ({ monitor, id, className }: AudioLevelMeterProps) => {
+  const level = useAudioLevel(monitor, id);
+
+  return (
+    <div
+      className={cn('h-1.5 w-16 overflow-hidden rounded-full bg-muted', className)}
+      role="meter"
+      aria-label="Microphone level"
+      aria-valuemin={0}
+      aria-valuemax={100}
+      aria-valuenow={Math.round(level * 100)}
+    >
+      <div
+        className={cn(
+          'h-full rounded-full transition-[width] duration-100',
+          level >= SPEAKING_LEVEL ? 'bg-green-500' : 'bg-muted-foreground/40'
+        )}
+        style={{ width: `${level * 100}%` }}
+      />
+    </div>
+  );
+};
+
+export default AudioLevelMeter;
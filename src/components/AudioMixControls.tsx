@@ -0,0 +1,90 @@
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { Mic, Speaker } from 'lucide-react';
+import { AudioGains, AudioSourceKind, MAX_AUDIO_GAIN } from '@/webrtc/audioMixer';
+
+interface AudioMixControlsProps {
+  isSharing: boolean;
+  shareSystemAudio: boolean;
+  hasSystemAudio: boolean;
+  hasMicrophone: boolean;
+  gains: AudioGains;
+  onShareSystemAudioChange: (enabled: boolean) => void;
+  onGainChange: (kind: AudioSourceKind, gain: number) => void;
+}
+
+interface GainSliderProps {
+  id: string;
+  label: string;
+  icon: React.ReactNode;
+  value: number;
+  onChange: (gain: number) => void;
+}
+
+const GainSlider = ({ id, label, icon, value, onChange }: GainSliderProps) => (
+  <div className="flex items-center gap-3">
+    <Label htmlFor={id} className="flex items-center gap-1 w-28 shrink-0 text-sm">
+      {icon}
+      {label}
+    </Label>
+    <Slider
+      id={id}
+      min={0}
+      max={MAX_AUDIO_GAIN}
+      step={0.05}
+      value={[value]}
+      onValueChange={([next]) => onChange(next)}
+    />
+    <span className="w-10 text-right text-xs text-muted-foreground">{Math.round(value * 100)}%</span>
+  </div>
+);
+
+// Tab/system audio toggle and per-source gain for the outbound mix
+const AudioMixControls = ({
+  isSharing,
+  shareSystemAudio,
+  hasSystemAudio,
+  hasMicrophone,
+  gains,
+  onShareSystemAudioChange,
+  onGainChange,
+}: AudioMixControlsProps) => (
+  <div className="space-y-3">
+    <div className="flex items-center gap-2">
+      <Switch
+        id="share-system-audio"
+        checked={shareSystemAudio}
+        onCheckedChange={onShareSystemAudioChange}
+        disabled={isSharing}
+      />
+      <Label htmlFor="share-system-audio" className="text-sm">Share tab/system audio</Label>
+    </div>
+    {isSharing && shareSystemAudio && !hasSystemAudio && (
+      <p className="text-xs text-muted-foreground">
+        No audio was captured. Tick "Share audio" in the browser picker when you start sharing.
+      </p>
+    )}
+
+    {isSharing && hasSystemAudio && (
+      <GainSlider
+        id="system-audio-gain"
+        label="System audio"
+        icon={<Speaker className="w-4 h-4" />}
+        value={gains.system}
+        onChange={(gain) => onGainChange('system', gain)}
+      />
+    )}
+    {isSharing && hasMicrophone && (
+      <GainSlider
+        id="mic-gain"
+        label="Mic"
+        icon={<Mic className="w-4 h-4" />}
+        value={gains.mic}
+        onChange={(gain) => onGainChange('mic', gain)}
+      />
+    )}
+  </div>
+);
+
+export default AudioMixControls;
@@ -0,0 +1,39 @@
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { AudioProcessing, audioProcessingKeys } from '@/webrtc/audioProcessing';
+
+interface AudioProcessingControlsProps {
+  // Keeps switch IDs unique when more than one set is on the page
+  id: string;
+  title?: string;
+  processing: AudioProcessing;
+  onChange: (processing: Partial<AudioProcessing>) => void;
+}
+
+const labels: Record<keyof AudioProcessing, string> = {
+  echoCancellation: 'Echo cancellation',
+  noiseSuppression: 'Noise suppression',
+  autoGainControl: 'Auto gain',
+  noiseGate: 'Noise gate',
+};
+
+// Microphone processing toggles
+const AudioProcessingControls = ({ id, title, processing, onChange }: AudioProcessingControlsProps) => (
+  <div className="space-y-2">
+    {title && <p className="text-sm font-medium">{title}</p>}
+    <div className="grid grid-cols-2 gap-2">
+      {audioProcessingKeys.map((key) => (
+        <div key={key} className="flex items-center gap-2">
+          <Switch
+            id={`${id}-${key}`}
+            checked={processing[key]}
+            onCheckedChange={(checked) => onChange({ [key]: checked })}
+          />
+          <Label htmlFor={`${id}-${key}`} className="text-sm">{labels[key]}</Label>
+        </div>
+      ))}
+    </div>
+  </div>
+);
+
+export default AudioProcessingControls;
@@ -0,0 +1,114 @@
+import { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { EyeOff, Video } from 'lucide-react';
+
+interface CameraBubbleProps {
+  stream: MediaStream;
+}
+
+// Bubble width as a fraction of the container width
+const MIN_SIZE = 0.12;
+const MAX_SIZE = 0.5;
+const DEFAULT_SIZE = 0.2;
+
+type DragMode = 'move' | 'resize';
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+// Presenter's webcam over the shared screen. Viewers can drag it, resize
+// it from the corner handle, or hide it. Render inside a positioned container.
+const CameraBubble = ({ stream }: CameraBubbleProps) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const bubbleRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ mode: DragMode; offsetX: number; offsetY: number } | null>(null);
+  // Top-left corner as fractions of the container
+  const [position, setPosition] = useState({ x: 0.78, y: 0.62 });
+  const [size, setSize] = useState(DEFAULT_SIZE);
+  const [isHidden, setIsHidden] = useState(false);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+    video.srcObject = stream;
+    video.play().catch((err) => console.warn('Could not play camera:', err));
+    return () => {
+      video.srcObject = null;
+    };
+  }, [stream, isHidden]);
+
+  const handlePointerDown = (mode: DragMode) => (e: React.PointerEvent<HTMLDivElement>) => {
+    const bubble = bubbleRef.current;
+    if (!bubble) return;
+    e.stopPropagation();
+    const rect = bubble.getBoundingClientRect();
+    dragRef.current = { mode, offsetX: e.clientX - rect.left, offsetY: e.clientY - rect.top };
+    e.currentTarget.setPointerCapture(e.pointerId);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    const container = bubbleRef.current?.offsetParent;
+    if (!drag || !container) return;
+
+    const bounds = container.getBoundingClientRect();
+    const bubbleHeight = (bubbleRef.current?.offsetHeight ?? 0) / bounds.height;
+    if (drag.mode === 'move') {
+      setPosition({
+        x: clamp((e.clientX - drag.offsetX - bounds.left) / bounds.width, 0, 1 - size),
+        y: clamp((e.clientY - drag.offsetY - bounds.top) / bounds.height, 0, 1 - bubbleHeight),
+      });
+    } else {
+      const width = (e.clientX - bounds.left) / bounds.width - position.x;
+      setSize(clamp(width, MIN_SIZE, Math.min(MAX_SIZE, 1 - position.x)));
+    }
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  if (isHidden) {
+    return (
+      <Button
+        variant="secondary"
+        size="sm"
+        onClick={() => setIsHidden(false)}
+        className="absolute bottom-8 right-8 z-20 flex items-center gap-1"
+      >
+        <Video className="w-4 h-4" />
+        Show camera
+      </Button>
+    );
+  }
+
+  return (
+    <div
+      ref={bubbleRef}
+      className="group absolute z-20 aspect-video cursor-move touch-none overflow-hidden rounded-xl border-2 border-background shadow-lg"
+      style={{ left: `${position.x * 100}%`, top: `${position.y * 100}%`, width: `${size * 100}%` }}
+      onPointerDown={handlePointerDown('move')}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+    >
+      <video ref={videoRef} autoPlay playsInline muted className="h-full w-full bg-black object-cover" />
+      <Button
+        variant="secondary"
+        size="icon"
+        onPointerDown={(e) => e.stopPropagation()}
+        onClick={() => setIsHidden(true)}
+        className="absolute right-1 top-1 h-6 w-6 opacity-0 transition-opacity group-hover:opacity-100"
+        title="Hide camera"
+      >
+        <EyeOff className="w-3 h-3" />
+      </Button>
+      <div
+        className="absolute bottom-0 right-0 h-4 w-4 cursor-nwse-resize bg-background/70"
+        onPointerDown={handlePointerDown('resize')}
+        title="Drag to resize"
+      />
+    </div>
+  );
+};
+
+export default CameraBubble;
@@ -0,0 +1,114 @@
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { Circle, Square, Video } from 'lucide-react';
+import { MAX_PIP_SIZE, MIN_PIP_SIZE, PipCorner, PipLayout, PipShape } from '@/webrtc/compositor';
+import type { CameraMode } from '@/webrtc/presenterSession';
+
+interface CameraOverlayControlsProps {
+  isCameraOn: boolean;
+  cameraMode: CameraMode;
+  layout: PipLayout;
+  onCameraChange: (enabled: boolean) => void;
+  onCameraModeChange: (mode: CameraMode) => void;
+  onLayoutChange: (layout: Partial<PipLayout>) => void;
+}
+
+const corners: { value: PipCorner; label: string }[] = [
+  { value: 'top-left', label: '↖' },
+  { value: 'top-right', label: '↗' },
+  { value: 'bottom-left', label: '↙' },
+  { value: 'bottom-right', label: '↘' },
+];
+
+// Webcam toggle and how it is sent. Placement, size and shape only apply when
+// it is drawn into the screen; a separate track is placed by each viewer.
+const CameraOverlayControls = ({
+  isCameraOn,
+  cameraMode,
+  layout,
+  onCameraChange,
+  onCameraModeChange,
+  onLayoutChange,
+}: CameraOverlayControlsProps) => (
+  <div className="space-y-3">
+    <div className="flex items-center gap-2">
+      <Switch id="camera-overlay" checked={isCameraOn} onCheckedChange={onCameraChange} />
+      <Label htmlFor="camera-overlay" className="flex items-center gap-1 text-sm">
+        <Video className="w-4 h-4" />
+        Webcam overlay
+      </Label>
+    </div>
+
+    {isCameraOn && (
+      <div className="space-y-3 pl-1">
+        <div className="flex items-center gap-3">
+          <Label className="w-28 shrink-0 text-sm">Send as</Label>
+          <ToggleGroup
+            type="single"
+            size="sm"
+            value={cameraMode}
+            onValueChange={(value) => value && onCameraModeChange(value as CameraMode)}
+          >
+            <ToggleGroupItem value="composite" title="Drawn into the shared screen">
+              Overlay
+            </ToggleGroupItem>
+            <ToggleGroupItem value="separate" title="Own video track; viewers move, resize or hide it">
+              Separate
+            </ToggleGroupItem>
+          </ToggleGroup>
+        </div>
+      </div>
+    )}
+
+    {isCameraOn && cameraMode === 'composite' && (
+      <div className="space-y-3 pl-1">
+        <div className="flex items-center gap-3">
+          <Label className="w-28 shrink-0 text-sm">Position</Label>
+          <ToggleGroup
+            type="single"
+            size="sm"
+            // A dragged position no longer matches any corner
+            value={layout.position ? '' : layout.corner}
+            onValueChange={(value) => value && onLayoutChange({ corner: value as PipCorner, position: null })}
+          >
+            {corners.map(({ value, label }) => (
+              <ToggleGroupItem key={value} value={value} aria-label={value}>
+                {label}
+              </ToggleGroupItem>
+            ))}
+          </ToggleGroup>
+        </div>
+        <div className="flex items-center gap-3">
+          <Label className="w-28 shrink-0 text-sm">Shape</Label>
+          <ToggleGroup
+            type="single"
+            size="sm"
+            value={layout.shape}
+            onValueChange={(value) => value && onLayoutChange({ shape: value as PipShape })}
+          >
+            <ToggleGroupItem value="circle" aria-label="Circle">
+              <Circle className="w-4 h-4" />
+            </ToggleGroupItem>
+            <ToggleGroupItem value="rounded" aria-label="Rounded">
+              <Square className="w-4 h-4" />
+            </ToggleGroupItem>
+          </ToggleGroup>
+        </div>
+        <div className="flex items-center gap-3">
+          <Label className="w-28 shrink-0 text-sm">Size</Label>
+          <Slider
+            min={MIN_PIP_SIZE}
+            max={MAX_PIP_SIZE}
+            step={0.01}
+            value={[layout.size]}
+            onValueChange={([size]) => onLayoutChange({ size })}
+          />
+        </div>
+      </div>
+    )}
+  </div>
+);
+
+export default CameraOverlayControls;
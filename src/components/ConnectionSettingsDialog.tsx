@@ -0,0 +1,203 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Settings } from 'lucide-react';
+import { toast } from 'sonner';
+import { usePeerConfig } from '@/hooks/use-peer-config';
+import { ConnectionSettings, parseIceServers, peerConfigStore } from '@/webrtc/peerConfig';
+
+interface FormState {
+  iceServers: string;
+  configUrl: string;
+  host: string;
+  port: string;
+  path: string;
+  secure: boolean;
+}
+
+const sourceLabels = {
+  settings: 'these settings',
+  endpoint: 'the config endpoint',
+  env: 'environment variables',
+  default: 'the default public STUN server',
+};
+
+const toFormState = (settings: ConnectionSettings): FormState => ({
+  iceServers: settings.iceServers ? JSON.stringify(settings.iceServers, null, 2) : '',
+  configUrl: settings.configUrl ?? '',
+  host: settings.peerServer?.host ?? '',
+  port: settings.peerServer?.port ? String(settings.peerServer.port) : '',
+  path: settings.peerServer?.path ?? '',
+  secure: settings.peerServer?.secure ?? true,
+});
+
+// Override ICE servers and the PeerServer used for signalling
+const ConnectionSettingsDialog = () => {
+  const [open, setOpen] = useState(false);
+  const [form, setForm] = useState<FormState>(() => toFormState(peerConfigStore.getSettings()));
+  const [formError, setFormError] = useState<string | null>(null);
+  const { source, expiresAt, error } = usePeerConfig();
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (nextOpen) {
+      setForm(toFormState(peerConfigStore.getSettings()));
+      setFormError(null);
+    }
+    setOpen(nextOpen);
+  };
+
+  const updateField = <K extends keyof FormState>(key: K, value: FormState[K]) => {
+    setForm(prev => ({ ...prev, [key]: value }));
+  };
+
+  const handleSave = async () => {
+    const settings: ConnectionSettings = {};
+
+    try {
+      if (form.iceServers.trim()) {
+        settings.iceServers = parseIceServers(form.iceServers);
+      }
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : 'Invalid ICE servers JSON');
+      return;
+    }
+
+    const port = form.port.trim() ? Number(form.port) : undefined;
+    if (port !== undefined && (!Number.isInteger(port) || port <= 0 || port > 65535)) {
+      setFormError('Port must be a number between 1 and 65535');
+      return;
+    }
+
+    if (form.configUrl.trim()) {
+      settings.configUrl = form.configUrl.trim();
+    }
+    if (form.host.trim()) {
+      settings.peerServer = {
+        host: form.host.trim(),
+        port,
+        path: form.path.trim() || undefined,
+        secure: form.secure,
+      };
+    }
+
+    const snapshot = await peerConfigStore.saveSettings(settings);
+    if (snapshot.error) {
+      toast.error(`Settings saved, but loading ICE config failed: ${snapshot.error}`);
+    } else {
+      toast.success('Connection settings saved');
+    }
+    setOpen(false);
+  };
+
+  const handleReset = async () => {
+    await peerConfigStore.resetSettings();
+    setForm(toFormState({}));
+    toast.success('Connection settings reset');
+    setOpen(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" className="flex items-center gap-1">
+          <Settings className="w-4 h-4" />
+          Connection
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Connection Settings</DialogTitle>
+          <DialogDescription>
+            Currently using ICE servers from {sourceLabels[source]}
+            {expiresAt && `, refreshed before ${new Date(expiresAt).toLocaleTimeString()}`}.
+            Changes apply to new connections.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {error && <p className="text-sm text-destructive">Last load failed: {error}</p>}
+
+          <div className="space-y-2">
+            <Label htmlFor="ice-config-url">ICE config endpoint</Label>
+            <Input
+              id="ice-config-url"
+              placeholder="https://example.com/api/turn-credentials"
+              value={form.configUrl}
+              onChange={(e) => updateField('configUrl', e.target.value)}
+            />
+            <p className="text-xs text-muted-foreground">
+              Returns {'{ iceServers, ttl }'} or TURN REST credentials {'{ username, password, ttl, uris }'}.
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="ice-servers">ICE servers (JSON)</Label>
+            <Textarea
+              id="ice-servers"
+              rows={5}
+              className="font-mono text-xs"
+              placeholder='[{ "urls": "turn:turn.example.com:3478", "username": "user", "credential": "pass" }]'
+              value={form.iceServers}
+              onChange={(e) => updateField('iceServers', e.target.value)}
+            />
+            <p className="text-xs text-muted-foreground">Takes precedence over the endpoint when set.</p>
+          </div>
+
+          <div className="space-y-2">
+            <Label>PeerServer</Label>
+            <div className="grid grid-cols-3 gap-2">
+              <Input
+                className="col-span-2"
+                placeholder="Host (default: PeerJS cloud)"
+                value={form.host}
+                onChange={(e) => updateField('host', e.target.value)}
+              />
+              <Input
+                placeholder="Port"
+                inputMode="numeric"
+                value={form.port}
+                onChange={(e) => updateField('port', e.target.value)}
+              />
+            </div>
+            <Input
+              placeholder="Path, e.g. /myapp"
+              value={form.path}
+              onChange={(e) => updateField('path', e.target.value)}
+            />
+            <div className="flex items-center gap-2">
+              <Switch
+                id="peer-secure"
+                checked={form.secure}
+                onCheckedChange={(checked) => updateField('secure', checked)}
+              />
+              <Label htmlFor="peer-secure">Use TLS (wss/https)</Label>
+            </div>
+          </div>
+
+          {formError && <p className="text-sm text-destructive">{formError}</p>}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={handleReset}>
+            Reset to defaults
+          </Button>
+          <Button onClick={handleSave}>Save</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ConnectionSettingsDialog;
@@ -0,0 +1,172 @@
+import { useEffect, useRef, useState, useSyncExternalStore } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Crop } from 'lucide-react';
+import { toVideoFramePosition } from '@/lib/video-frame';
+import { CropRegion, cropTargetStore, isRegionCaptureSupported, MIN_CROP_SIZE } from '@/webrtc/regionCrop';
+
+interface CropControlsProps {
+  captureStream: MediaStream | null;
+  cropRegion: CropRegion | null;
+  cropTargetId: string | null;
+  onCropToElement: (targetId: string | null) => void;
+  onCropRegion: (region: CropRegion | null) => void;
+}
+
+const WHOLE_CAPTURE = 'whole';
+
+const toRegion = (from: { x: number; y: number }, to: { x: number; y: number }): CropRegion => ({
+  x: Math.min(from.x, to.x),
+  y: Math.min(from.y, to.y),
+  width: Math.abs(to.x - from.x),
+  height: Math.abs(to.y - from.y),
+});
+
+interface CropRegionEditorProps {
+  captureStream: MediaStream;
+  initialRegion: CropRegion | null;
+  onApply: (region: CropRegion | null) => void;
+}
+
+// Drag a rectangle over the uncropped capture
+const CropRegionEditor = ({ captureStream, initialRegion, onApply }: CropRegionEditorProps) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const startRef = useRef<{ x: number; y: number } | null>(null);
+  const [region, setRegion] = useState<CropRegion | null>(initialRegion);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+    video.srcObject = captureStream;
+    video.play().catch((err) => console.warn('Could not play capture preview:', err));
+    return () => {
+      video.srcObject = null;
+    };
+  }, [captureStream]);
+
+  const getPosition = (e: React.PointerEvent) => {
+    const video = videoRef.current;
+    return video ? toVideoFramePosition(video, e.clientX, e.clientY) : null;
+  };
+
+  const isValid = region !== null && region.width >= MIN_CROP_SIZE && region.height >= MIN_CROP_SIZE;
+
+  return (
+    <>
+      <div
+        className="relative cursor-crosshair touch-none select-none"
+        onPointerDown={(e) => {
+          startRef.current = getPosition(e);
+          e.currentTarget.setPointerCapture(e.pointerId);
+        }}
+        onPointerMove={(e) => {
+          const position = getPosition(e);
+          if (startRef.current && position) setRegion(toRegion(startRef.current, position));
+        }}
+        onPointerUp={() => {
+          startRef.current = null;
+        }}
+      >
+        {/* No fixed aspect ratio, so the element matches the capture and percentages line up */}
+        <video ref={videoRef} autoPlay playsInline muted className="w-full rounded-lg bg-black" />
+        {region && (
+          <div
+            className="pointer-events-none absolute border-2 border-primary shadow-[0_0_0_9999px_rgba(0,0,0,0.5)]"
+            style={{
+              left: `${region.x * 100}%`,
+              top: `${region.y * 100}%`,
+              width: `${region.width * 100}%`,
+              height: `${region.height * 100}%`,
+            }}
+          />
+        )}
+      </div>
+      <DialogFooter>
+        <Button variant="outline" onClick={() => onApply(null)}>
+          Share Everything
+        </Button>
+        <Button onClick={() => onApply(region)} disabled={!isValid}>
+          Crop
+        </Button>
+      </DialogFooter>
+    </>
+  );
+};
+
+// Limit what viewers see to an element of this app or a dragged region
+const CropControls = ({ captureStream, cropRegion, cropTargetId, onCropToElement, onCropRegion }: CropControlsProps) => {
+  const targets = useSyncExternalStore(cropTargetStore.subscribe, cropTargetStore.getSnapshot);
+  const [isEditorOpen, setIsEditorOpen] = useState(false);
+  const canCropToElement = isRegionCaptureSupported() && (targets.length > 0 || cropTargetId !== null);
+
+  return (
+    <div className="space-y-3">
+      {canCropToElement && (
+        <div className="flex items-center gap-3">
+          <Label htmlFor="crop-target" className="w-28 shrink-0 text-sm">Share element</Label>
+          <Select
+            value={cropTargetId ?? WHOLE_CAPTURE}
+            onValueChange={(value) => onCropToElement(value === WHOLE_CAPTURE ? null : value)}
+          >
+            <SelectTrigger id="crop-target">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={WHOLE_CAPTURE}>Whole capture</SelectItem>
+              {targets.map((target) => (
+                <SelectItem key={target.id} value={target.id}>
+                  {target.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      <div className="flex items-center gap-3">
+        <Label className="w-28 shrink-0 text-sm">Crop</Label>
+        <Dialog open={isEditorOpen} onOpenChange={setIsEditorOpen}>
+          <DialogTrigger asChild>
+            <Button variant="outline" size="sm" disabled={!captureStream} className="flex items-center gap-1">
+              <Crop className="w-4 h-4" />
+              {cropRegion ? 'Edit Region' : 'Select Region'}
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="max-w-3xl">
+            <DialogHeader>
+              <DialogTitle>Crop shared screen</DialogTitle>
+              <DialogDescription>Drag over the capture to choose what viewers see.</DialogDescription>
+            </DialogHeader>
+            {captureStream && (
+              <CropRegionEditor
+                captureStream={captureStream}
+                initialRegion={cropRegion}
+                onApply={(region) => {
+                  onCropRegion(region);
+                  setIsEditorOpen(false);
+                }}
+              />
+            )}
+          </DialogContent>
+        </Dialog>
+        {cropRegion && (
+          <Button variant="ghost" size="sm" onClick={() => onCropRegion(null)}>
+            Clear
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CropControls;
@@ -0,0 +1,35 @@
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useMediaDevices } from '@/hooks/use-media-devices';
+
+interface MicrophoneSelectProps {
+  deviceId: string | null;
+  onChange: (deviceId: string) => void;
+}
+
+// Microphone device picker; switches the live mic or is remembered for the next one
+const MicrophoneSelect = ({ deviceId, onChange }: MicrophoneSelectProps) => {
+  const devices = useMediaDevices('audioinput', deviceId);
+
+  if (devices.length < 2) return null;
+
+  return (
+    <div className="flex items-center gap-3">
+      <Label htmlFor="microphone-device" className="w-28 shrink-0 text-sm">Microphone</Label>
+      <Select value={deviceId ?? undefined} onValueChange={onChange}>
+        <SelectTrigger id="microphone-device">
+          <SelectValue placeholder="Default microphone" />
+        </SelectTrigger>
+        <SelectContent>
+          {devices.map((device, index) => (
+            <SelectItem key={device.deviceId} value={device.deviceId}>
+              {device.label || `Microphone ${index + 1}`}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+};
+
+export default MicrophoneSelect;
@@ -0,0 +1,55 @@
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Pause, Play } from 'lucide-react';
+
+interface PauseShareButtonProps {
+  isPaused: boolean;
+  onPause: (durationMs: number | null) => void;
+  onResume: () => void;
+  // Icon-only variant for the compact controls page
+  compact?: boolean;
+}
+
+const pauseDurations = [2, 5, 10];
+
+// Pause behind a "be right back" slate, optionally with a countdown
+const PauseShareButton = ({ isPaused, onPause, onResume, compact = false }: PauseShareButtonProps) => {
+  if (isPaused) {
+    return (
+      <Button onClick={onResume} className="flex items-center gap-2" size={compact ? 'icon' : 'default'} title="Resume">
+        <Play className="w-4 h-4" />
+        {!compact && 'Resume'}
+      </Button>
+    );
+  }
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" className="flex items-center gap-2" size={compact ? 'icon' : 'default'} title="Pause">
+          <Pause className="w-4 h-4" />
+          {!compact && 'Pause'}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent>
+        <DropdownMenuLabel>Show "Be right back"</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onClick={() => onPause(null)}>Without countdown</DropdownMenuItem>
+        {pauseDurations.map((minutes) => (
+          <DropdownMenuItem key={minutes} onClick={() => onPause(minutes * 60 * 1000)}>
+            Back in {minutes} minutes
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default PauseShareButton;
@@ -0,0 +1,39 @@
+import { useRef } from 'react';
+import { toVideoFramePosition } from '@/lib/video-frame';
+
+interface PipDragOverlayProps {
+  videoRef: React.RefObject<HTMLVideoElement>;
+  onMove: (position: { x: number; y: number }) => void;
+}
+
+// Drag on the preview to move the webcam overlay
+const PipDragOverlay = ({ videoRef, onMove }: PipDragOverlayProps) => {
+  const draggingRef = useRef(false);
+
+  const handlePointer = (e: React.PointerEvent<HTMLDivElement>) => {
+    const video = videoRef.current;
+    if (!draggingRef.current || !video) return;
+    onMove(toVideoFramePosition(video, e.clientX, e.clientY));
+  };
+
+  return (
+    <div
+      className="absolute inset-0 cursor-move"
+      title="Drag to move the camera"
+      onPointerDown={(e) => {
+        draggingRef.current = true;
+        e.currentTarget.setPointerCapture(e.pointerId);
+        handlePointer(e);
+      }}
+      onPointerMove={handlePointer}
+      onPointerUp={() => {
+        draggingRef.current = false;
+      }}
+      onPointerCancel={() => {
+        draggingRef.current = false;
+      }}
+    />
+  );
+};
+
+export default PipDragOverlay;
@@ -1,9 +1,11 @@
-import { useEffect, useRef, useState, useCallback } from 'react';
+import { useEffect, useState, useCallback } from 'react';
 import { useNavigate } from 'react-router-dom';
-import Peer, { DataConnection, MediaConnection } from 'peerjs';
+import type { PeerOptions } from 'peerjs';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
 import { 
   Monitor, 
   Users, 
@@ -18,323 +20,130 @@ import {
   Volume2, 
   VolumeX,
   AlertCircle,
-  ArrowLeft
+  ArrowLeft,
+  ShieldCheck,
+  MonitorUp
 } from 'lucide-react';
 import { toast } from 'sonner';
+import { usePresenterSession } from '@/hooks/use-presenter-session';
+import ViewerConnectionBadge from '@/components/ViewerConnectionBadge';
+import ViewerBitrateBadge from '@/components/ViewerBitrateBadge';
+import AudioMixControls from '@/components/AudioMixControls';
+import AudioProcessingControls from '@/components/AudioProcessingControls';
+import QualityControls from '@/components/QualityControls';
+import MicrophoneSelect from '@/components/MicrophoneSelect';
+import PauseShareButton from '@/components/PauseShareButton';
+import CameraOverlayControls from '@/components/CameraOverlayControls';
+import SharedSourceList from '@/components/SharedSourceList';
+import CropControls from '@/components/CropControls';
+import SpeakerSelect from '@/components/SpeakerSelect';
+import AudioLevelMeter from '@/components/AudioLevelMeter';
+import { speakerFirst } from '@/webrtc/audioLevels';
+import { useDevicePreferences } from '@/hooks/use-device-preferences';
+import { useViewerAudioMix } from '@/hooks/use-viewer-audio-mix';
+import ViewerAudioControls from '@/components/ViewerAudioControls';
 
 export interface PresenterControlsProps {
   roomId: string;
-  peerConfig?: ConstructorParameters<typeof Peer>[1];
-}
-
-type PresenterStatus = 'connecting' | 'ready' | 'sharing' | 'error' | 'ended';
-
-interface DataMessage {
-  type: 'meeting-ended' | 'viewer-muted' | 'viewer-unmuted';
-  viewerId?: string;
-}
-
-interface ViewerInfo {
-  connection: DataConnection;
-  isMutedByPresenter: boolean;
+  peerConfig?: PeerOptions;
 }
 
 const PresenterControls = ({ roomId, peerConfig }: PresenterControlsProps) => {
   const navigate = useNavigate();
-  const [isSharing, setIsSharing] = useState(false);
-  const [viewerCount, setViewerCount] = useState(0);
-  const [status, setStatus] = useState<PresenterStatus>('connecting');
-  const [error, setError] = useState<string | null>(null);
+  const { session, snapshot } = usePresenterSession(roomId, peerConfig);
   const [copied, setCopied] = useState(false);
-  const [isMicOn, setIsMicOn] = useState(true);
-  const [mutedViewers, setMutedViewers] = useState<Set<string>>(new Set());
-  const [isViewerAudioEnabled, setIsViewerAudioEnabled] = useState(false);
-
-  const peerRef = useRef<Peer | null>(null);
-  const streamRef = useRef<MediaStream | null>(null);
-  const audioTrackRef = useRef<MediaStreamTrack | null>(null);
-  const viewerAudioRef = useRef<HTMLAudioElement>(null);
-
-  const viewerConnections = useRef<Map<string, ViewerInfo>>(new Map());
-  const viewerMediaCalls = useRef<Map<string, MediaConnection>>(new Map());
-  const viewerAudioStreams = useRef<Map<string, MediaStream>>(new Map());
-  const audioContextRef = useRef<AudioContext | null>(null);
-
-  const sendToViewer = useCallback((viewerId: string, message: DataMessage) => {
-    const viewerInfo = viewerConnections.current.get(viewerId);
-    if (viewerInfo?.connection.open) {
-      viewerInfo.connection.send(message);
-    }
-  }, []);
-
-  const broadcastToViewers = useCallback((message: DataMessage) => {
-    viewerConnections.current.forEach((viewerInfo) => {
-      if (viewerInfo.connection.open) {
-        viewerInfo.connection.send(message);
-      }
-    });
-  }, []);
-
-  const muteViewer = useCallback((viewerId: string) => {
-    sendToViewer(viewerId, { type: 'viewer-muted', viewerId });
-    const viewerInfo = viewerConnections.current.get(viewerId);
-    if (viewerInfo) {
-      viewerInfo.isMutedByPresenter = true;
-    }
-    setMutedViewers(prev => new Set([...prev, viewerId]));
-    toast.success('Viewer muted');
-  }, [sendToViewer]);
-
-  const unmuteViewer = useCallback((viewerId: string) => {
-    sendToViewer(viewerId, { type: 'viewer-unmuted', viewerId });
-    const viewerInfo = viewerConnections.current.get(viewerId);
-    if (viewerInfo) {
-      viewerInfo.isMutedByPresenter = false;
-    }
-    setMutedViewers(prev => {
-      const next = new Set(prev);
-      next.delete(viewerId);
-      return next;
-    });
-    toast.success('Viewer unmuted');
-  }, [sendToViewer]);
-
-  const endMeeting = useCallback(() => {
-    broadcastToViewers({ type: 'meeting-ended' });
 
-    if (streamRef.current) {
-      streamRef.current.getTracks().forEach(track => track.stop());
-      streamRef.current = null;
-    }
-    audioTrackRef.current = null;
-
-    viewerMediaCalls.current.forEach((call) => call.close());
-    viewerMediaCalls.current.clear();
-
-    viewerConnections.current.forEach((viewerInfo) => viewerInfo.connection.close());
-    viewerConnections.current.clear();
+  const { status, error, isMicOn, mutedViewers, isRelayOnly } = snapshot;
+  const { micDeviceId: preferredMicId, speakerDeviceId } = useDevicePreferences();
+  const viewerAudioMix = useViewerAudioMix(session?.viewerAudio ?? null);
+  const isViewerAudioOn = viewerAudioMix.isEnabled && !viewerAudioMix.isMuted;
+  const isSharing = status === 'sharing';
+  const connectedViewerIds = snapshot.viewerIds;
+  const viewerCount = connectedViewerIds.length;
 
-    viewerAudioStreams.current.clear();
-
-    if (audioContextRef.current) {
-      audioContextRef.current.close();
-      audioContextRef.current = null;
-    }
-
-    setIsSharing(false);
-    setViewerCount(0);
-    setMutedViewers(new Set());
-    setIsViewerAudioEnabled(false);
-    setStatus('ended');
-    
-    toast.success('Meeting ended');
-  }, [broadcastToViewers]);
-
-  // Initialize PeerJS connection
+  // Viewer microphones follow the chosen speaker
   useEffect(() => {
-    if (!roomId) return;
-
-    const presenterId = `presenter-${roomId}`;
-    const peer = new Peer(presenterId, { debug: 2, ...peerConfig });
+    session?.viewerAudio.setSpeaker(speakerDeviceId);
+  }, [session, speakerDeviceId]);
 
-    peer.on('open', () => {
-      console.log('Presenter connected');
-      setStatus('ready');
-    });
-
-    peer.on('error', (err) => {
-      console.error('Peer error:', err);
-      setError(err.message);
-      setStatus('error');
-    });
-
-    peer.on('disconnected', () => {
-      peer.reconnect();
-    });
-
-    peerRef.current = peer;
-
-    return () => {
-      if (streamRef.current) {
-        streamRef.current.getTracks().forEach(track => track.stop());
-      }
-      peer.destroy();
-    };
-  }, [roomId, peerConfig]);
-
-  // Handle viewer data connections
+  // Wire session events to notifications
   useEffect(() => {
-    const peer = peerRef.current;
-    if (!peer) return;
-
-    const handleDataConnection = (conn: DataConnection) => {
-      conn.on('open', () => {
-        viewerConnections.current.set(conn.peer, {
-          connection: conn,
-          isMutedByPresenter: false,
-        });
-        setViewerCount(viewerConnections.current.size);
-        toast.success('Viewer joined');
-
-        if (streamRef.current && isSharing) {
-          callViewer(conn.peer, streamRef.current);
+    if (!session) return;
+
+    const unsubscribers = [
+      session.on('viewer-joined', () => toast.success('Viewer joined')),
+      session.on('viewer-left', (_viewerId, reason) => {
+        if (reason === 'timeout') {
+          toast.warning('Viewer timed out');
+        } else if (reason === 'refused') {
+          toast.warning('Viewer refused: no relay connection available');
+        } else {
+          toast.info('Viewer left');
         }
-      });
-
-      conn.on('close', () => {
-        viewerConnections.current.delete(conn.peer);
-        viewerMediaCalls.current.delete(conn.peer);
-        viewerAudioStreams.current.delete(conn.peer);
-        setMutedViewers(prev => {
-          const next = new Set(prev);
-          next.delete(conn.peer);
-          return next;
-        });
-        setViewerCount(viewerConnections.current.size);
-        toast.info('Viewer left');
-      });
-
-      conn.on('error', () => {
-        viewerConnections.current.delete(conn.peer);
-        viewerMediaCalls.current.delete(conn.peer);
-        viewerAudioStreams.current.delete(conn.peer);
-        setViewerCount(viewerConnections.current.size);
-      });
-    };
+      }),
+      session.on('viewer-audio-started', () => toast.success('Viewer microphone connected')),
+      session.on('stream-started', () => toast.success('Screen sharing started')),
+      session.on('mic-unavailable', () => toast.warning('Microphone not available')),
+      session.on('noise-gate-unavailable', () => toast.warning('Noise gate is not available in this browser')),
+      session.on('camera-unavailable', () => toast.warning('Camera not available')),
+      session.on('session-resumed', () => toast.info('Session restored - share again to resume the stream')),
+    ];
 
-    peer.on('connection', handleDataConnection);
     return () => {
-      peer.off('connection', handleDataConnection);
+      unsubscribers.forEach(unsubscribe => unsubscribe());
     };
-  }, [isSharing]);
+  }, [session]);
 
-  // Handle incoming viewer audio calls
-  useEffect(() => {
-    const peer = peerRef.current;
-    if (!peer) return;
-
-    const handleCall = (call: MediaConnection) => {
-      call.answer();
-      call.on('stream', (remoteStream) => {
-        viewerAudioStreams.current.set(call.peer, remoteStream);
-        updateViewerAudioMix();
-        toast.success('Viewer microphone connected');
-      });
-      call.on('close', () => {
-        viewerAudioStreams.current.delete(call.peer);
-        updateViewerAudioMix();
-      });
-    };
+  const muteViewer = useCallback((viewerId: string) => {
+    session?.muteViewer(viewerId);
+    toast.success('Viewer muted');
+  }, [session]);
 
-    peer.on('call', handleCall);
-    return () => {
-      peer.off('call', handleCall);
-    };
-  }, []);
+  const unmuteViewer = useCallback((viewerId: string) => {
+    session?.unmuteViewer(viewerId);
+    toast.success('Viewer unmuted');
+  }, [session]);
 
-  const updateViewerAudioMix = useCallback(() => {
-    if (!viewerAudioRef.current) return;
-    
-    if (!audioContextRef.current || audioContextRef.current.state === 'closed') {
-      audioContextRef.current = new AudioContext();
-    }
-    
-    const audioContext = audioContextRef.current;
-    const destination = audioContext.createMediaStreamDestination();
-    
-    viewerAudioStreams.current.forEach((stream) => {
-      const source = audioContext.createMediaStreamSource(stream);
-      source.connect(destination);
-    });
-    
-    viewerAudioRef.current.srcObject = destination.stream;
-    viewerAudioRef.current.play().catch(() => {});
-  }, []);
-
-  const enableViewerAudio = useCallback(() => {
-    if (viewerAudioRef.current) {
-      viewerAudioRef.current.muted = false;
-      setIsViewerAudioEnabled(true);
-      viewerAudioRef.current.play().catch(() => {});
-      toast.success('Viewer audio enabled');
+  const endMeeting = useCallback(() => {
+    session?.endMeeting();
+    toast.success('Meeting ended');
+  }, [session]);
+
+  // The first click starts playback; later clicks mute and unmute it
+  const toggleViewerAudio = useCallback(async () => {
+    if (!session) return;
+    if (!viewerAudioMix.isEnabled) {
+      if (await session.viewerAudio.enable()) toast.success('Viewer audio enabled');
+    } else {
+      session.viewerAudio.setMuted(!viewerAudioMix.isMuted);
     }
-  }, []);
-
-  const callViewer = useCallback((viewerId: string, stream: MediaStream) => {
-    const peer = peerRef.current;
-    if (!peer) return;
-
-    const call = peer.call(viewerId, stream);
-    viewerMediaCalls.current.set(viewerId, call);
-
-    call.on('close', () => viewerMediaCalls.current.delete(viewerId));
-    call.on('error', () => viewerMediaCalls.current.delete(viewerId));
-  }, []);
+  }, [session, viewerAudioMix]);
 
   const startSharing = useCallback(async () => {
-    try {
-      const displayStream = await navigator.mediaDevices.getDisplayMedia({
-        video: { cursor: 'always' } as MediaTrackConstraints,
-        audio: false,
-      });
-
-      const videoTrack = displayStream.getVideoTracks()[0];
-      if (!videoTrack) throw new Error('No video track');
-
-      let audioTrack: MediaStreamTrack | null = null;
-      try {
-        const audioStream = await navigator.mediaDevices.getUserMedia({ audio: true });
-        audioTrack = audioStream.getAudioTracks()[0];
-        audioTrackRef.current = audioTrack;
-        audioTrack.enabled = isMicOn;
-      } catch {
-        toast.warning('Microphone not available');
-      }
-
-      const tracks = audioTrack ? [videoTrack, audioTrack] : [videoTrack];
-      const outboundStream = new MediaStream(tracks);
-      streamRef.current = outboundStream;
-
-      setIsSharing(true);
-      setStatus('sharing');
-
-      videoTrack.onended = () => stopSharing();
-
-      viewerConnections.current.forEach((_, viewerId) => {
-        callViewer(viewerId, outboundStream);
-      });
-
-      toast.success('Screen sharing started');
-    } catch (err) {
-      console.error('Error starting screen share:', err);
-      setError('Failed to start screen sharing');
-    }
-  }, [callViewer, isMicOn]);
+    await session?.startSharing();
+  }, [session]);
 
   const stopSharing = useCallback(() => {
-    if (streamRef.current) {
-      streamRef.current.getTracks().forEach(track => track.stop());
-      streamRef.current = null;
-    }
-    audioTrackRef.current = null;
-
-    viewerMediaCalls.current.forEach((call) => call.close());
-    viewerMediaCalls.current.clear();
+    session?.stopSharing();
+  }, [session]);
 
-    setIsSharing(false);
-    if (status !== 'error') {
-      setStatus('ready');
+  const toggleMic = useCallback(() => {
+    if (session?.hasMicrophone()) {
+      session.toggleMic();
+      toast.success(session.getSnapshot().isMicOn ? 'Mic on' : 'Mic off');
     }
-  }, [status]);
+  }, [session]);
 
-  const toggleMic = useCallback(() => {
-    if (audioTrackRef.current) {
-      const newState = !isMicOn;
-      audioTrackRef.current.enabled = newState;
-      setIsMicOn(newState);
-      toast.success(newState ? 'Mic on' : 'Mic off');
+  const setRelayOnly = useCallback((enabled: boolean) => {
+    if (session?.setRelayOnly(enabled)) {
+      toast.success(enabled ? 'Relay-only on' : 'Relay-only off');
     }
-  }, [isMicOn]);
+  }, [session]);
+
+  const setGroupAudio = useCallback((enabled: boolean) => {
+    session?.setGroupAudio(enabled);
+    toast.success(enabled ? 'Group audio on' : 'Group audio off');
+  }, [session]);
 
   const copyViewerLink = useCallback(() => {
     const link = `${window.location.origin}/viewer/${roomId}`;
@@ -345,16 +154,13 @@ const PresenterControls = ({ roomId, peerConfig }: PresenterControlsProps) => {
   }, [roomId]);
 
   const restartMeeting = useCallback(() => {
-    setStatus('ready');
-    setError(null);
-  }, []);
+    session?.restart();
+  }, [session]);
 
   const goToHome = useCallback(() => {
     navigate('/');
   }, [navigate]);
 
-  const connectedViewerIds = Array.from(viewerConnections.current.keys());
-
   // Meeting ended state
   if (status === 'ended') {
     return (
@@ -386,7 +192,6 @@ const PresenterControls = ({ roomId, peerConfig }: PresenterControlsProps) => {
 
   return (
     <div className="min-h-screen bg-background p-4">
-      <audio ref={viewerAudioRef} autoPlay muted className="hidden" />
       
       <div className="max-w-lg mx-auto space-y-4">
         {/* Compact Header */}
@@ -396,12 +201,13 @@ const PresenterControls = ({ roomId, peerConfig }: PresenterControlsProps) => {
             <span className="font-semibold">Presenter Controls</span>
           </div>
           <div className="flex items-center gap-2">
-            {status === 'sharing' && (
+            {status === 'sharing' && !snapshot.isPaused && (
               <Badge className="bg-red-500 hover:bg-red-500 flex items-center gap-1">
                 <Radio className="w-3 h-3 animate-pulse" />
                 LIVE
               </Badge>
             )}
+            {snapshot.isPaused && <Badge variant="secondary">Paused</Badge>}
             <Badge variant="outline" className="flex items-center gap-1">
               <Users className="w-3 h-3" />
               {viewerCount}
@@ -418,6 +224,7 @@ const PresenterControls = ({ roomId, peerConfig }: PresenterControlsProps) => {
                 <p className="font-medium text-foreground">Demo Tip</p>
                 <p className="text-muted-foreground">
                   When the browser picker appears, select the <strong>tab</strong> where your app is open for the best demo experience.
+                  Then use <strong>Share element</strong> to send just the page content instead of the whole tab.
                 </p>
               </div>
             </div>
@@ -451,12 +258,103 @@ const PresenterControls = ({ roomId, peerConfig }: PresenterControlsProps) => {
                     <StopCircle className="w-4 h-4 mr-2" />
                     Stop
                   </Button>
+                  <Button onClick={() => session?.changeSource()} variant="outline" size="icon" title="Change source">
+                    <MonitorUp className="w-4 h-4" />
+                  </Button>
+                  <PauseShareButton
+                    compact
+                    isPaused={snapshot.isPaused}
+                    onPause={(durationMs) => session?.pauseSharing(durationMs)}
+                    onResume={() => session?.resumeSharing()}
+                  />
                   <Button onClick={toggleMic} variant={isMicOn ? 'secondary' : 'outline'} size="icon">
                     {isMicOn ? <Mic className="w-4 h-4" /> : <MicOff className="w-4 h-4" />}
                   </Button>
                 </>
               )}
             </div>
+            {isSharing && isMicOn && session?.hasMicrophone() && (
+              <AudioLevelMeter monitor={session.audioLevels} id={session.peerId} className="w-full" />
+            )}
+
+            <QualityControls
+              preset={snapshot.qualityPreset}
+              settings={snapshot.qualitySettings}
+              onChange={(preset, overrides) => session?.setQuality(preset, overrides)}
+              codec={snapshot.videoCodec}
+              onCodecChange={(codec) => session?.setVideoCodec(codec)}
+            />
+
+            {/* Before sharing this picks the mic that sharing will start with */}
+            {session && (!isSharing || session.hasMicrophone()) && (
+              <MicrophoneSelect
+                deviceId={snapshot.micDeviceId ?? preferredMicId}
+                onChange={(deviceId) => session.changeMicrophone(deviceId)}
+              />
+            )}
+
+            <SpeakerSelect />
+
+            {isSharing && session && (
+              <SharedSourceList
+                sources={snapshot.sources}
+                onAdd={() => session.addSource()}
+                onRemove={(id) => session.removeSource(id)}
+                onRename={(id, name) => session.renameSource(id, name)}
+              />
+            )}
+
+            {isSharing && session && (
+              <CropControls
+                captureStream={snapshot.captureStream}
+                cropRegion={snapshot.cropRegion}
+                cropTargetId={snapshot.cropTargetId}
+                onCropToElement={async (targetId) => {
+                  if (!(await session.cropToElement(targetId))) {
+                    toast.error('Element cropping only works when sharing this tab - select a region instead');
+                  }
+                }}
+                onCropRegion={(region) => session.setCropRegion(region)}
+              />
+            )}
+
+            <CameraOverlayControls
+              isCameraOn={snapshot.isCameraOn}
+              cameraMode={snapshot.cameraMode}
+              layout={snapshot.pipLayout}
+              onCameraChange={(enabled) => session?.setCameraEnabled(enabled)}
+              onCameraModeChange={(mode) => session?.setCameraMode(mode)}
+              onLayoutChange={(layout) => session?.setPipLayout(layout)}
+            />
+
+            <AudioMixControls
+              isSharing={isSharing}
+              shareSystemAudio={snapshot.shareSystemAudio}
+              hasSystemAudio={snapshot.hasSystemAudio}
+              hasMicrophone={session?.hasMicrophone() ?? false}
+              gains={snapshot.audioGains}
+              onShareSystemAudioChange={(enabled) => session?.setShareSystemAudio(enabled)}
+              onGainChange={(kind, gain) => session?.setAudioGain(kind, gain)}
+            />
+
+            <AudioProcessingControls
+              id="presenter-mic"
+              title="Your microphone"
+              processing={snapshot.audioProcessing}
+              onChange={(processing) => session?.setAudioProcessing(processing)}
+            />
+            <AudioProcessingControls
+              id="room-mic"
+              title="Viewer microphones (defaults)"
+              processing={snapshot.roomAudioProcessing}
+              onChange={(processing) => session?.setRoomAudioProcessing(processing)}
+            />
+            <div className="flex items-center gap-2">
+              <Switch id="group-audio" checked={snapshot.isGroupAudioOn} onCheckedChange={setGroupAudio} />
+              <Label htmlFor="group-audio" className="text-sm">
+                Viewers hear each other
+              </Label>
+            </div>
 
             {isSharing && (
               <Button onClick={endMeeting} variant="destructive" className="w-full">
@@ -478,6 +376,13 @@ const PresenterControls = ({ roomId, peerConfig }: PresenterControlsProps) => {
                 {copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
               </Button>
             </div>
+            <div className="flex items-center gap-2 mt-3">
+              <Switch id="relay-only" checked={isRelayOnly} onCheckedChange={setRelayOnly} />
+              <Label htmlFor="relay-only" className="flex items-center gap-1 text-sm">
+                <ShieldCheck className="w-4 h-4" />
+                Relay-only (hide IPs)
+              </Label>
+            </div>
           </CardContent>
         </Card>
 
@@ -486,34 +391,56 @@ const PresenterControls = ({ roomId, peerConfig }: PresenterControlsProps) => {
           <Card>
             <CardHeader className="pb-2 flex flex-row items-center justify-between">
               <CardTitle className="text-base">Viewers ({viewerCount})</CardTitle>
-              {viewerAudioStreams.current.size > 0 && (
+              {snapshot.viewerAudioIds.length > 0 && (
                 <Button
-                  variant={isViewerAudioEnabled ? 'secondary' : 'outline'}
+                  variant={isViewerAudioOn ? 'secondary' : 'outline'}
                   size="sm"
-                  onClick={enableViewerAudio}
+                  onClick={toggleViewerAudio}
+                  title={isViewerAudioOn ? 'Mute viewer audio' : 'Play viewer audio'}
                 >
-                  {isViewerAudioEnabled ? <Volume2 className="w-4 h-4" /> : <VolumeX className="w-4 h-4" />}
+                  {isViewerAudioOn ? <Volume2 className="w-4 h-4" /> : <VolumeX className="w-4 h-4" />}
                 </Button>
               )}
             </CardHeader>
             <CardContent>
               <div className="space-y-1">
-                {connectedViewerIds.map((viewerId) => {
+                {speakerFirst(connectedViewerIds, snapshot.activeSpeakerId).map((viewerId) => {
                   const shortId = viewerId.split('-').pop()?.slice(0, 6) || viewerId;
                   const isMuted = mutedViewers.has(viewerId);
                   return (
                     <div
                       key={viewerId}
-                      className="flex items-center justify-between p-2 rounded bg-muted/50 text-sm"
+                      className={`flex items-center justify-between p-2 rounded bg-muted/50 text-sm ${
+                        viewerId === snapshot.activeSpeakerId ? 'ring-2 ring-green-500' : ''
+                      }`}
                     >
-                      <span>Viewer {shortId}</span>
-                      <Button
-                        variant="ghost"
-                        size="sm"
-                        onClick={() => isMuted ? unmuteViewer(viewerId) : muteViewer(viewerId)}
-                      >
-                        {isMuted ? <VolumeX className="w-3 h-3" /> : <Volume2 className="w-3 h-3" />}
-                      </Button>
+                      <div className="flex items-center gap-2">
+                        <span>Viewer {shortId}</span>
+                        {snapshot.viewerAudioIds.includes(viewerId) && !isMuted && (
+                          <AudioLevelMeter monitor={session?.audioLevels ?? null} id={viewerId} className="w-10" />
+                        )}
+                        <ViewerConnectionBadge state={snapshot.viewerConnectionStates[viewerId]} />
+                        <ViewerBitrateBadge tier={snapshot.viewerBitrateTiers[viewerId]} />
+                        {snapshot.viewerCodecs[viewerId] && (
+                          <span className="text-xs text-muted-foreground">{snapshot.viewerCodecs[viewerId]}</span>
+                        )}
+                        {snapshot.viewerRtts[viewerId] !== undefined && (
+                          <span className="text-xs text-muted-foreground">{snapshot.viewerRtts[viewerId]} ms</span>
+                        )}
+                      </div>
+                      <div className="flex items-center gap-1">
+                        {snapshot.viewerAudioIds.includes(viewerId) && (
+                          <ViewerAudioControls mixer={session?.viewerAudio ?? null} viewerId={viewerId} />
+                        )}
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => isMuted ? unmuteViewer(viewerId) : muteViewer(viewerId)}
+                          title={isMuted ? 'Unmute for everyone' : 'Mute for everyone'}
+                        >
+                          {isMuted ? <VolumeX className="w-3 h-3" /> : <Volume2 className="w-3 h-3" />}
+                        </Button>
+                      </div>
                     </div>
                   );
                 })}
@@ -524,7 +451,7 @@ const PresenterControls = ({ roomId, peerConfig }: PresenterControlsProps) => {
 
         {/* Status */}
         <p className="text-xs text-center text-muted-foreground">
-          Room: {roomId} • {status === 'connecting' ? 'Connecting...' : status === 'ready' ? 'Ready' : status === 'sharing' ? 'Live' : 'Error'}
+          Room: {roomId} • {status === 'connecting' || status === 'idle' ? 'Connecting...' : status === 'ready' ? 'Ready' : status === 'sharing' ? 'Live' : 'Error'}
         </p>
       </div>
     </div>
@@ -0,0 +1,120 @@
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { getSupportedVideoCodecs, VideoCodecPreference } from '@/webrtc/codecs';
+import { QualityPresetId, qualityPresets, QualitySettings } from '@/webrtc/qualityPresets';
+
+interface QualityControlsProps {
+  preset: QualityPresetId;
+  settings: QualitySettings;
+  onChange: (preset: QualityPresetId, overrides?: Partial<QualitySettings>) => void;
+  codec: VideoCodecPreference;
+  onCodecChange: (codec: VideoCodecPreference) => void;
+}
+
+const presetIds = Object.keys(qualityPresets) as Exclude<QualityPresetId, 'custom'>[];
+
+const resolutionScales = [1, 1.5, 2, 3];
+
+const supportedCodecs = getSupportedVideoCodecs();
+
+// Preset picker, plus individual encoder limits when "Custom" is selected
+const QualityControls = ({ preset, settings, onChange, codec, onCodecChange }: QualityControlsProps) => (
+  <div className="space-y-3">
+    <div className="flex items-center gap-3">
+      <Label htmlFor="quality-preset" className="w-28 shrink-0 text-sm">Quality</Label>
+      <Select value={preset} onValueChange={(value) => onChange(value as QualityPresetId)}>
+        <SelectTrigger id="quality-preset">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {presetIds.map((id) => (
+            <SelectItem key={id} value={id}>
+              {qualityPresets[id].label}
+              <span className="ml-2 text-xs text-muted-foreground">{qualityPresets[id].description}</span>
+            </SelectItem>
+          ))}
+          <SelectItem value="custom">Custom</SelectItem>
+        </SelectContent>
+      </Select>
+    </div>
+
+    <div className="flex items-center gap-3">
+      <Label htmlFor="video-codec" className="w-28 shrink-0 text-sm">Codec</Label>
+      <Select value={codec} onValueChange={(value) => onCodecChange(value as VideoCodecPreference)}>
+        <SelectTrigger id="video-codec">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="auto">Automatic</SelectItem>
+          {supportedCodecs.map((id) => (
+            <SelectItem key={id} value={id}>{id}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+
+    {preset === 'custom' && (
+      <div className="space-y-3 pl-1">
+        <div className="flex items-center gap-3">
+          <Label className="w-28 shrink-0 text-sm">Bitrate</Label>
+          <Slider
+            min={200}
+            max={8000}
+            step={100}
+            value={[settings.maxBitrateKbps]}
+            onValueChange={([maxBitrateKbps]) => onChange('custom', { maxBitrateKbps })}
+          />
+          <span className="w-20 text-right text-xs text-muted-foreground">{settings.maxBitrateKbps} kbps</span>
+        </div>
+        <div className="flex items-center gap-3">
+          <Label className="w-28 shrink-0 text-sm">Framerate</Label>
+          <Slider
+            min={5}
+            max={60}
+            step={1}
+            value={[settings.maxFramerate]}
+            onValueChange={([maxFramerate]) => onChange('custom', { maxFramerate })}
+          />
+          <span className="w-20 text-right text-xs text-muted-foreground">{settings.maxFramerate} fps</span>
+        </div>
+        <div className="flex items-center gap-3">
+          <Label htmlFor="quality-scale" className="w-28 shrink-0 text-sm">Resolution</Label>
+          <Select
+            value={String(settings.scaleResolutionDownBy)}
+            onValueChange={(value) => onChange('custom', { scaleResolutionDownBy: Number(value) })}
+          >
+            <SelectTrigger id="quality-scale">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {resolutionScales.map((scale) => (
+                <SelectItem key={scale} value={String(scale)}>
+                  {scale === 1 ? 'Full' : `1/${scale}`}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex items-center gap-3">
+          <Label htmlFor="quality-degradation" className="w-28 shrink-0 text-sm">When congested</Label>
+          <Select
+            value={settings.degradationPreference}
+            onValueChange={(value) => onChange('custom', { degradationPreference: value as RTCDegradationPreference })}
+          >
+            <SelectTrigger id="quality-degradation">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="maintain-resolution">Keep resolution</SelectItem>
+              <SelectItem value="maintain-framerate">Keep framerate</SelectItem>
+              <SelectItem value="balanced">Balanced</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+    )}
+  </div>
+);
+
+export default QualityControls;
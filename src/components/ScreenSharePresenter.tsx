@@ -1,71 +1,55 @@
 import { useEffect, useRef, useState, useCallback } from 'react';
-import Peer, { DataConnection, MediaConnection } from 'peerjs';
+import type { PeerOptions } from 'peerjs';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Monitor, Users, StopCircle, Play, Copy, Check, Mic, MicOff, Maximize, Radio, UserPlus, UserMinus, XCircle, Volume2, VolumeX } from 'lucide-react';
 import { toast } from 'sonner';
+import type { PresenterStatus, ViewerLeaveReason } from '@/webrtc/presenterSession';
+import { usePresenterSession } from '@/hooks/use-presenter-session';
+import ViewerConnectionBadge from '@/components/ViewerConnectionBadge';
+import ViewerBitrateBadge from '@/components/ViewerBitrateBadge';
+import AudioLevelMeter from '@/components/AudioLevelMeter';
+import ViewerAudioControls from '@/components/ViewerAudioControls';
+import { useViewerAudioMix } from '@/hooks/use-viewer-audio-mix';
+import { speakerFirst } from '@/webrtc/audioLevels';
 
 export interface ScreenSharePresenterProps {
   roomId: string;
-  peerConfig?: ConstructorParameters<typeof Peer>[1];
+  peerConfig?: PeerOptions;
 }
 
-export type PresenterStatus = 'connecting' | 'ready' | 'sharing' | 'error';
-
-// Data channel message types
-interface DataMessage {
-  type: 'meeting-ended' | 'viewer-muted' | 'viewer-unmuted';
-  viewerId?: string;
-}
+export type { PresenterStatus };
 
 // Viewer activity event for join/leave notifications
 interface ViewerActivity {
   type: 'join' | 'leave';
   viewerId: string;
   timestamp: number;
-}
-
-// Track viewer info including mute state
-interface ViewerInfo {
-  connection: DataConnection;
-  isMutedByPresenter: boolean;
+  reason?: ViewerLeaveReason;
 }
 
 const ScreenSharePresenter = ({ roomId, peerConfig }: ScreenSharePresenterProps) => {
-  const [isSharing, setIsSharing] = useState(false);
-  const [viewerCount, setViewerCount] = useState(0);
-  const [status, setStatus] = useState<PresenterStatus>('connecting');
-  const [error, setError] = useState<string | null>(null);
+  const { session, snapshot } = usePresenterSession(roomId, peerConfig);
+  const { status, error, isMicOn, mutedViewers, stream } = snapshot;
+  const isSharing = status === 'sharing';
+  const connectedViewerIds = snapshot.viewerIds;
+  const viewerCount = connectedViewerIds.length;
+  const hasViewerAudio = snapshot.viewerAudioIds.length > 0;
+
   const [copied, setCopied] = useState(false);
-  const [isMicOn, setIsMicOn] = useState(true);
   const [recentActivity, setRecentActivity] = useState<ViewerActivity[]>([]);
-  const [mutedViewers, setMutedViewers] = useState<Set<string>>(new Set());
-const [isViewerAudioEnabled, setIsViewerAudioEnabled] = useState(false);
-  const [isSpeakerMuted, setIsSpeakerMuted] = useState(false);
-  const [hasViewerAudio, setHasViewerAudio] = useState(false);
+  const { isEnabled: isViewerAudioEnabled, isMuted: isSpeakerMuted } = useViewerAudioMix(session?.viewerAudio ?? null);
 
-  const peerRef = useRef<Peer | null>(null);
-  const streamRef = useRef<MediaStream | null>(null);
   const videoRef = useRef<HTMLVideoElement>(null);
-  const audioTrackRef = useRef<MediaStreamTrack | null>(null);
-  
-  // Container ref for viewer audio elements
-  const viewerAudioContainerRef = useRef<HTMLDivElement>(null);
-
-  // Track connected viewers by their peer IDs with full info
-  const viewerConnections = useRef<Map<string, ViewerInfo>>(new Map());
-  // Track active media calls to viewers
-  const viewerMediaCalls = useRef<Map<string, MediaConnection>>(new Map());
-  // Track incoming viewer audio streams and their audio elements
-  const viewerAudioElements = useRef<Map<string, HTMLAudioElement>>(new Map());
 
   // Add viewer activity notification
-  const addViewerActivity = useCallback((type: 'join' | 'leave', viewerId: string) => {
+  const addViewerActivity = useCallback((type: 'join' | 'leave', viewerId: string, reason?: ViewerLeaveReason) => {
     const activity: ViewerActivity = {
       type,
       viewerId: viewerId.split('-').pop() || viewerId, // Short ID
       timestamp: Date.now(),
+      reason,
     };
     
     setRecentActivity(prev => [...prev.slice(-4), activity]); // Keep last 5
@@ -73,6 +57,10 @@ const [isViewerAudioEnabled, setIsViewerAudioEnabled] = useState(false);
     // Show toast notification
     if (type === 'join') {
       toast.success(`Viewer joined`, { icon: <UserPlus className="w-4 h-4" /> });
+    } else if (reason === 'timeout') {
+      toast.warning(`Viewer timed out`, { icon: <UserMinus className="w-4 h-4" /> });
+    } else if (reason === 'refused') {
+      toast.warning(`Viewer refused: no relay connection available`, { icon: <UserMinus className="w-4 h-4" /> });
     } else {
       toast.info(`Viewer left`, { icon: <UserMinus className="w-4 h-4" /> });
     }
@@ -83,423 +71,87 @@ const [isViewerAudioEnabled, setIsViewerAudioEnabled] = useState(false);
     }, 5000);
   }, []);
 
-  // Send data message to specific viewer
-  const sendToViewer = useCallback((viewerId: string, message: DataMessage) => {
-    const viewerInfo = viewerConnections.current.get(viewerId);
-    if (viewerInfo?.connection.open) {
-      viewerInfo.connection.send(message);
-    }
-  }, []);
+  // Wire session events to notifications
+  useEffect(() => {
+    if (!session) return;
 
-  // Send data message to all viewers
-  const broadcastToViewers = useCallback((message: DataMessage) => {
-    viewerConnections.current.forEach((viewerInfo, viewerId) => {
-      if (viewerInfo.connection.open) {
-        viewerInfo.connection.send(message);
-      }
-    });
-  }, []);
+    const unsubscribers = [
+      session.on('viewer-joined', (viewerId) => addViewerActivity('join', viewerId)),
+      session.on('viewer-left', (viewerId, reason) => addViewerActivity('leave', viewerId, reason)),
+      session.on('viewer-audio-started', () => toast.success('Viewer microphone connected')),
+      session.on('mic-unavailable', () => {
+        toast.warning('Microphone not available - sharing screen only');
+      }),
+      session.on('session-resumed', () => {
+        toast.info('Session restored - start sharing again to resume the stream');
+      }),
+    ];
+
+    return () => {
+      unsubscribers.forEach(unsubscribe => unsubscribe());
+    };
+  }, [session, addViewerActivity]);
+
+  // Show preview using the same stream viewers will receive (muted to prevent echo)
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    video.srcObject = stream;
+    if (stream) {
+      video.play().catch(err => {
+        console.error('Error playing preview:', err);
+      });
+    }
+  }, [stream]);
 
   // Mute a specific viewer
   const muteViewer = useCallback((viewerId: string) => {
-    sendToViewer(viewerId, { type: 'viewer-muted', viewerId });
-    const viewerInfo = viewerConnections.current.get(viewerId);
-    if (viewerInfo) {
-      viewerInfo.isMutedByPresenter = true;
-    }
-    setMutedViewers(prev => new Set([...prev, viewerId]));
+    session?.muteViewer(viewerId);
     toast.success('Viewer muted');
-  }, [sendToViewer]);
+  }, [session]);
 
   // Unmute a specific viewer
   const unmuteViewer = useCallback((viewerId: string) => {
-    sendToViewer(viewerId, { type: 'viewer-unmuted', viewerId });
-    const viewerInfo = viewerConnections.current.get(viewerId);
-    if (viewerInfo) {
-      viewerInfo.isMutedByPresenter = false;
-    }
-    setMutedViewers(prev => {
-      const next = new Set(prev);
-      next.delete(viewerId);
-      return next;
-    });
+    session?.unmuteViewer(viewerId);
     toast.success('Viewer unmuted');
-  }, [sendToViewer]);
+  }, [session]);
 
   // End meeting and clean up
   const endMeeting = useCallback(() => {
-    // Notify all viewers
-    broadcastToViewers({ type: 'meeting-ended' });
-
-    // Stop all tracks
-    if (streamRef.current) {
-      streamRef.current.getTracks().forEach(track => track.stop());
-      streamRef.current = null;
-    }
-    audioTrackRef.current = null;
-
-    // Close all media calls
-    viewerMediaCalls.current.forEach((call) => {
-      call.close();
-    });
-    viewerMediaCalls.current.clear();
-
-    // Close all data connections
-    viewerConnections.current.forEach((viewerInfo) => {
-      viewerInfo.connection.close();
-    });
-    viewerConnections.current.clear();
-
-    // Clear viewer audio elements
-    viewerAudioElements.current.forEach((audio) => {
-      audio.srcObject = null;
-      audio.remove();
-    });
-    viewerAudioElements.current.clear();
-
-    // Clear video preview
-    if (videoRef.current) {
-      videoRef.current.srcObject = null;
-    }
-
-    // Reset state
-    setIsSharing(false);
-    setViewerCount(0);
-    setMutedViewers(new Set());
-    setIsViewerAudioEnabled(false);
-    setIsSpeakerMuted(false);
-    setHasViewerAudio(false);
-    setStatus('ready');
-    
+    session?.endMeeting();
     toast.success('Meeting ended');
-  }, [broadcastToViewers]);
-
-  // Initialize PeerJS connection
-  useEffect(() => {
-    if (!roomId) return;
-
-    const presenterId = `presenter-${roomId}`;
-
-    const peer = new Peer(presenterId, {
-      debug: 2,
-      ...peerConfig,
-    });
-
-    peer.on('open', (id) => {
-      console.log('Presenter connected with ID:', id);
-      setStatus('ready');
-    });
-
-    peer.on('error', (err) => {
-      console.error('Peer error:', err);
-      setError(err.message);
-      setStatus('error');
-    });
-
-    peer.on('disconnected', () => {
-      console.log('Peer disconnected, attempting reconnect...');
-      peer.reconnect();
-    });
-
-    peerRef.current = peer;
-
-    return () => {
-      endMeeting();
-      peer.destroy();
-    };
-  }, [roomId, peerConfig, endMeeting]);
-
-  // Handle incoming viewer data connections
-  useEffect(() => {
-    const peer = peerRef.current;
-    if (!peer) return;
-
-    const handleDataConnection = (conn: DataConnection) => {
-      console.log('Viewer data connection from:', conn.peer);
-
-      conn.on('open', () => {
-        console.log('Viewer data connection open:', conn.peer);
-
-        // Store the data connection with mute state
-        viewerConnections.current.set(conn.peer, {
-          connection: conn,
-          isMutedByPresenter: false,
-        });
-        setViewerCount(viewerConnections.current.size);
-        addViewerActivity('join', conn.peer);
-
-        // If we're already sharing, immediately call this viewer with the stream
-        if (streamRef.current && isSharing) {
-          console.log('Sharing already active, calling new viewer:', conn.peer);
-          callViewer(conn.peer, streamRef.current);
-        }
-      });
-
-      conn.on('close', () => {
-        console.log('Viewer data connection closed:', conn.peer);
-        viewerConnections.current.delete(conn.peer);
-        viewerMediaCalls.current.delete(conn.peer);
-        // Clean up audio element for this viewer
-        const audioEl = viewerAudioElements.current.get(conn.peer);
-        if (audioEl) {
-          audioEl.srcObject = null;
-          audioEl.remove();
-          viewerAudioElements.current.delete(conn.peer);
-          if (viewerAudioElements.current.size === 0) {
-            setHasViewerAudio(false);
-          }
-        }
-        setMutedViewers(prev => {
-          const next = new Set(prev);
-          next.delete(conn.peer);
-          return next;
-        });
-        setViewerCount(viewerConnections.current.size);
-        addViewerActivity('leave', conn.peer);
-      });
-
-      conn.on('error', (err) => {
-        console.error('Viewer data connection error:', err);
-        viewerConnections.current.delete(conn.peer);
-        viewerMediaCalls.current.delete(conn.peer);
-        // Clean up audio element for this viewer
-        const audioEl = viewerAudioElements.current.get(conn.peer);
-        if (audioEl) {
-          audioEl.srcObject = null;
-          audioEl.remove();
-          viewerAudioElements.current.delete(conn.peer);
-          if (viewerAudioElements.current.size === 0) {
-            setHasViewerAudio(false);
-          }
-        }
-        setMutedViewers(prev => {
-          const next = new Set(prev);
-          next.delete(conn.peer);
-          return next;
-        });
-        setViewerCount(viewerConnections.current.size);
-      });
-    };
-
-    peer.on('connection', handleDataConnection);
-
-    return () => {
-      peer.off('connection', handleDataConnection);
-    };
-  }, [isSharing, addViewerActivity]);
-
-  // Handle incoming calls from viewers (for two-way audio)
-  useEffect(() => {
-    const peer = peerRef.current;
-    if (!peer) return;
-
-    const handleCall = (call: MediaConnection) => {
-      console.log('Receiving call from viewer:', call.peer);
-      
-      // Answer viewer's call (we receive their audio)
-      call.answer();
-
-      call.on('stream', (remoteStream) => {
-        console.log('Received audio stream from viewer:', call.peer, 'tracks:', remoteStream.getTracks().map(t => t.kind));
-        
-        // Check if stream has audio tracks
-        const audioTracks = remoteStream.getAudioTracks();
-        if (audioTracks.length === 0) {
-          console.log('No audio tracks in viewer stream');
-          return;
-        }
-        
-        // Create a dedicated audio element for this viewer
-        let audioEl = viewerAudioElements.current.get(call.peer);
-        if (!audioEl) {
-          audioEl = document.createElement('audio');
-          viewerAudioContainerRef.current?.appendChild(audioEl);
-          viewerAudioElements.current.set(call.peer, audioEl);
-        }
-        
-        // Set up the audio element
-        audioEl.srcObject = remoteStream;
-        audioEl.muted = isSpeakerMuted;
-        audioEl.autoplay = true;
-        
-        // Try to play immediately (presenter has already interacted with page)
-        audioEl.play().then(() => {
-          console.log('Viewer audio playing successfully');
-        }).catch(err => {
-          console.log('Viewer audio autoplay blocked:', err);
-          // If autoplay blocked, user will need to click enable button
-        });
-        
-        setHasViewerAudio(true);
-        setIsViewerAudioEnabled(true);
-        toast.success('Viewer microphone connected');
-      });
-
-      call.on('close', () => {
-        console.log('Viewer audio call closed:', call.peer);
-        const audioEl = viewerAudioElements.current.get(call.peer);
-        if (audioEl) {
-          audioEl.srcObject = null;
-          audioEl.remove();
-          viewerAudioElements.current.delete(call.peer);
-        }
-        // Update state if no more viewer audio
-        if (viewerAudioElements.current.size === 0) {
-          setHasViewerAudio(false);
-        }
-      });
-    };
-
-    peer.on('call', handleCall);
-
-    return () => {
-      peer.off('call', handleCall);
-    };
-  }, [isSpeakerMuted]);
+  }, [session]);
 
   // Enable viewer audio playback (user interaction required)
-  const enableViewerAudio = useCallback(() => {
-    // Unmute all viewer audio elements
-    viewerAudioElements.current.forEach((audio) => {
-      audio.muted = false;
-      audio.play().catch(err => {
-        console.error('Error playing viewer audio:', err);
-      });
-    });
-    setIsViewerAudioEnabled(true);
-    setIsSpeakerMuted(false);
-    toast.success('Viewer audio enabled');
-  }, []);
+  const enableViewerAudio = useCallback(async () => {
+    if (await session?.viewerAudio.enable()) {
+      toast.success('Viewer audio enabled');
+    }
+  }, [session]);
 
   // Toggle speaker mute for viewer audio
   const toggleSpeakerMute = useCallback(() => {
     const newMuted = !isSpeakerMuted;
-    viewerAudioElements.current.forEach((audio) => {
-      audio.muted = newMuted;
-    });
-    setIsSpeakerMuted(newMuted);
+    session?.viewerAudio.setMuted(newMuted);
     toast.success(newMuted ? 'Speaker muted' : 'Speaker unmuted');
-  }, [isSpeakerMuted]);
-
-  // Call a viewer with the stream
-  const callViewer = useCallback((viewerId: string, stream: MediaStream) => {
-    const peer = peerRef.current;
-    if (!peer) return;
-
-    console.log('Calling viewer with stream:', viewerId);
-    const call = peer.call(viewerId, stream);
-    viewerMediaCalls.current.set(viewerId, call);
-
-    call.on('close', () => {
-      console.log('Media call closed:', viewerId);
-      viewerMediaCalls.current.delete(viewerId);
-    });
-
-    call.on('error', (err) => {
-      console.error('Media call error:', err);
-      viewerMediaCalls.current.delete(viewerId);
-    });
-  }, []);
+  }, [session, isSpeakerMuted]);
 
   const startSharing = useCallback(async () => {
-    try {
-      // Request screen share (video only)
-      const displayStream = await navigator.mediaDevices.getDisplayMedia({
-        video: {
-          cursor: 'always'
-        } as MediaTrackConstraints,
-        audio: false,
-      });
-
-      // Extract the video track
-      const videoTrack = displayStream.getVideoTracks()[0];
-      if (!videoTrack) {
-        throw new Error('No video track available');
-      }
-
-      // Request microphone audio
-      let audioTrack: MediaStreamTrack | null = null;
-      try {
-        const audioStream = await navigator.mediaDevices.getUserMedia({ audio: true });
-        audioTrack = audioStream.getAudioTracks()[0];
-        audioTrackRef.current = audioTrack;
-        // Set initial mic state
-        audioTrack.enabled = isMicOn;
-        console.log('Microphone captured successfully');
-      } catch (audioErr) {
-        console.warn('Microphone access denied or unavailable:', audioErr);
-        toast.warning('Microphone not available - sharing screen only');
-      }
-
-      // Create combined stream with video + audio (if available)
-      const tracks = audioTrack ? [videoTrack, audioTrack] : [videoTrack];
-      const outboundStream = new MediaStream(tracks);
-      streamRef.current = outboundStream;
-
-      setIsSharing(true);
-      setStatus('sharing');
-
-      // Show preview using the same stream viewers will receive (muted to prevent echo)
-      if (videoRef.current) {
-        videoRef.current.srcObject = outboundStream;
-        videoRef.current.play().catch(err => {
-          console.error('Error playing preview:', err);
-        });
-      }
-
-      // Handle stream end (user clicks "Stop sharing" in browser UI)
-      videoTrack.onended = () => {
-        stopSharing();
-      };
-
-      // Call all currently connected viewers
-      console.log('Calling all connected viewers:', viewerConnections.current.size);
-      viewerConnections.current.forEach((_, viewerId) => {
-        callViewer(viewerId, outboundStream);
-      });
-
-      console.log('Screen sharing started with', audioTrack ? 'audio' : 'video only');
-    } catch (err) {
-      console.error('Error starting screen share:', err);
-      setError('Failed to start screen sharing. Please allow screen access.');
-    }
-  }, [callViewer, isMicOn]);
+    await session?.startSharing();
+  }, [session]);
 
   const stopSharing = useCallback(() => {
-    // Stop all tracks
-    if (streamRef.current) {
-      streamRef.current.getTracks().forEach(track => track.stop());
-      streamRef.current = null;
-    }
-    audioTrackRef.current = null;
-
-    // Close all media calls
-    viewerMediaCalls.current.forEach((call) => {
-      call.close();
-    });
-    viewerMediaCalls.current.clear();
-
-    // Clear video preview
-    if (videoRef.current) {
-      videoRef.current.srcObject = null;
-    }
-
-    setIsSharing(false);
-    if (status !== 'error') {
-      setStatus('ready');
-    }
-    console.log('Screen sharing stopped');
-  }, [status]);
+    session?.stopSharing();
+  }, [session]);
 
   // Toggle microphone on/off
   const toggleMic = useCallback(() => {
-    if (audioTrackRef.current) {
-      const newState = !isMicOn;
-      audioTrackRef.current.enabled = newState;
-      setIsMicOn(newState);
-      toast.success(newState ? 'Microphone unmuted' : 'Microphone muted');
+    if (session?.hasMicrophone()) {
+      session.toggleMic();
+      toast.success(session.getSnapshot().isMicOn ? 'Microphone unmuted' : 'Microphone muted');
     }
-  }, [isMicOn]);
+  }, [session]);
 
   // Toggle fullscreen for presenter preview
   const toggleFullscreen = useCallback(() => {
@@ -523,14 +175,8 @@ const [isViewerAudioEnabled, setIsViewerAudioEnabled] = useState(false);
     setTimeout(() => setCopied(false), 2000);
   }, [roomId]);
 
-  // Get list of connected viewer IDs for display
-  const connectedViewerIds = Array.from(viewerConnections.current.keys());
-
   return (
     <div className="min-h-screen bg-background p-6">
-      {/* Audio container for viewer streams - visually hidden but active */}
-      <div ref={viewerAudioContainerRef} className="sr-only" aria-hidden="true" />
-      
       <div className="max-w-4xl mx-auto space-y-6">
         {/* Header */}
         <div className="flex items-center justify-between">
@@ -549,9 +195,10 @@ const [isViewerAudioEnabled, setIsViewerAudioEnabled] = useState(false);
               </Badge>
             )}
             <Badge variant={status === 'sharing' ? 'default' : 'secondary'}>
-              {status === 'connecting' && 'Connecting...'}
+              {(status === 'idle' || status === 'connecting') && 'Connecting...'}
               {status === 'ready' && 'Ready'}
               {status === 'sharing' && 'Sharing'}
+              {status === 'ended' && 'Meeting Ended'}
               {status === 'error' && 'Error'}
             </Badge>
             <Badge variant="outline" className="flex items-center gap-1">
@@ -575,7 +222,7 @@ const [isViewerAudioEnabled, setIsViewerAudioEnabled] = useState(false);
                 ) : (
                   <UserMinus className="w-3 h-3 mr-1" />
                 )}
-                Viewer {activity.viewerId.slice(0, 4)} {activity.type === 'join' ? 'joined' : 'left'}
+                Viewer {activity.viewerId.slice(0, 4)} {activity.type === 'join' ? 'joined' : activity.reason === 'timeout' ? 'timed out' : activity.reason === 'refused' ? 'was refused' : 'left'}
               </Badge>
             ))}
           </div>
@@ -603,7 +250,7 @@ const [isViewerAudioEnabled, setIsViewerAudioEnabled] = useState(false);
               {!isSharing ? (
                 <Button
                   onClick={startSharing}
-                  disabled={status !== 'ready'}
+                  disabled={status !== 'ready' && status !== 'ended'}
                   className="flex items-center gap-2"
                 >
                   <Play className="w-4 h-4" />
@@ -626,6 +273,9 @@ const [isViewerAudioEnabled, setIsViewerAudioEnabled] = useState(false);
                   >
                     {isMicOn ? <Mic className="w-4 h-4" /> : <MicOff className="w-4 h-4" />}
                     {isMicOn ? 'Mic On' : 'Mic Off'}
+                    {isMicOn && session?.hasMicrophone() && (
+                      <AudioLevelMeter monitor={session.audioLevels} id={session.peerId} className="w-10" />
+                    )}
                   </Button>
                   <Button
                     onClick={endMeeting}
@@ -689,35 +339,46 @@ const [isViewerAudioEnabled, setIsViewerAudioEnabled] = useState(false);
             </CardHeader>
             <CardContent>
               <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
-                {connectedViewerIds.map((viewerId) => {
+                {speakerFirst(connectedViewerIds, snapshot.activeSpeakerId).map((viewerId) => {
                   const shortId = viewerId.split('-').pop() || viewerId;
                   const isMuted = mutedViewers.has(viewerId);
-                  const hasAudio = viewerAudioElements.current.has(viewerId);
+                  const hasAudio = snapshot.viewerAudioIds.includes(viewerId);
                   return (
                     <div
                       key={viewerId}
-                      className="flex items-center justify-between p-2 rounded-lg bg-muted/50"
+                      className={`flex flex-wrap items-center justify-between gap-2 p-2 rounded-lg bg-muted/50 ${
+                        viewerId === snapshot.activeSpeakerId ? 'ring-2 ring-green-500' : ''
+                      }`}
                     >
                       <div className="flex items-center gap-2">
                         <span className="text-sm font-medium">
                           Viewer {shortId.slice(0, 6)}
                         </span>
+                        <ViewerConnectionBadge state={snapshot.viewerConnectionStates[viewerId]} />
+                        <ViewerBitrateBadge tier={snapshot.viewerBitrateTiers[viewerId]} />
+                        {snapshot.viewerRtts[viewerId] !== undefined && (
+                          <span className="text-xs text-muted-foreground">{snapshot.viewerRtts[viewerId]} ms</span>
+                        )}
                         {hasAudio && !isMuted && (
-                          <Badge variant="outline" className="text-xs">
-                            <Mic className="w-3 h-3 mr-1" />
-                            Mic On
+                          <Badge variant="outline" className="text-xs gap-1">
+                            <Mic className="w-3 h-3" />
+                            <AudioLevelMeter monitor={session?.audioLevels ?? null} id={viewerId} className="w-10" />
                           </Badge>
                         )}
                       </div>
-                      <Button
-                        variant={isMuted ? 'outline' : 'ghost'}
-                        size="sm"
-                        onClick={() => isMuted ? unmuteViewer(viewerId) : muteViewer(viewerId)}
-                        className="flex items-center gap-1"
-                      >
-                        {isMuted ? <MicOff className="w-3 h-3" /> : <Mic className="w-3 h-3" />}
-                        {isMuted ? 'Unmute' : 'Mute'}
-                      </Button>
+                      <div className="flex items-center gap-1">
+                        {hasAudio && <ViewerAudioControls mixer={session?.viewerAudio ?? null} viewerId={viewerId} />}
+                        <Button
+                          variant={isMuted ? 'outline' : 'ghost'}
+                          size="sm"
+                          onClick={() => isMuted ? unmuteViewer(viewerId) : muteViewer(viewerId)}
+                          className="flex items-center gap-1"
+                          title={isMuted ? 'Unmute for everyone' : 'Mute for everyone'}
+                        >
+                          {isMuted ? <MicOff className="w-3 h-3" /> : <Mic className="w-3 h-3" />}
+                          {isMuted ? 'Unmute' : 'Mute'}
+                        </Button>
+                      </div>
                     </div>
                   );
                 })}
@@ -2,8 +2,27 @@ import { useEffect, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { Monitor, Users, StopCircle, Play, Copy, Check, Mic, MicOff, Maximize, Radio, UserPlus, UserMinus, XCircle, Volume2, VolumeX } from 'lucide-react';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Monitor, Users, StopCircle, Play, Copy, Check, Mic, MicOff, Maximize, Radio, UserPlus, UserMinus, XCircle, Volume2, VolumeX, ShieldCheck, MonitorUp } from 'lucide-react';
 import { useScreenShare } from '@/contexts/ScreenShareContext';
+import ViewerConnectionBadge from '@/components/ViewerConnectionBadge';
+import ViewerBitrateBadge from '@/components/ViewerBitrateBadge';
+import AudioMixControls from '@/components/AudioMixControls';
+import AudioProcessingControls from '@/components/AudioProcessingControls';
+import QualityControls from '@/components/QualityControls';
+import MicrophoneSelect from '@/components/MicrophoneSelect';
+import SpeakerSelect from '@/components/SpeakerSelect';
+import { useDevicePreferences } from '@/hooks/use-device-preferences';
+import PauseShareButton from '@/components/PauseShareButton';
+import CameraOverlayControls from '@/components/CameraOverlayControls';
+import SharedSourceList from '@/components/SharedSourceList';
+import CropControls from '@/components/CropControls';
+import PipDragOverlay from '@/components/PipDragOverlay';
+import AudioLevelMeter from '@/components/AudioLevelMeter';
+import ViewerAudioControls from '@/components/ViewerAudioControls';
+import { speakerFirst } from '@/webrtc/audioLevels';
+import { getPresenterPeerId } from '@/webrtc/presenterSession';
 
 interface ScreenSharePresenterUIProps {
   roomId: string;
@@ -18,18 +37,65 @@ const ScreenSharePresenterUI = ({ roomId }: ScreenSharePresenterUIProps) => {
     viewerCount,
     error,
     isMicOn,
+    isPaused,
+    sources,
+    captureStream,
+    cropRegion,
+    cropTargetId,
+    isCameraOn,
+    cameraMode,
+    pipLayout,
+    hasMicrophone,
+    shareSystemAudio,
+    hasSystemAudio,
+    audioGains,
+    micDeviceId,
+    audioProcessing,
+    roomAudioProcessing,
+    qualityPreset,
+    qualitySettings,
+    videoCodec,
     recentActivity,
     mutedViewers,
     hasViewerAudio,
+    audioLevels,
+    activeSpeakerId,
+    viewerAudio,
     isViewerAudioEnabled,
     isSpeakerMuted,
+    isGroupAudioOn,
     connectedViewerIds,
+    viewerConnectionStates,
+    viewerBitrateTiers,
+    viewerCodecs,
+    viewerRtts,
+    isRelayOnly,
     videoRef,
     initializeRoom,
     startSharing,
+    changeSource,
+    addSource,
+    removeSource,
+    renameSource,
+    cropToElement,
+    setCropRegion,
+    pauseSharing,
+    resumeSharing,
+    setCameraEnabled,
+    setCameraMode,
+    setPipLayout,
+    changeMicrophone,
     stopSharing,
     endMeeting,
     toggleMic,
+    setRelayOnly,
+    setGroupAudio,
+    setShareSystemAudio,
+    setAudioGain,
+    setAudioProcessing,
+    setRoomAudioProcessing,
+    setQuality,
+    setVideoCodec,
     muteViewer,
     unmuteViewer,
     enableViewerAudio,
@@ -37,6 +103,7 @@ const ScreenSharePresenterUI = ({ roomId }: ScreenSharePresenterUIProps) => {
     toggleFullscreen,
     hasViewerAudioElement,
   } = useScreenShare();
+  const { micDeviceId: preferredMicId } = useDevicePreferences();
 
   // Initialize room when component mounts or roomId changes
   useEffect(() => {
@@ -62,17 +129,19 @@ const ScreenSharePresenterUI = ({ roomId }: ScreenSharePresenterUIProps) => {
             </p>
           </div>
           <div className="flex items-center gap-3">
-            {status === 'sharing' && (
+            {status === 'sharing' && !isPaused && (
               <Badge variant="default" className="flex items-center gap-1.5 bg-red-500 hover:bg-red-500">
                 <Radio className="w-3 h-3 animate-pulse" />
                 LIVE
               </Badge>
             )}
+            {isPaused && <Badge variant="secondary">Paused</Badge>}
             <Badge variant={status === 'sharing' ? 'default' : 'secondary'}>
               {status === 'connecting' && 'Connecting...'}
               {status === 'idle' && 'Initializing...'}
               {status === 'ready' && 'Ready'}
               {status === 'sharing' && 'Sharing'}
+              {status === 'ended' && 'Meeting Ended'}
               {status === 'error' && 'Error'}
             </Badge>
             <Badge variant="outline" className="flex items-center gap-1">
@@ -96,7 +165,7 @@ const ScreenSharePresenterUI = ({ roomId }: ScreenSharePresenterUIProps) => {
                 ) : (
                   <UserMinus className="w-3 h-3 mr-1" />
                 )}
-                Viewer {activity.viewerId.slice(0, 4)} {activity.type === 'join' ? 'joined' : 'left'}
+                Viewer {activity.viewerId.slice(0, 4)} {activity.type === 'join' ? 'joined' : activity.reason === 'timeout' ? 'timed out' : activity.reason === 'refused' ? 'was refused' : 'left'}
               </Badge>
             ))}
           </div>
@@ -124,7 +193,7 @@ const ScreenSharePresenterUI = ({ roomId }: ScreenSharePresenterUIProps) => {
               {!isSharing ? (
                 <Button
                   onClick={startSharing}
-                  disabled={status !== 'ready'}
+                  disabled={status !== 'ready' && status !== 'ended'}
                   className="flex items-center gap-2"
                 >
                   <Play className="w-4 h-4" />
@@ -140,6 +209,15 @@ const ScreenSharePresenterUI = ({ roomId }: ScreenSharePresenterUIProps) => {
                     <StopCircle className="w-4 h-4" />
                     Stop Sharing
                   </Button>
+                  <Button
+                    onClick={changeSource}
+                    variant="outline"
+                    className="flex items-center gap-2"
+                  >
+                    <MonitorUp className="w-4 h-4" />
+                    Change Source
+                  </Button>
+                  <PauseShareButton isPaused={isPaused} onPause={pauseSharing} onResume={resumeSharing} />
                   <Button
                     onClick={toggleMic}
                     variant={isMicOn ? 'secondary' : 'outline'}
@@ -147,6 +225,9 @@ const ScreenSharePresenterUI = ({ roomId }: ScreenSharePresenterUIProps) => {
                   >
                     {isMicOn ? <Mic className="w-4 h-4" /> : <MicOff className="w-4 h-4" />}
                     {isMicOn ? 'Mic On' : 'Mic Off'}
+                    {isMicOn && hasMicrophone && (
+                      <AudioLevelMeter monitor={audioLevels} id={getPresenterPeerId(roomId)} className="w-10" />
+                    )}
                   </Button>
                   <Button
                     onClick={endMeeting}
@@ -160,6 +241,79 @@ const ScreenSharePresenterUI = ({ roomId }: ScreenSharePresenterUIProps) => {
               )}
             </div>
 
+            <QualityControls
+              preset={qualityPreset}
+              settings={qualitySettings}
+              onChange={setQuality}
+              codec={videoCodec}
+              onCodecChange={setVideoCodec}
+            />
+
+            {/* Before sharing this picks the mic that sharing will start with */}
+            {(!isSharing || hasMicrophone) && (
+              <MicrophoneSelect deviceId={micDeviceId ?? preferredMicId} onChange={changeMicrophone} />
+            )}
+
+            <SpeakerSelect />
+
+            {isSharing && (
+              <SharedSourceList sources={sources} onAdd={addSource} onRemove={removeSource} onRename={renameSource} />
+            )}
+
+            {isSharing && (
+              <CropControls
+                captureStream={captureStream}
+                cropRegion={cropRegion}
+                cropTargetId={cropTargetId}
+                onCropToElement={cropToElement}
+                onCropRegion={setCropRegion}
+              />
+            )}
+
+            <CameraOverlayControls
+              isCameraOn={isCameraOn}
+              cameraMode={cameraMode}
+              layout={pipLayout}
+              onCameraChange={setCameraEnabled}
+              onCameraModeChange={setCameraMode}
+              onLayoutChange={setPipLayout}
+            />
+
+            <AudioMixControls
+              isSharing={isSharing}
+              shareSystemAudio={shareSystemAudio}
+              hasSystemAudio={hasSystemAudio}
+              hasMicrophone={hasMicrophone}
+              gains={audioGains}
+              onShareSystemAudioChange={setShareSystemAudio}
+              onGainChange={setAudioGain}
+            />
+
+            <AudioProcessingControls
+              id="presenter-mic"
+              title="Your microphone"
+              processing={audioProcessing}
+              onChange={setAudioProcessing}
+            />
+            <AudioProcessingControls
+              id="room-mic"
+              title="Viewer microphones (defaults)"
+              processing={roomAudioProcessing}
+              onChange={setRoomAudioProcessing}
+            />
+            <div className="flex items-center gap-2">
+              <Switch
+                id="group-audio"
+                checked={isGroupAudioOn}
+                onCheckedChange={setGroupAudio}
+                disabled={status === 'ended' || status === 'error'}
+              />
+              <Label htmlFor="group-audio" className="flex items-center gap-1">
+                <Users className="w-4 h-4" />
+                Viewers hear each other
+              </Label>
+            </div>
+
             <div className="flex items-center gap-2">
               <p className="text-sm text-muted-foreground">
                 Share this link with viewers:
@@ -171,6 +325,24 @@ const ScreenSharePresenterUI = ({ roomId }: ScreenSharePresenterUIProps) => {
                 {copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
               </Button>
             </div>
+
+            <div className="flex items-center gap-2">
+              <Switch
+                id="relay-only"
+                checked={isRelayOnly}
+                onCheckedChange={setRelayOnly}
+                disabled={status === 'ended' || status === 'error'}
+              />
+              <Label htmlFor="relay-only" className="flex items-center gap-1">
+                <ShieldCheck className="w-4 h-4" />
+                Relay-only (hide IP addresses)
+              </Label>
+            </div>
+            {isRelayOnly && (
+              <p className="text-xs text-muted-foreground">
+                All media goes through your TURN server. Viewers without one are turned away.
+              </p>
+            )}
           </CardContent>
         </Card>
 
@@ -210,35 +382,49 @@ const ScreenSharePresenterUI = ({ roomId }: ScreenSharePresenterUIProps) => {
             </CardHeader>
             <CardContent>
               <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
-                {connectedViewerIds.map((viewerId) => {
+                {speakerFirst(connectedViewerIds, activeSpeakerId).map((viewerId) => {
                   const shortId = viewerId.split('-').pop() || viewerId;
                   const isMuted = mutedViewers.has(viewerId);
                   const hasAudio = hasViewerAudioElement(viewerId);
                   return (
                     <div
                       key={viewerId}
-                      className="flex items-center justify-between p-2 rounded-lg bg-muted/50"
+                      className={`flex flex-wrap items-center justify-between gap-2 p-2 rounded-lg bg-muted/50 ${
+                        viewerId === activeSpeakerId ? 'ring-2 ring-green-500' : ''
+                      }`}
                     >
                       <div className="flex items-center gap-2">
                         <span className="text-sm font-medium">
                           Viewer {shortId.slice(0, 6)}
                         </span>
+                        <ViewerConnectionBadge state={viewerConnectionStates[viewerId]} />
+                        <ViewerBitrateBadge tier={viewerBitrateTiers[viewerId]} />
+                        {viewerCodecs[viewerId] && (
+                          <span className="text-xs text-muted-foreground">{viewerCodecs[viewerId]}</span>
+                        )}
+                        {viewerRtts[viewerId] !== undefined && (
+                          <span className="text-xs text-muted-foreground">{viewerRtts[viewerId]} ms</span>
+                        )}
                         {hasAudio && !isMuted && (
-                          <Badge variant="outline" className="text-xs">
-                            <Mic className="w-3 h-3 mr-1" />
-                            Mic On
+                          <Badge variant="outline" className="text-xs gap-1">
+                            <Mic className="w-3 h-3" />
+                            <AudioLevelMeter monitor={audioLevels} id={viewerId} className="w-10" />
                           </Badge>
                         )}
                       </div>
-                      <Button
-                        variant={isMuted ? 'outline' : 'ghost'}
-                        size="sm"
-                        onClick={() => isMuted ? unmuteViewer(viewerId) : muteViewer(viewerId)}
-                        className="flex items-center gap-1"
-                      >
-                        {isMuted ? <MicOff className="w-3 h-3" /> : <Mic className="w-3 h-3" />}
-                        {isMuted ? 'Unmute' : 'Mute'}
-                      </Button>
+                      <div className="flex items-center gap-1">
+                        {hasAudio && <ViewerAudioControls mixer={viewerAudio} viewerId={viewerId} />}
+                        <Button
+                          variant={isMuted ? 'outline' : 'ghost'}
+                          size="sm"
+                          onClick={() => isMuted ? unmuteViewer(viewerId) : muteViewer(viewerId)}
+                          className="flex items-center gap-1"
+                          title={isMuted ? 'Unmute for everyone' : 'Mute for everyone'}
+                        >
+                          {isMuted ? <MicOff className="w-3 h-3" /> : <Mic className="w-3 h-3" />}
+                          {isMuted ? 'Unmute' : 'Mute'}
+                        </Button>
+                      </div>
                     </div>
                   );
                 })}
@@ -264,14 +450,19 @@ const ScreenSharePresenterUI = ({ roomId }: ScreenSharePresenterUIProps) => {
             )}
           </CardHeader>
           <CardContent>
-            <video
-              ref={videoRef}
-              autoPlay
-              muted
-              playsInline
-              controls={false}
-              className={`w-full rounded-lg bg-black aspect-video ${!isSharing ? 'hidden' : ''}`}
-            />
+            <div className="relative">
+              <video
+                ref={videoRef}
+                autoPlay
+                muted
+                playsInline
+                controls={false}
+                className={`w-full rounded-lg bg-black aspect-video ${!isSharing ? 'hidden' : ''}`}
+              />
+              {isSharing && isCameraOn && cameraMode === 'composite' && !isPaused && (
+                <PipDragOverlay videoRef={videoRef} onMove={(position) => setPipLayout({ position })} />
+              )}
+            </div>
             {!isSharing && (
               <div className="w-full aspect-video bg-muted rounded-lg flex items-center justify-center">
                 <p className="text-muted-foreground">No screen being shared</p>
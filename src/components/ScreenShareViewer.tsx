@@ -1,253 +1,175 @@
 import { useEffect, useRef, useState, useCallback } from 'react';
-import Peer, { DataConnection, MediaConnection } from 'peerjs';
+import type { PeerOptions } from 'peerjs';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
-import { Monitor, Loader2, Maximize, Volume2, VolumeX, Mic, MicOff, LogOut, MousePointerClick, AlertTriangle } from 'lucide-react';
+import { Monitor, Loader2, Maximize, Volume2, VolumeX, Mic, MicOff, LogOut, MousePointerClick, AlertTriangle, RefreshCw, ShieldCheck, Pause } from 'lucide-react';
 import { toast } from 'sonner';
+import type { ViewerStatus } from '@/webrtc/viewerSession';
+import { useViewerSession } from '@/hooks/use-viewer-session';
+import CameraBubble from '@/components/CameraBubble';
+import MicrophoneSelect from '@/components/MicrophoneSelect';
+import AudioProcessingControls from '@/components/AudioProcessingControls';
+import SpeakerSelect from '@/components/SpeakerSelect';
+import AudioLevelMeter from '@/components/AudioLevelMeter';
+import { useDevicePreferences } from '@/hooks/use-device-preferences';
+import { useSpeakerOutput } from '@/hooks/use-speaker-output';
+import SourceLayout, { SourceLayoutMode, SourceLayoutSelect } from '@/components/SourceLayout';
+import { SCREEN_SOURCE_ID } from '@/webrtc/mediaTracks';
 
 export interface ScreenShareViewerProps {
   roomId: string;
-  peerConfig?: ConstructorParameters<typeof Peer>[1];
+  peerConfig?: PeerOptions;
 }
 
-export type ViewerStatus = 'connecting' | 'waiting' | 'receiving' | 'ended' | 'error' | 'left';
-
-// Data channel message types
-interface DataMessage {
-  type: 'meeting-ended' | 'viewer-muted' | 'viewer-unmuted';
-  viewerId?: string;
-}
+export type { ViewerStatus };
 
 const ScreenShareViewer = ({ roomId, peerConfig }: ScreenShareViewerProps) => {
-  const [status, setStatus] = useState<ViewerStatus>('connecting');
-  const [error, setError] = useState<string | null>(null);
+  const {
+    session,
+    status,
+    error,
+    screenStream,
+    cameraStream,
+    sourceStreams,
+    groupAudioStream,
+    sourceNames,
+    isMicEnabled,
+    isMicMuted,
+    isMutedByPresenter,
+    enableMicrophone,
+    disableMicrophone,
+    changeMicrophone,
+    micDeviceId,
+    audioProcessing,
+    setAudioProcessing,
+    toggleMicMute: toggleSessionMicMute,
+    leave,
+    rejoin,
+    reconnectAttempt,
+    nextRetryAt,
+    retryNow,
+    icePolicy,
+    isPresenterPaused,
+    activeSpeakerId,
+  } = useViewerSession(roomId, { peerConfig });
+  const { micDeviceId: preferredMicId, speakerDeviceId } = useDevicePreferences();
   const [isMuted, setIsMuted] = useState(true);
   const [showAudioOverlay, setShowAudioOverlay] = useState(true);
-  const [isMicEnabled, setIsMicEnabled] = useState(false);
-  const [isMicMuted, setIsMicMuted] = useState(false); // Local mic mute (viewer controls)
-  const [isMutedByPresenter, setIsMutedByPresenter] = useState(false);
-
-  const peerRef = useRef<Peer | null>(null);
-  const videoRef = useRef<HTMLVideoElement>(null);
-  const connectionRef = useRef<DataConnection | null>(null);
-  const callRef = useRef<MediaConnection | null>(null);
-  const micStreamRef = useRef<MediaStream | null>(null);
-  const micCallRef = useRef<MediaConnection | null>(null);
-
-  // Clean up all connections and streams
-  const cleanupConnections = useCallback(() => {
-    // Stop mic stream
-    if (micStreamRef.current) {
-      micStreamRef.current.getTracks().forEach(track => track.stop());
-      micStreamRef.current = null;
-    }
-
-    // Close mic call
-    if (micCallRef.current) {
-      micCallRef.current.close();
-      micCallRef.current = null;
-    }
-
-    // Close media call
-    if (callRef.current) {
-      callRef.current.close();
-      callRef.current = null;
-    }
-
-    // Close data connection
-    if (connectionRef.current) {
-      connectionRef.current.close();
-      connectionRef.current = null;
-    }
-
-    // Clear video
-    if (videoRef.current) {
-      videoRef.current.srcObject = null;
-    }
-  }, []);
-
-  // Leave meeting handler
-  const leaveMeeting = useCallback(() => {
-    console.log('Leaving meeting...');
-    cleanupConnections();
-    
-    // Destroy peer connection
-    if (peerRef.current) {
-      peerRef.current.destroy();
-      peerRef.current = null;
-    }
-
-    setStatus('left');
-    setIsMicEnabled(false);
-    setIsMicMuted(false);
-    setIsMutedByPresenter(false);
-    toast.success('You have left the meeting');
-  }, [cleanupConnections]);
-
-  // Rejoin meeting handler
-  const rejoinMeeting = useCallback(() => {
-    window.location.reload();
-  }, []);
-
+  const [now, setNow] = useState(() => Date.now());
+  const [layoutMode, setLayoutMode] = useState<SourceLayoutMode>('focus');
+  const [focusedSourceId, setFocusedSourceId] = useState(SCREEN_SOURCE_ID);
+
+  const videoRef = useRef<HTMLVideoElement | null>(null);
+  // Other viewers' voices, when the presenter has group audio on
+  const groupAudioRef = useRef<HTMLAudioElement | null>(null);
+  // Play the presenter's audio on the chosen speaker
+  const videoSpeakerRef = useSpeakerOutput(videoRef, speakerDeviceId);
+  const groupAudioSpeakerRef = useSpeakerOutput(groupAudioRef, speakerDeviceId);
+
+  // Surface session events as notifications
   useEffect(() => {
-    if (!roomId) return;
-
-    const presenterId = `presenter-${roomId}`;
-    // Generate unique viewer ID
-    const viewerId = `viewer-${roomId}-${Math.random().toString(36).substr(2, 9)}`;
-
-    const peer = new Peer(viewerId, {
-      debug: 2,
-      ...peerConfig,
-    });
-
-    peer.on('open', (id) => {
-      console.log('Viewer connected with ID:', id);
-      setStatus('waiting');
-
-      // Connect to presenter's data channel
-      const conn = peer.connect(presenterId);
-      connectionRef.current = conn;
-
-      conn.on('open', () => {
-        console.log('Connected to presenter data channel');
-      });
-
-      // Handle data messages from presenter
-      conn.on('data', (data) => {
-        const message = data as DataMessage;
-        console.log('Received message from presenter:', message);
-
-        if (message.type === 'meeting-ended') {
-          setStatus('ended');
-          cleanupConnections();
-          toast.info('The presenter has ended the meeting');
-        } else if (message.type === 'viewer-muted') {
-          setIsMutedByPresenter(true);
-          // Immediately disable audio sending
-          if (micStreamRef.current) {
-            const audioTrack = micStreamRef.current.getAudioTracks()[0];
-            if (audioTrack) {
-              audioTrack.enabled = false;
-            }
-          }
+    if (!session) return;
+
+    const unsubscribers = [
+      session.on('meeting-ended', () => toast.info('The presenter has ended the meeting')),
+      session.on('presenter-resumed', () => toast.info('The presenter reconnected')),
+      session.on('paused-changed', (paused) => toast.info(paused ? 'The presenter paused sharing' : 'Sharing resumed')),
+      session.on('muted-by-presenter', (muted) => {
+        if (muted) {
           toast.warning('You have been muted by the presenter');
-        } else if (message.type === 'viewer-unmuted') {
-          setIsMutedByPresenter(false);
-          // Re-enable audio if mic is on and not locally muted
-          if (micStreamRef.current && isMicEnabled && !isMicMuted) {
-            const audioTrack = micStreamRef.current.getAudioTracks()[0];
-            if (audioTrack) {
-              audioTrack.enabled = true;
-            }
-          }
+        } else {
           toast.success('The presenter has unmuted you');
         }
-      });
+      }),
+      session.on('mic-enabled', () => toast.success('Microphone enabled')),
+      session.on('mic-disabled', () => toast.success('Microphone disabled')),
+      session.on('mic-error', (message) => toast.error(message)),
+      session.on('left', () => toast.success('You have left the meeting')),
+    ];
 
-      conn.on('close', () => {
-        console.log('Presenter disconnected');
-        if (status !== 'left') {
-          setStatus('ended');
-        }
-      });
+    return () => {
+      unsubscribers.forEach(unsubscribe => unsubscribe());
+    };
+  }, [session]);
 
-      conn.on('error', (err) => {
-        console.error('Connection error:', err);
-      });
+  // Attach the presenter's screen (and audio) to the video element
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    // Clear any existing stream first
+    video.srcObject = null;
+    if (!screenStream) return;
+
+    // Ensure video is muted BEFORE attaching stream (browser autoplay policy)
+    video.muted = true;
+    video.srcObject = screenStream;
+    setIsMuted(true);
+
+    // Force play with muted state to bypass autoplay restrictions
+    requestAnimationFrame(() => {
+      if (videoRef.current) {
+        videoRef.current.muted = true;
+        videoRef.current.play()
+          .then(() => {
+            console.log('Video playback started successfully');
+          })
+          .catch(err => {
+            console.error('Error playing video:', err);
+            setTimeout(() => {
+              if (videoRef.current) {
+                videoRef.current.muted = true;
+                videoRef.current.play().catch(e => console.error('Retry play failed:', e));
+              }
+            }, 200);
+          });
+      }
     });
+  }, [screenStream]);
 
-    // Handle incoming call (screen share stream)
-    peer.on('call', (call) => {
-      console.log('Receiving call from presenter');
-      callRef.current = call;
-
-      // Answer the call without sending any stream (view-only by default)
-      call.answer();
-
-      call.on('stream', (remoteStream) => {
-        console.log('Received remote stream, tracks:', remoteStream.getTracks().map(t => t.kind));
-
-        if (videoRef.current) {
-          const video = videoRef.current;
-          
-          // Clear any existing stream first
-          video.srcObject = null;
-          
-          // Ensure video is muted BEFORE attaching stream (browser autoplay policy)
-          video.muted = true;
-          
-          // Attach the stream
-          video.srcObject = remoteStream;
-          
-          // Update status to show video element
-          setStatus('receiving');
-          
-          // Force play with muted state to bypass autoplay restrictions
-          requestAnimationFrame(() => {
-            if (videoRef.current) {
-              videoRef.current.muted = true;
-              videoRef.current.play()
-                .then(() => {
-                  console.log('Video playback started successfully');
-                })
-                .catch(err => {
-                  console.error('Error playing video:', err);
-                  setTimeout(() => {
-                    if (videoRef.current) {
-                      videoRef.current.muted = true;
-                      videoRef.current.play().catch(e => console.error('Retry play failed:', e));
-                    }
-                  }, 200);
-                });
-            }
-          });
-        }
-      });
+  // Play the other viewers alongside the presenter, muted together with them
+  useEffect(() => {
+    const audio = groupAudioRef.current;
+    if (!audio) return;
 
-      call.on('close', () => {
-        console.log('Call ended');
-        if (status !== 'left') {
-          setStatus('ended');
-        }
-        if (videoRef.current) {
-          videoRef.current.srcObject = null;
-        }
-      });
+    audio.srcObject = groupAudioStream;
+    if (groupAudioStream) {
+      audio.play().catch(err => console.warn('Could not play group audio:', err));
+    }
+  }, [groupAudioStream]);
 
-      call.on('error', (err) => {
-        console.error('Call error:', err);
-        setError('Stream connection failed');
-        setStatus('error');
-      });
-    });
+  useEffect(() => {
+    if (groupAudioRef.current) {
+      groupAudioRef.current.muted = isMuted;
+    }
+  }, [isMuted]);
 
-    peer.on('error', (err) => {
-      console.error('Peer error:', err);
+  // Tick once per second while a reconnection attempt is scheduled
+  useEffect(() => {
+    if (!nextRetryAt) return;
 
-      // Handle specific error types
-      if (err.type === 'peer-unavailable') {
-        setStatus('waiting');
-        setError('Presenter not available yet. Waiting...');
-      } else {
-        setError(err.message);
-        setStatus('error');
-      }
-    });
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [nextRetryAt]);
 
-    peer.on('disconnected', () => {
-      console.log('Peer disconnected, attempting reconnect...');
-      peer.reconnect();
-    });
+  // Don't wait out the backoff once the network comes back
+  useEffect(() => {
+    window.addEventListener('online', retryNow);
+    return () => window.removeEventListener('online', retryNow);
+  }, [retryNow]);
 
-    peerRef.current = peer;
+  // Leave meeting handler
+  const leaveMeeting = useCallback(() => {
+    leave();
+  }, [leave]);
 
-    return () => {
-      cleanupConnections();
-      peer.destroy();
-    };
-  }, [roomId, peerConfig, cleanupConnections]);
+  // Rejoin meeting handler
+  const rejoinMeeting = useCallback(() => {
+    setShowAudioOverlay(true);
+    rejoin();
+  }, [rejoin]);
 
   // Toggle fullscreen for viewer video
   const toggleFullscreen = useCallback(() => {
@@ -284,75 +206,16 @@ const ScreenShareViewer = ({ roomId, peerConfig }: ScreenShareViewerProps) => {
     }
   }, [isMuted]);
 
-  // Enable viewer microphone (simple toggle, not push-to-talk)
-  const enableMicrophone = useCallback(async () => {
-    if (!peerRef.current) {
-      toast.error('Not connected to room');
-      return;
-    }
-
-    try {
-      // Request microphone access
-      const micStream = await navigator.mediaDevices.getUserMedia({ audio: true });
-      micStreamRef.current = micStream;
-      
-      // Start with mic enabled (audio is actively sent)
-      const audioTrack = micStream.getAudioTracks()[0];
-      if (audioTrack) {
-        audioTrack.enabled = !isMutedByPresenter; // Respect presenter mute
-      }
-      
-      // Call presenter with our audio stream
-      const presenterId = `presenter-${roomId}`;
-      const call = peerRef.current.call(presenterId, micStream);
-      micCallRef.current = call;
-
-      call.on('error', (err) => {
-        console.error('Mic call error:', err);
-        toast.error('Failed to send audio to presenter');
-      });
-
-      setIsMicEnabled(true);
-      setIsMicMuted(false);
-      toast.success('Microphone enabled');
-    } catch (err) {
-      console.error('Error accessing microphone:', err);
-      toast.error('Could not access microphone');
-    }
-  }, [roomId, isMutedByPresenter]);
-
   // Toggle microphone mute (viewer controls whether audio is sent)
   const toggleMicMute = useCallback(() => {
     if (isMutedByPresenter) {
       toast.error('You are muted by the presenter');
       return;
     }
-    
-    if (micStreamRef.current) {
-      const audioTrack = micStreamRef.current.getAudioTracks()[0];
-      if (audioTrack) {
-        const newMutedState = !isMicMuted;
-        audioTrack.enabled = !newMutedState;
-        setIsMicMuted(newMutedState);
-        toast.success(newMutedState ? 'Microphone muted' : 'Microphone unmuted');
-      }
-    }
-  }, [isMicMuted, isMutedByPresenter]);
 
-  // Disable viewer microphone completely
-  const disableMicrophone = useCallback(() => {
-    if (micStreamRef.current) {
-      micStreamRef.current.getTracks().forEach(track => track.stop());
-      micStreamRef.current = null;
-    }
-    if (micCallRef.current) {
-      micCallRef.current.close();
-      micCallRef.current = null;
-    }
-    setIsMicEnabled(false);
-    setIsMicMuted(false);
-    toast.success('Microphone disabled');
-  }, []);
+    toggleSessionMicMute();
+    toast.success(!isMicMuted ? 'Microphone muted' : 'Microphone unmuted');
+  }, [isMicMuted, isMutedByPresenter, toggleSessionMicMute]);
 
   const getStatusMessage = () => {
     switch (status) {
@@ -436,6 +299,24 @@ const ScreenShareViewer = ({ roomId, peerConfig }: ScreenShareViewerProps) => {
   // Determine effective mic state for display
   const isMicEffectivelyMuted = isMutedByPresenter || isMicMuted;
 
+  // Viewers are named the way the presenter's viewer list names them
+  const getSpeakingLabel = (speakerId: string) => {
+    if (speakerId === session?.presenterId) return 'Presenter is speaking';
+    if (speakerId === session?.viewerId) return 'You are speaking';
+    return `Viewer ${(speakerId.split('-').pop() || speakerId).slice(0, 6)} is speaking`;
+  };
+
+  // Extra sources are hidden behind the pause slate like the screen. A removed
+  // source stays on the call without video until the next call, so only show
+  // sources the presenter still lists.
+  const layoutSources = isPresenterPaused
+    ? []
+    : sourceStreams
+        .filter(({ id }) => id in sourceNames)
+        .map(({ id, stream }) => ({ id, name: sourceNames[id], stream }));
+  // Fall back to the main screen when the focused source is removed
+  const focusedId = layoutSources.some((source) => source.id === focusedSourceId) ? focusedSourceId : SCREEN_SOURCE_ID;
+
   return (
     <div className="min-h-screen bg-background p-6">
       <div className="max-w-5xl mx-auto space-y-6">
@@ -454,6 +335,18 @@ const ScreenShareViewer = ({ roomId, peerConfig }: ScreenShareViewerProps) => {
               ) : null}
               {getStatusMessage()}
             </Badge>
+            {isPresenterPaused && status === 'receiving' && (
+              <Badge variant="secondary" className="flex items-center gap-1">
+                <Pause className="w-3 h-3" />
+                Paused
+              </Badge>
+            )}
+            {icePolicy === 'relay' && status !== 'error' && (
+              <Badge variant="outline" className="flex items-center gap-1" title="Media is relayed through a TURN server">
+                <ShieldCheck className="w-3 h-3" />
+                Relay-only
+              </Badge>
+            )}
             {status !== 'error' && (
               <Button
                 variant="outline"
@@ -495,9 +388,21 @@ const ScreenShareViewer = ({ roomId, peerConfig }: ScreenShareViewerProps) => {
             <CardTitle className="flex items-center gap-2">
               <Monitor className="w-5 h-5" />
               Shared Screen
+              {status === 'receiving' && activeSpeakerId && (
+                <Badge variant="outline" className="gap-1 border-green-500 text-green-600 dark:text-green-400">
+                  <Mic className="w-3 h-3" />
+                  {getSpeakingLabel(activeSpeakerId)}
+                </Badge>
+              )}
             </CardTitle>
             {status === 'receiving' && (
               <div className="flex items-center gap-2">
+                {layoutSources.length > 0 && (
+                  <>
+                    <SourceLayoutSelect mode={layoutMode} onChange={setLayoutMode} />
+                    <div className="h-4 w-px bg-border" />
+                  </>
+                )}
                 {/* Microphone controls */}
                 {!isMicEnabled ? (
                   <Button
@@ -571,13 +476,25 @@ const ScreenShareViewer = ({ roomId, peerConfig }: ScreenShareViewerProps) => {
             )}
             
             {/* Video element always rendered but visibility controlled via positioning */}
-            <video
-              ref={videoRef}
-              autoPlay
-              playsInline
-              muted
-              className={`w-full rounded-lg bg-black aspect-video ${status !== 'receiving' ? 'absolute opacity-0 pointer-events-none' : ''}`}
+            <SourceLayout
+              mode={layoutMode}
+              focusedId={focusedId}
+              onFocus={setFocusedSourceId}
+              screenName={sourceNames[SCREEN_SOURCE_ID]}
+              sources={layoutSources}
+              screen={
+                <video
+                  ref={videoSpeakerRef}
+                  autoPlay
+                  playsInline
+                  muted
+                  className={`w-full rounded-lg bg-black aspect-video ${status !== 'receiving' ? 'absolute opacity-0 pointer-events-none' : ''}`}
+                />
+              }
             />
+            <audio ref={groupAudioSpeakerRef} autoPlay muted className="hidden" />
+            {/* Presenter's webcam, when sent as its own track; fullscreen shows the screen alone */}
+            {status === 'receiving' && cameraStream && !isPresenterPaused && <CameraBubble stream={cameraStream} />}
             {(status === 'connecting' || status === 'waiting' || status === 'error') && (
               <div className="w-full aspect-video bg-muted rounded-lg flex flex-col items-center justify-center gap-3">
                 {(status === 'connecting' || status === 'waiting') && (
@@ -588,6 +505,20 @@ const ScreenShareViewer = ({ roomId, peerConfig }: ScreenShareViewerProps) => {
                   {status === 'waiting' && 'Waiting for presenter to start sharing...'}
                   {status === 'error' && 'Unable to connect. Please refresh and try again.'}
                 </p>
+                {status === 'waiting' && reconnectAttempt > 0 && (
+                  <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                    <span>
+                      Presenter offline · attempt {reconnectAttempt}
+                      {nextRetryAt && ` · retrying in ${Math.max(0, Math.ceil((nextRetryAt - now) / 1000))}s`}
+                    </span>
+                    {nextRetryAt && (
+                      <Button variant="ghost" size="sm" onClick={retryNow}>
+                        <RefreshCw className="w-3 h-3 mr-1" />
+                        Retry now
+                      </Button>
+                    )}
+                  </div>
+                )}
               </div>
             )}
           </CardContent>
@@ -605,6 +536,25 @@ const ScreenShareViewer = ({ roomId, peerConfig }: ScreenShareViewerProps) => {
           </Card>
         )}
 
+        {/* Audio devices; each picker hides itself with fewer than two devices */}
+        {status === 'receiving' && (
+          <div className="max-w-md space-y-3">
+            <MicrophoneSelect
+              deviceId={micDeviceId ?? preferredMicId}
+              onChange={async (deviceId) => {
+                if (await changeMicrophone(deviceId)) toast.success('Microphone switched');
+              }}
+            />
+            <SpeakerSelect />
+            <AudioProcessingControls
+              id="viewer-mic"
+              title="Microphone processing"
+              processing={audioProcessing}
+              onChange={setAudioProcessing}
+            />
+          </div>
+        )}
+
         {/* Mic info */}
         {status === 'receiving' && isMicEnabled && !isMutedByPresenter && !isMicMuted && (
           <Card className="border-green-500/50 bg-green-500/10">
@@ -612,6 +562,7 @@ const ScreenShareViewer = ({ roomId, peerConfig }: ScreenShareViewerProps) => {
               <p className="text-sm text-green-600 dark:text-green-400 flex items-center gap-2">
                 <Mic className="w-4 h-4" />
                 Your microphone is on. The presenter can hear you.
+                <AudioLevelMeter monitor={session?.audioLevels ?? null} id={session?.viewerId ?? ''} className="ml-auto w-24" />
               </p>
             </CardContent>
           </Card>
@@ -0,0 +1,80 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Plus, X } from 'lucide-react';
+import type { SharedSource } from '@/webrtc/presenterSession';
+
+interface SharedSourceListProps {
+  sources: SharedSource[];
+  onAdd: () => void;
+  onRemove: (id: string) => void;
+  onRename: (id: string, name: string) => void;
+}
+
+interface SourceRowProps {
+  source: SharedSource;
+  onRemove?: () => void;
+  onRename: (name: string) => void;
+}
+
+// Name is committed on blur or Enter so viewers are not sent every keystroke
+const SourceRow = ({ source, onRemove, onRename }: SourceRowProps) => {
+  const [name, setName] = useState(source.name);
+
+  useEffect(() => {
+    setName(source.name);
+  }, [source.name]);
+
+  const commit = () => {
+    if (name.trim() && name !== source.name) {
+      onRename(name);
+    } else {
+      setName(source.name);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <Input
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        onBlur={commit}
+        onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+        aria-label="Source name"
+        className="h-8"
+      />
+      {onRemove ? (
+        <Button variant="ghost" size="icon" onClick={onRemove} className="h-8 w-8 shrink-0" title="Stop sharing this source">
+          <X className="w-4 h-4" />
+        </Button>
+      ) : (
+        // The main screen is stopped with Stop Sharing
+        <div className="w-8 shrink-0" />
+      )}
+    </div>
+  );
+};
+
+// Screens and windows being shared, with names viewers see
+const SharedSourceList = ({ sources, onAdd, onRemove, onRename }: SharedSourceListProps) => (
+  <div className="space-y-2">
+    <div className="flex items-center justify-between">
+      <Label className="text-sm">Sources</Label>
+      <Button variant="outline" size="sm" onClick={onAdd} className="flex items-center gap-1">
+        <Plus className="w-4 h-4" />
+        Add Source
+      </Button>
+    </div>
+    {sources.map((source, index) => (
+      <SourceRow
+        key={source.id}
+        source={source}
+        onRemove={index > 0 ? () => onRemove(source.id) : undefined}
+        onRename={(name) => onRename(source.id, name)}
+      />
+    ))}
+  </div>
+);
+
+export default SharedSourceList;
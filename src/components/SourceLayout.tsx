@@ -0,0 +1,106 @@
+import { useEffect, useRef } from 'react';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { Columns2, PictureInPicture2, Square } from 'lucide-react';
+import { SCREEN_SOURCE_ID } from '@/webrtc/mediaTracks';
+
+export type SourceLayoutMode = 'focus' | 'side-by-side' | 'pip';
+
+export interface LayoutSource {
+  id: string;
+  name: string;
+  stream: MediaStream;
+}
+
+interface SourceLayoutProps {
+  mode: SourceLayoutMode;
+  focusedId: string;
+  onFocus: (id: string) => void;
+  // The main screen's video element, owned by the caller (it carries the audio)
+  screen: React.ReactNode;
+  screenName: string | undefined;
+  sources: LayoutSource[];
+}
+
+interface SourceLayoutSelectProps {
+  mode: SourceLayoutMode;
+  onChange: (mode: SourceLayoutMode) => void;
+}
+
+export const SourceLayoutSelect = ({ mode, onChange }: SourceLayoutSelectProps) => (
+  <ToggleGroup type="single" size="sm" value={mode} onValueChange={(value) => value && onChange(value as SourceLayoutMode)}>
+    <ToggleGroupItem value="focus" aria-label="Focus" title="Focus">
+      <Square className="w-4 h-4" />
+    </ToggleGroupItem>
+    <ToggleGroupItem value="side-by-side" aria-label="Side by side" title="Side by side">
+      <Columns2 className="w-4 h-4" />
+    </ToggleGroupItem>
+    <ToggleGroupItem value="pip" aria-label="Picture-in-picture" title="Picture-in-picture">
+      <PictureInPicture2 className="w-4 h-4" />
+    </ToggleGroupItem>
+  </ToggleGroup>
+);
+
+const SourceVideo = ({ stream }: { stream: MediaStream }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+    video.srcObject = stream;
+    video.play().catch((err) => console.warn('Could not play source:', err));
+    return () => {
+      video.srcObject = null;
+    };
+  }, [stream]);
+
+  return <video ref={videoRef} autoPlay playsInline muted className="w-full rounded-lg bg-black aspect-video" />;
+};
+
+// Arrange the main screen and extra sources. Tiles keep the same element
+// structure in every mode so the main video is never remounted.
+const SourceLayout = ({ mode, focusedId, onFocus, screen, screenName, sources }: SourceLayoutProps) => {
+  const hasSources = sources.length > 0;
+  const tiles = [
+    { id: SCREEN_SOURCE_ID, name: screenName, content: screen },
+    ...sources.map((source) => ({ id: source.id, name: source.name, content: <SourceVideo stream={source.stream} /> })),
+  ];
+
+  const getTileClass = (id: string) => {
+    if (!hasSources) return 'w-full';
+    if (mode === 'side-by-side') return '';
+    if (id === focusedId) return 'w-full order-first';
+    return mode === 'focus'
+      ? 'w-[calc(25%-0.375rem)] cursor-pointer'
+      : 'absolute right-3 z-10 w-1/4 cursor-pointer shadow-lg';
+  };
+
+  // Thumbnails stack up from the bottom-right corner in picture-in-picture
+  const getTileStyle = (id: string, index: number): React.CSSProperties | undefined => {
+    if (!hasSources || mode !== 'pip' || id === focusedId) return undefined;
+    return { bottom: `${3 + index * 27}%` };
+  };
+
+  let thumbnailIndex = 0;
+  return (
+    <div className={`relative ${hasSources && mode === 'side-by-side' ? 'grid grid-cols-2 gap-2' : 'flex flex-wrap gap-2'}`}>
+      {tiles.map((tile) => {
+        const style = tile.id === focusedId ? undefined : getTileStyle(tile.id, thumbnailIndex++);
+        return (
+          <div
+            key={tile.id}
+            className={`relative ${getTileClass(tile.id)}`}
+            style={style}
+            onClick={() => hasSources && tile.id !== focusedId && onFocus(tile.id)}
+          >
+            {tile.content}
+            {hasSources && tile.name && (
+              <span className="absolute left-2 top-2 rounded bg-black/60 px-2 py-0.5 text-xs text-white">{tile.name}</span>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default SourceLayout;
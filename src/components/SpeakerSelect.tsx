@@ -0,0 +1,37 @@
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useDevicePreferences } from '@/hooks/use-device-preferences';
+import { useMediaDevices } from '@/hooks/use-media-devices';
+import { devicePreferencesStore, isSpeakerSelectionSupported } from '@/webrtc/devicePreferences';
+
+// Speaker picker for remote audio. The choice is remembered; playback
+// elements follow it through useDevicePreferences.
+const SpeakerSelect = () => {
+  const { speakerDeviceId } = useDevicePreferences();
+  const devices = useMediaDevices('audiooutput', speakerDeviceId);
+
+  if (!isSpeakerSelectionSupported() || devices.length < 2) return null;
+
+  return (
+    <div className="flex items-center gap-3">
+      <Label htmlFor="speaker-device" className="w-28 shrink-0 text-sm">Speaker</Label>
+      <Select
+        value={speakerDeviceId ?? undefined}
+        onValueChange={(deviceId) => devicePreferencesStore.setSpeakerDeviceId(deviceId)}
+      >
+        <SelectTrigger id="speaker-device">
+          <SelectValue placeholder="Default speaker" />
+        </SelectTrigger>
+        <SelectContent>
+          {devices.map((device, index) => (
+            <SelectItem key={device.deviceId} value={device.deviceId}>
+              {device.label || `Speaker ${index + 1}`}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+};
+
+export default SpeakerSelect;
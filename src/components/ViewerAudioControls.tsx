@@ -0,0 +1,55 @@
+import { Slider } from '@/components/ui/slider';
+import { Toggle } from '@/components/ui/toggle';
+import { Headphones, HeadphoneOff } from 'lucide-react';
+import { useViewerAudioMix } from '@/hooks/use-viewer-audio-mix';
+import { MAX_AUDIO_GAIN } from '@/webrtc/audioMixer';
+import type { ViewerAudioMixer } from '@/webrtc/viewerAudioMixer';
+
+interface ViewerAudioControlsProps {
+  mixer: ViewerAudioMixer | null;
+  viewerId: string;
+}
+
+// Local volume, mute and solo for one viewer's mic; other viewers are unaffected
+const ViewerAudioControls = ({ mixer, viewerId }: ViewerAudioControlsProps) => {
+  const { mutedIds, soloIds } = useViewerAudioMix(mixer);
+  const volume = mixer?.getVolume(viewerId) ?? 1;
+  const isMuted = mutedIds.has(viewerId);
+
+  return (
+    <div className="flex items-center gap-1">
+      <Toggle
+        size="sm"
+        pressed={isMuted}
+        onPressedChange={(pressed) => mixer?.setViewerMuted(viewerId, pressed)}
+        aria-label={isMuted ? 'Listen to viewer' : 'Stop listening to viewer'}
+        title={isMuted ? 'Listen (only you)' : 'Mute for me (only you)'}
+        className="h-7 px-1.5"
+      >
+        {isMuted ? <HeadphoneOff className="w-3 h-3" /> : <Headphones className="w-3 h-3" />}
+      </Toggle>
+      <Slider
+        className="w-16"
+        min={0}
+        max={MAX_AUDIO_GAIN}
+        step={0.05}
+        value={[volume]}
+        disabled={isMuted}
+        aria-label="Viewer volume"
+        onValueChange={([next]) => mixer?.setVolume(viewerId, next)}
+      />
+      <Toggle
+        size="sm"
+        pressed={soloIds.has(viewerId)}
+        onPressedChange={(pressed) => mixer?.setSolo(viewerId, pressed)}
+        aria-label="Solo viewer"
+        title="Solo (only you)"
+        className="h-7 px-1.5 text-xs"
+      >
+        S
+      </Toggle>
+    </div>
+  );
+};
+
+export default ViewerAudioControls;
@@ -0,0 +1,33 @@
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+import { Gauge } from 'lucide-react';
+import type { BitrateTier } from '@/webrtc/presenterSession';
+
+interface ViewerBitrateBadgeProps {
+  tier: BitrateTier | undefined;
+  className?: string;
+}
+
+const labels: Record<BitrateTier, string> = {
+  high: 'High',
+  medium: 'Medium',
+  low: 'Low',
+};
+
+// Adaptive bitrate tier for one viewer in the presenter's viewer list
+const ViewerBitrateBadge = ({ tier, className }: ViewerBitrateBadgeProps) => {
+  if (!tier) return null;
+
+  return (
+    <Badge
+      variant="outline"
+      className={cn('text-xs', tier === 'low' && 'border-yellow-500 text-yellow-600', className)}
+      title="Video quality adapted to this viewer's connection"
+    >
+      <Gauge className="w-3 h-3 mr-1" />
+      {labels[tier]}
+    </Badge>
+  );
+};
+
+export default ViewerBitrateBadge;
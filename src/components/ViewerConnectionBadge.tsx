@@ -0,0 +1,41 @@
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+import { Loader2, ShieldCheck, Wifi, WifiOff } from 'lucide-react';
+import type { CallConnectionState } from '@/webrtc/presenterSession';
+
+interface ViewerConnectionBadgeProps {
+  state: CallConnectionState | undefined;
+  className?: string;
+}
+
+const labels: Record<CallConnectionState, string> = {
+  connecting: 'Connecting',
+  connected: 'Direct',
+  relayed: 'Relayed',
+  reconnecting: 'Reconnecting',
+  failed: 'Failed',
+};
+
+// Media connection state for one viewer in the presenter's viewer list
+const ViewerConnectionBadge = ({ state, className }: ViewerConnectionBadgeProps) => {
+  if (!state) return null;
+
+  const icon =
+    state === 'failed' ? <WifiOff className="w-3 h-3 mr-1" /> :
+    state === 'relayed' ? <ShieldCheck className="w-3 h-3 mr-1" /> :
+    state === 'connected' ? <Wifi className="w-3 h-3 mr-1" /> :
+    <Loader2 className="w-3 h-3 mr-1 animate-spin" />;
+
+  return (
+    <Badge
+      variant={state === 'failed' ? 'destructive' : 'outline'}
+      className={cn('text-xs', state === 'reconnecting' && 'border-yellow-500 text-yellow-600', className)}
+      title={state === 'relayed' ? 'Media is relayed through a TURN server' : undefined}
+    >
+      {icon}
+      {labels[state]}
+    </Badge>
+  );
+};
+
+export default ViewerConnectionBadge;
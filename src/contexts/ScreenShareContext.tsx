@@ -1,28 +1,38 @@
 import React, { createContext, useContext, useRef, useState, useCallback, useEffect } from 'react';
-import Peer, { DataConnection, MediaConnection } from 'peerjs';
 import { toast } from 'sonner';
-import { peerConfig } from '@/webrtc/peerConfig';
-
-// Data channel message types
-interface DataMessage {
-  type: 'meeting-ended' | 'viewer-muted' | 'viewer-unmuted';
-  viewerId?: string;
-}
+import { peerConfigStore } from '@/webrtc/peerConfig';
+import type { AudioGains } from '@/webrtc/audioMixer';
+import type { AudioLevelMonitor } from '@/webrtc/audioLevels';
+import type { AudioProcessing } from '@/webrtc/audioProcessing';
+import type { PipLayout } from '@/webrtc/compositor';
+import type { CropRegion } from '@/webrtc/regionCrop';
+import type { QualityPresetId, QualitySettings } from '@/webrtc/qualityPresets';
+import type { ViewerAudioMixer } from '@/webrtc/viewerAudioMixer';
+import {
+  AudioSourceKind,
+  BitrateTier,
+  CallConnectionState,
+  CameraMode,
+  PresenterSession,
+  PresenterStatus,
+  SharedSource,
+  VideoCodecPreference,
+  ViewerLeaveReason,
+} from '@/webrtc/presenterSession';
+import { usePresenterSnapshot } from '@/hooks/use-presenter-session';
+import { usePeerConfig } from '@/hooks/use-peer-config';
+import { useDevicePreferences } from '@/hooks/use-device-preferences';
+import { useViewerAudioMix } from '@/hooks/use-viewer-audio-mix';
 
 // Viewer activity event for join/leave notifications
 export interface ViewerActivity {
   type: 'join' | 'leave';
   viewerId: string;
   timestamp: number;
+  reason?: ViewerLeaveReason;
 }
 
-// Track viewer info including mute state
-interface ViewerInfo {
-  connection: DataConnection;
-  isMutedByPresenter: boolean;
-}
-
-export type PresenterStatus = 'idle' | 'connecting' | 'ready' | 'sharing' | 'error';
+export type { PresenterStatus };
 
 interface ScreenShareContextValue {
   // State
@@ -32,26 +42,75 @@ interface ScreenShareContextValue {
   viewerCount: number;
   error: string | null;
   isMicOn: boolean;
+  isPaused: boolean;
+  sources: SharedSource[];
+  captureStream: MediaStream | null;
+  cropRegion: CropRegion | null;
+  cropTargetId: string | null;
+  isCameraOn: boolean;
+  cameraMode: CameraMode;
+  pipLayout: PipLayout;
+  hasMicrophone: boolean;
+  shareSystemAudio: boolean;
+  hasSystemAudio: boolean;
+  audioGains: AudioGains;
+  micDeviceId: string | null;
+  audioProcessing: AudioProcessing;
+  roomAudioProcessing: AudioProcessing;
+  qualityPreset: QualityPresetId;
+  qualitySettings: QualitySettings;
+  videoCodec: VideoCodecPreference;
   recentActivity: ViewerActivity[];
   mutedViewers: Set<string>;
   hasViewerAudio: boolean;
+  // Mic levels of the presenter and viewers by peer ID; null before the room opens
+  audioLevels: AudioLevelMonitor | null;
+  activeSpeakerId: string | null;
+  // Local playback of viewer mics, with per-viewer volume, mute and solo
+  viewerAudio: ViewerAudioMixer | null;
   isViewerAudioEnabled: boolean;
   isSpeakerMuted: boolean;
+  // Viewers hear each other, not just the presenter
+  isGroupAudioOn: boolean;
   connectedViewerIds: string[];
+  viewerConnectionStates: Record<string, CallConnectionState>;
+  viewerBitrateTiers: Record<string, BitrateTier>;
+  viewerCodecs: Record<string, string>;
+  viewerRtts: Record<string, number>;
+  isRelayOnly: boolean;
   
   // Refs for UI elements
   videoRef: React.RefObject<HTMLVideoElement>;
-  viewerAudioContainerRef: React.RefObject<HTMLDivElement>;
   
   // Actions
   initializeRoom: (roomId: string) => void;
   startSharing: () => Promise<void>;
+  changeSource: () => Promise<void>;
+  addSource: () => Promise<void>;
+  removeSource: (id: string) => Promise<void>;
+  renameSource: (id: string, name: string) => void;
+  cropToElement: (targetId: string | null) => Promise<void>;
+  setCropRegion: (region: CropRegion | null) => Promise<void>;
+  pauseSharing: (durationMs: number | null) => Promise<void>;
+  resumeSharing: () => Promise<void>;
+  setCameraEnabled: (enabled: boolean) => Promise<void>;
+  setCameraMode: (mode: CameraMode) => Promise<void>;
+  setPipLayout: (layout: Partial<PipLayout>) => void;
+  changeMicrophone: (deviceId: string) => Promise<void>;
   stopSharing: () => void;
   endMeeting: () => void;
   toggleMic: () => void;
+  setRelayOnly: (enabled: boolean) => void;
+  setGroupAudio: (enabled: boolean) => void;
+  setShareSystemAudio: (enabled: boolean) => void;
+  setAudioGain: (kind: AudioSourceKind, gain: number) => void;
+  setAudioProcessing: (processing: Partial<AudioProcessing>) => void;
+  setRoomAudioProcessing: (processing: Partial<AudioProcessing>) => void;
+  setQuality: (preset: QualityPresetId, overrides?: Partial<QualitySettings>) => void;
+  setVideoCodec: (codec: VideoCodecPreference) => void;
   muteViewer: (viewerId: string) => void;
   unmuteViewer: (viewerId: string) => void;
-  enableViewerAudio: () => void;
+  enableViewerAudio: () => Promise<void>;
   toggleSpeakerMute: () => void;
   copyViewerLink: () => void;
   toggleFullscreen: () => void;
@@ -74,47 +133,47 @@ interface ScreenShareProviderProps {
 
 export const ScreenShareProvider: React.FC<ScreenShareProviderProps> = ({ children }) => {
   // State
-  const [roomId, setRoomId] = useState<string | null>(null);
-  const [status, setStatus] = useState<PresenterStatus>('idle');
-  const [isSharing, setIsSharing] = useState(false);
-  const [viewerCount, setViewerCount] = useState(0);
-  const [error, setError] = useState<string | null>(null);
-  const [isMicOn, setIsMicOn] = useState(true);
+  const [session, setSession] = useState<PresenterSession | null>(null);
   const [recentActivity, setRecentActivity] = useState<ViewerActivity[]>([]);
-  const [mutedViewers, setMutedViewers] = useState<Set<string>>(new Set());
-  const [hasViewerAudio, setHasViewerAudio] = useState(false);
-  const [isViewerAudioEnabled, setIsViewerAudioEnabled] = useState(false);
-  const [isSpeakerMuted, setIsSpeakerMuted] = useState(false);
-  const [connectedViewerIds, setConnectedViewerIds] = useState<string[]>([]);
+
+  const snapshot = usePresenterSnapshot(session);
+  const { roomId, status, error, isMicOn, mutedViewers, stream, viewerConnectionStates, viewerRtts, isRelayOnly } = snapshot;
+  const { viewerBitrateTiers, viewerCodecs, shareSystemAudio, hasSystemAudio, audioGains } = snapshot;
+  const { qualityPreset, qualitySettings, videoCodec, micDeviceId, isPaused, sources, isCameraOn, cameraMode, pipLayout } =
+    snapshot;
+  const { captureStream, cropRegion, cropTargetId, audioProcessing, roomAudioProcessing, activeSpeakerId } = snapshot;
+  const { isGroupAudioOn } = snapshot;
+  const { speakerDeviceId } = useDevicePreferences();
+  // The mic is captured together with the screen
+  const hasMicrophone = session?.hasMicrophone() ?? false;
+  const isSharing = status === 'sharing';
+  const connectedViewerIds = snapshot.viewerIds;
+  const viewerCount = connectedViewerIds.length;
+  const hasViewerAudio = snapshot.viewerAudioIds.length > 0;
+  const viewerAudio = session?.viewerAudio ?? null;
+  const { isEnabled: isViewerAudioEnabled, isMuted: isSpeakerMuted } = useViewerAudioMix(viewerAudio);
 
   // Refs
-  const peerRef = useRef<Peer | null>(null);
-  const streamRef = useRef<MediaStream | null>(null);
+  const sessionRef = useRef<PresenterSession | null>(null);
   const videoRef = useRef<HTMLVideoElement>(null);
-  const audioTrackRef = useRef<MediaStreamTrack | null>(null);
-  const viewerAudioContainerRef = useRef<HTMLDivElement>(null);
-  const viewerConnections = useRef<Map<string, ViewerInfo>>(new Map());
-  const viewerMediaCalls = useRef<Map<string, MediaConnection>>(new Map());
-  const viewerAudioElements = useRef<Map<string, HTMLAudioElement>>(new Map());
-  const currentRoomIdRef = useRef<string | null>(null);
-
-  // Helper to update connected viewer IDs state
-  const updateConnectedViewerIds = useCallback(() => {
-    setConnectedViewerIds(Array.from(viewerConnections.current.keys()));
-  }, []);
 
   // Add viewer activity notification
-  const addViewerActivity = useCallback((type: 'join' | 'leave', viewerId: string) => {
+  const addViewerActivity = useCallback((type: 'join' | 'leave', viewerId: string, reason?: ViewerLeaveReason) => {
     const activity: ViewerActivity = {
       type,
       viewerId: viewerId.split('-').pop() || viewerId,
       timestamp: Date.now(),
+      reason,
     };
     
     setRecentActivity(prev => [...prev.slice(-4), activity]);
 
     if (type === 'join') {
       toast.success(`Viewer joined`);
+    } else if (reason === 'timeout') {
+      toast.warning(`Viewer timed out`);
+    } else if (reason === 'refused') {
+      toast.warning(`Viewer refused: no relay connection available`);
     } else {
       toast.info(`Viewer left`);
     }
@@ -124,258 +183,208 @@ export const ScreenShareProvider: React.FC<ScreenShareProviderProps> = ({ childr
     }, 5000);
   }, []);
 
-  // Send data message to specific viewer
-  const sendToViewer = useCallback((viewerId: string, message: DataMessage) => {
-    const viewerInfo = viewerConnections.current.get(viewerId);
-    if (viewerInfo?.connection.open) {
-      viewerInfo.connection.send(message);
+  // Wire session events to notifications
+  useEffect(() => {
+    if (!session) return;
+
+    const unsubscribers = [
+      session.on('viewer-joined', (viewerId) => addViewerActivity('join', viewerId)),
+      session.on('viewer-left', (viewerId, reason) => addViewerActivity('leave', viewerId, reason)),
+      session.on('viewer-audio-started', () => toast.success('Viewer microphone connected')),
+      session.on('mic-unavailable', () => {
+        toast.warning('Microphone not available - sharing screen only');
+      }),
+      session.on('noise-gate-unavailable', () => {
+        toast.warning('Noise gate is not available in this browser');
+      }),
+      session.on('camera-unavailable', () => {
+        toast.warning('Camera not available');
+      }),
+      session.on('session-resumed', () => {
+        toast.info('Session restored - start sharing again to resume the stream');
+      }),
+    ];
+
+    return () => {
+      unsubscribers.forEach(unsubscribe => unsubscribe());
+    };
+  }, [session, addViewerActivity]);
+
+  // Keep ICE servers current as TURN credentials are refreshed
+  const { iceServers } = usePeerConfig();
+  useEffect(() => {
+    session?.setIceServers(iceServers);
+  }, [session, iceServers]);
+
+  // Viewer microphones follow the chosen speaker
+  useEffect(() => {
+    viewerAudio?.setSpeaker(speakerDeviceId);
+  }, [viewerAudio, speakerDeviceId]);
+
+  // Show preview using the same stream viewers will receive (muted to prevent echo)
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    video.srcObject = stream;
+    if (stream) {
+      video.play().catch(err => {
+        console.error('Error playing preview:', err);
+      });
     }
-  }, []);
+  }, [stream]);
 
-  // Send data message to all viewers
-  const broadcastToViewers = useCallback((message: DataMessage) => {
-    viewerConnections.current.forEach((viewerInfo) => {
-      if (viewerInfo.connection.open) {
-        viewerInfo.connection.send(message);
-      }
-    });
+  // Destroy the session when the provider unmounts
+  useEffect(() => {
+    return () => {
+      sessionRef.current?.destroy();
+      sessionRef.current = null;
+    };
   }, []);
 
   // Mute a specific viewer
   const muteViewer = useCallback((viewerId: string) => {
-    sendToViewer(viewerId, { type: 'viewer-muted', viewerId });
-    const viewerInfo = viewerConnections.current.get(viewerId);
-    if (viewerInfo) {
-      viewerInfo.isMutedByPresenter = true;
-    }
-    setMutedViewers(prev => new Set([...prev, viewerId]));
+    sessionRef.current?.muteViewer(viewerId);
     toast.success('Viewer muted');
-  }, [sendToViewer]);
+  }, []);
 
   // Unmute a specific viewer
   const unmuteViewer = useCallback((viewerId: string) => {
-    sendToViewer(viewerId, { type: 'viewer-unmuted', viewerId });
-    const viewerInfo = viewerConnections.current.get(viewerId);
-    if (viewerInfo) {
-      viewerInfo.isMutedByPresenter = false;
-    }
-    setMutedViewers(prev => {
-      const next = new Set(prev);
-      next.delete(viewerId);
-      return next;
-    });
+    sessionRef.current?.unmuteViewer(viewerId);
     toast.success('Viewer unmuted');
-  }, [sendToViewer]);
-
-  // Call a viewer with the stream
-  const callViewer = useCallback((viewerId: string, stream: MediaStream) => {
-    const peer = peerRef.current;
-    if (!peer) return;
-
-    console.log('Calling viewer with stream:', viewerId);
-    const call = peer.call(viewerId, stream);
-    viewerMediaCalls.current.set(viewerId, call);
-
-    call.on('close', () => {
-      console.log('Media call closed:', viewerId);
-      viewerMediaCalls.current.delete(viewerId);
-    });
-
-    call.on('error', (err) => {
-      console.error('Media call error:', err);
-      viewerMediaCalls.current.delete(viewerId);
-    });
-  }, []);
-
-  // Clean up viewer audio element
-  const cleanupViewerAudio = useCallback((viewerId: string) => {
-    const audioEl = viewerAudioElements.current.get(viewerId);
-    if (audioEl) {
-      audioEl.srcObject = null;
-      audioEl.remove();
-      viewerAudioElements.current.delete(viewerId);
-      if (viewerAudioElements.current.size === 0) {
-        setHasViewerAudio(false);
-      }
-    }
-  }, []);
-
-  // Reset all state (used when ending meeting)
-  const resetAllState = useCallback(() => {
-    setIsSharing(false);
-    setViewerCount(0);
-    setMutedViewers(new Set());
-    setIsViewerAudioEnabled(false);
-    setIsSpeakerMuted(false);
-    setHasViewerAudio(false);
-    setConnectedViewerIds([]);
   }, []);
 
   // End meeting and clean up
   const endMeeting = useCallback(() => {
-    // Notify all viewers
-    broadcastToViewers({ type: 'meeting-ended' });
-
-    // Stop all tracks
-    if (streamRef.current) {
-      streamRef.current.getTracks().forEach(track => track.stop());
-      streamRef.current = null;
-    }
-    audioTrackRef.current = null;
-
-    // Close all media calls
-    viewerMediaCalls.current.forEach((call) => {
-      call.close();
-    });
-    viewerMediaCalls.current.clear();
-
-    // Close all data connections
-    viewerConnections.current.forEach((viewerInfo) => {
-      viewerInfo.connection.close();
-    });
-    viewerConnections.current.clear();
-
-    // Clear viewer audio elements
-    viewerAudioElements.current.forEach((audio) => {
-      audio.srcObject = null;
-      audio.remove();
-    });
-    viewerAudioElements.current.clear();
-
-    // Clear video preview
-    if (videoRef.current) {
-      videoRef.current.srcObject = null;
-    }
-
-    resetAllState();
-    setStatus('ready');
-    
+    sessionRef.current?.endMeeting();
     toast.success('Meeting ended');
-  }, [broadcastToViewers, resetAllState]);
+  }, []);
 
   // Stop sharing without ending the session
   const stopSharing = useCallback(() => {
-    // Stop all tracks
-    if (streamRef.current) {
-      streamRef.current.getTracks().forEach(track => track.stop());
-      streamRef.current = null;
-    }
-    audioTrackRef.current = null;
+    sessionRef.current?.stopSharing();
+  }, []);
+
+  // Start screen sharing
+  const startSharing = useCallback(async () => {
+    await sessionRef.current?.startSharing();
+  }, []);
 
-    // Close all media calls
-    viewerMediaCalls.current.forEach((call) => {
-      call.close();
-    });
-    viewerMediaCalls.current.clear();
+  // Pick a different window or screen without dropping viewers
+  const changeSource = useCallback(async () => {
+    await sessionRef.current?.changeSource();
+  }, []);
 
-    // Clear video preview
-    if (videoRef.current) {
-      videoRef.current.srcObject = null;
-    }
+  const addSource = useCallback(async () => {
+    await sessionRef.current?.addSource();
+  }, []);
+
+  const removeSource = useCallback(async (id: string) => {
+    await sessionRef.current?.removeSource(id);
+  }, []);
+
+  const renameSource = useCallback((id: string, name: string) => {
+    sessionRef.current?.renameSource(id, name);
+  }, []);
 
-    setIsSharing(false);
-    if (status !== 'error') {
-      setStatus('ready');
+  const cropToElement = useCallback(async (targetId: string | null) => {
+    if (!(await sessionRef.current?.cropToElement(targetId))) {
+      toast.error('Element cropping only works when sharing this tab - select a region instead');
     }
-    console.log('Screen sharing stopped');
-  }, [status]);
+  }, []);
 
-  // Start screen sharing
-  const startSharing = useCallback(async () => {
-    try {
-      // Request screen share (video only)
-      const displayStream = await navigator.mediaDevices.getDisplayMedia({
-        video: {
-          cursor: 'always'
-        } as MediaTrackConstraints,
-        audio: false,
-      });
+  const setCropRegion = useCallback(async (region: CropRegion | null) => {
+    await sessionRef.current?.setCropRegion(region);
+  }, []);
 
-      // Extract the video track
-      const videoTrack = displayStream.getVideoTracks()[0];
-      if (!videoTrack) {
-        throw new Error('No video track available');
-      }
-
-      // Request microphone audio
-      let audioTrack: MediaStreamTrack | null = null;
-      try {
-        const audioStream = await navigator.mediaDevices.getUserMedia({ audio: true });
-        audioTrack = audioStream.getAudioTracks()[0];
-        audioTrackRef.current = audioTrack;
-        audioTrack.enabled = isMicOn;
-        console.log('Microphone captured successfully');
-      } catch (audioErr) {
-        console.warn('Microphone access denied or unavailable:', audioErr);
-        toast.warning('Microphone not available - sharing screen only');
-      }
-
-      // Create combined stream with video + audio (if available)
-      const tracks = audioTrack ? [videoTrack, audioTrack] : [videoTrack];
-      const outboundStream = new MediaStream(tracks);
-      streamRef.current = outboundStream;
-
-      setIsSharing(true);
-      setStatus('sharing');
-
-      // Show preview using the same stream viewers will receive (muted to prevent echo)
-      if (videoRef.current) {
-        videoRef.current.srcObject = outboundStream;
-        videoRef.current.play().catch(err => {
-          console.error('Error playing preview:', err);
-        });
-      }
-
-      // Handle stream end (user clicks "Stop sharing" in browser UI)
-      videoTrack.onended = () => {
-        stopSharing();
-      };
-
-      // Call all currently connected viewers
-      console.log('Calling all connected viewers:', viewerConnections.current.size);
-      viewerConnections.current.forEach((_, viewerId) => {
-        callViewer(viewerId, outboundStream);
-      });
+  const pauseSharing = useCallback(async (durationMs: number | null) => {
+    await sessionRef.current?.pauseSharing(durationMs);
+  }, []);
+
+  const resumeSharing = useCallback(async () => {
+    await sessionRef.current?.resumeSharing();
+  }, []);
+
+  const setCameraEnabled = useCallback(async (enabled: boolean) => {
+    await sessionRef.current?.setCameraEnabled(enabled);
+  }, []);
+
+  const setCameraMode = useCallback(async (mode: CameraMode) => {
+    await sessionRef.current?.setCameraMode(mode);
+  }, []);
+
+  const setPipLayout = useCallback((layout: Partial<PipLayout>) => {
+    sessionRef.current?.setPipLayout(layout);
+  }, []);
 
-      console.log('Screen sharing started with', audioTrack ? 'audio' : 'video only');
-    } catch (err) {
-      console.error('Error starting screen share:', err);
-      setError('Failed to start screen sharing. Please allow screen access.');
+  const changeMicrophone = useCallback(async (deviceId: string) => {
+    if (await sessionRef.current?.changeMicrophone(deviceId)) {
+      toast.success('Microphone switched');
     }
-  }, [callViewer, isMicOn, stopSharing]);
+  }, []);
 
   // Toggle microphone on/off
   const toggleMic = useCallback(() => {
-    if (audioTrackRef.current) {
-      const newState = !isMicOn;
-      audioTrackRef.current.enabled = newState;
-      setIsMicOn(newState);
-      toast.success(newState ? 'Microphone unmuted' : 'Microphone muted');
+    const currentSession = sessionRef.current;
+    if (currentSession?.hasMicrophone()) {
+      currentSession.toggleMic();
+      toast.success(currentSession.getSnapshot().isMicOn ? 'Microphone unmuted' : 'Microphone muted');
+    }
+  }, []);
+
+  // Switch relay-only privacy mode
+  const setRelayOnly = useCallback((enabled: boolean) => {
+    if (sessionRef.current?.setRelayOnly(enabled)) {
+      toast.success(enabled ? 'Relay-only mode on' : 'Relay-only mode off');
     }
-  }, [isMicOn]);
+  }, []);
+
+  const setGroupAudio = useCallback((enabled: boolean) => {
+    const currentSession = sessionRef.current;
+    if (!currentSession || currentSession.getSnapshot().isGroupAudioOn === enabled) return;
+    currentSession.setGroupAudio(enabled);
+    toast.success(enabled ? 'Viewers can now hear each other' : 'Viewers now only hear you');
+  }, []);
+
+  const setShareSystemAudio = useCallback((enabled: boolean) => {
+    sessionRef.current?.setShareSystemAudio(enabled);
+  }, []);
+
+  const setAudioGain = useCallback((kind: AudioSourceKind, gain: number) => {
+    sessionRef.current?.setAudioGain(kind, gain);
+  }, []);
+
+  const setAudioProcessing = useCallback((processing: Partial<AudioProcessing>) => {
+    sessionRef.current?.setAudioProcessing(processing);
+  }, []);
+
+  const setRoomAudioProcessing = useCallback((processing: Partial<AudioProcessing>) => {
+    sessionRef.current?.setRoomAudioProcessing(processing);
+  }, []);
+
+  const setQuality = useCallback((preset: QualityPresetId, overrides?: Partial<QualitySettings>) => {
+    sessionRef.current?.setQuality(preset, overrides);
+  }, []);
+
+  const setVideoCodec = useCallback((codec: VideoCodecPreference) => {
+    sessionRef.current?.setVideoCodec(codec);
+  }, []);
 
   // Enable viewer audio playback (user interaction required)
-  const enableViewerAudio = useCallback(() => {
-    viewerAudioElements.current.forEach((audio) => {
-      audio.muted = false;
-      audio.play().catch(err => {
-        console.error('Error playing viewer audio:', err);
-      });
-    });
-    setIsViewerAudioEnabled(true);
-    setIsSpeakerMuted(false);
-    toast.success('Viewer audio enabled');
+  const enableViewerAudio = useCallback(async () => {
+    if (await sessionRef.current?.viewerAudio.enable()) {
+      toast.success('Viewer audio enabled');
+    }
   }, []);
 
   // Toggle speaker mute for viewer audio
   const toggleSpeakerMute = useCallback(() => {
-    const newMuted = !isSpeakerMuted;
-    viewerAudioElements.current.forEach((audio) => {
-      audio.muted = newMuted;
-    });
-    setIsSpeakerMuted(newMuted);
+    const mixer = sessionRef.current?.viewerAudio;
+    if (!mixer) return;
+    const newMuted = !mixer.getSnapshot().isMuted;
+    mixer.setMuted(newMuted);
     toast.success(newMuted ? 'Speaker muted' : 'Speaker unmuted');
-  }, [isSpeakerMuted]);
+  }, []);
 
   // Toggle fullscreen for presenter preview
   const toggleFullscreen = useCallback(() => {
@@ -401,170 +410,27 @@ export const ScreenShareProvider: React.FC<ScreenShareProviderProps> = ({ childr
 
   // Check if viewer has audio element
   const hasViewerAudioElement = useCallback((viewerId: string) => {
-    return viewerAudioElements.current.has(viewerId);
-  }, []);
+    return snapshot.viewerAudioIds.includes(viewerId);
+  }, [snapshot.viewerAudioIds]);
 
   // Initialize room and PeerJS connection
   const initializeRoom = useCallback((newRoomId: string) => {
     // If already initialized with same room, do nothing
-    if (currentRoomIdRef.current === newRoomId && peerRef.current) {
+    if (sessionRef.current?.roomId === newRoomId) {
       console.log('Room already initialized:', newRoomId);
       return;
     }
 
-    // Clean up existing peer if different room
-    if (peerRef.current && currentRoomIdRef.current !== newRoomId) {
-      endMeeting();
-      peerRef.current.destroy();
-      peerRef.current = null;
-    }
-
-    setRoomId(newRoomId);
-    currentRoomIdRef.current = newRoomId;
-    setStatus('connecting');
-    setError(null);
-
-    const presenterId = `presenter-${newRoomId}`;
-    const peer = new Peer(presenterId, {
-      debug: 2,
-      ...peerConfig,
-    });
-
-    peer.on('open', (id) => {
-      console.log('Presenter connected with ID:', id);
-      setStatus('ready');
-    });
-
-    peer.on('error', (err) => {
-      console.error('Peer error:', err);
-      setError(err.message);
-      setStatus('error');
-    });
-
-    peer.on('disconnected', () => {
-      console.log('Peer disconnected, attempting reconnect...');
-      peer.reconnect();
-    });
-
-    peerRef.current = peer;
-  }, [endMeeting]);
-
-  // Handle incoming viewer data connections
-  useEffect(() => {
-    const peer = peerRef.current;
-    if (!peer) return;
-
-    const handleDataConnection = (conn: DataConnection) => {
-      console.log('Viewer data connection from:', conn.peer);
-
-      conn.on('open', () => {
-        console.log('Viewer data connection open:', conn.peer);
-
-        viewerConnections.current.set(conn.peer, {
-          connection: conn,
-          isMutedByPresenter: false,
-        });
-        setViewerCount(viewerConnections.current.size);
-        updateConnectedViewerIds();
-        addViewerActivity('join', conn.peer);
-
-        // If we're already sharing, immediately call this viewer with the stream
-        if (streamRef.current && isSharing) {
-          console.log('Sharing already active, calling new viewer:', conn.peer);
-          callViewer(conn.peer, streamRef.current);
-        }
-      });
-
-      conn.on('close', () => {
-        console.log('Viewer data connection closed:', conn.peer);
-        viewerConnections.current.delete(conn.peer);
-        viewerMediaCalls.current.delete(conn.peer);
-        cleanupViewerAudio(conn.peer);
-        setMutedViewers(prev => {
-          const next = new Set(prev);
-          next.delete(conn.peer);
-          return next;
-        });
-        setViewerCount(viewerConnections.current.size);
-        updateConnectedViewerIds();
-        addViewerActivity('leave', conn.peer);
-      });
-
-      conn.on('error', (err) => {
-        console.error('Viewer data connection error:', err);
-        viewerConnections.current.delete(conn.peer);
-        viewerMediaCalls.current.delete(conn.peer);
-        cleanupViewerAudio(conn.peer);
-        setMutedViewers(prev => {
-          const next = new Set(prev);
-          next.delete(conn.peer);
-          return next;
-        });
-        setViewerCount(viewerConnections.current.size);
-        updateConnectedViewerIds();
-      });
-    };
-
-    peer.on('connection', handleDataConnection);
-
-    return () => {
-      peer.off('connection', handleDataConnection);
-    };
-  }, [isSharing, addViewerActivity, callViewer, cleanupViewerAudio, updateConnectedViewerIds]);
-
-  // Handle incoming calls from viewers (for two-way audio)
-  useEffect(() => {
-    const peer = peerRef.current;
-    if (!peer) return;
-
-    const handleCall = (call: MediaConnection) => {
-      console.log('Receiving call from viewer:', call.peer);
-      
-      call.answer();
-
-      call.on('stream', (remoteStream) => {
-        console.log('Received audio stream from viewer:', call.peer, 'tracks:', remoteStream.getTracks().map(t => t.kind));
-        
-        const audioTracks = remoteStream.getAudioTracks();
-        if (audioTracks.length === 0) {
-          console.log('No audio tracks in viewer stream');
-          return;
-        }
-        
-        let audioEl = viewerAudioElements.current.get(call.peer);
-        if (!audioEl) {
-          audioEl = document.createElement('audio');
-          viewerAudioContainerRef.current?.appendChild(audioEl);
-          viewerAudioElements.current.set(call.peer, audioEl);
-        }
-        
-        audioEl.srcObject = remoteStream;
-        audioEl.muted = isSpeakerMuted;
-        audioEl.autoplay = true;
-        
-        audioEl.play().then(() => {
-          console.log('Viewer audio playing successfully');
-        }).catch(err => {
-          console.log('Viewer audio autoplay blocked:', err);
-        });
-        
-        setHasViewerAudio(true);
-        setIsViewerAudioEnabled(true);
-        toast.success('Viewer microphone connected');
-      });
-
-      call.on('close', () => {
-        console.log('Viewer audio call closed:', call.peer);
-        cleanupViewerAudio(call.peer);
-      });
-    };
-
-    peer.on('call', handleCall);
+    // Clean up existing session if different room
+    sessionRef.current?.destroy();
 
-    return () => {
-      peer.off('call', handleCall);
-    };
-  }, [isSpeakerMuted, cleanupViewerAudio]);
+    // Pages only initialize a room once the connection config has loaded
+    const peerOptions = peerConfigStore.getSnapshot().peerOptions ?? undefined;
+    const nextSession = new PresenterSession({ roomId: newRoomId, peerOptions });
+    sessionRef.current = nextSession;
+    setSession(nextSession);
+    nextSession.start();
+  }, []);
 
   const value: ScreenShareContextValue = {
     roomId,
@@ -573,19 +439,65 @@ export const ScreenShareProvider: React.FC<ScreenShareProviderProps> = ({ childr
     viewerCount,
     error,
     isMicOn,
+    isPaused,
+    sources,
+    captureStream,
+    cropRegion,
+    cropTargetId,
+    isCameraOn,
+    cameraMode,
+    pipLayout,
+    hasMicrophone,
+    shareSystemAudio,
+    hasSystemAudio,
+    audioGains,
+    micDeviceId,
+    audioProcessing,
+    roomAudioProcessing,
+    qualityPreset,
+    qualitySettings,
+    videoCodec,
     recentActivity,
     mutedViewers,
     hasViewerAudio,
+    audioLevels: session?.audioLevels ?? null,
+    activeSpeakerId,
+    viewerAudio,
     isViewerAudioEnabled,
     isSpeakerMuted,
+    isGroupAudioOn,
     connectedViewerIds,
+    viewerConnectionStates,
+    viewerBitrateTiers,
+    viewerCodecs,
+    viewerRtts,
+    isRelayOnly,
     videoRef,
-    viewerAudioContainerRef,
     initializeRoom,
     startSharing,
+    changeSource,
+    addSource,
+    removeSource,
+    renameSource,
+    cropToElement,
+    setCropRegion,
+    pauseSharing,
+    resumeSharing,
+    setCameraEnabled,
+    setCameraMode,
+    setPipLayout,
+    changeMicrophone,
     stopSharing,
     endMeeting,
     toggleMic,
+    setRelayOnly,
+    setGroupAudio,
+    setShareSystemAudio,
+    setAudioGain,
+    setAudioProcessing,
+    setRoomAudioProcessing,
+    setQuality,
+    setVideoCodec,
     muteViewer,
     unmuteViewer,
     enableViewerAudio,
@@ -597,8 +509,6 @@ export const ScreenShareProvider: React.FC<ScreenShareProviderProps> = ({ childr
 
   return (
     <ScreenShareContext.Provider value={value}>
-      {/* Persistent audio container for viewer streams */}
-      <div ref={viewerAudioContainerRef} className="sr-only" aria-hidden="true" />
       {children}
     </ScreenShareContext.Provider>
   );
@@ -0,0 +1,15 @@
+import { useCallback, useSyncExternalStore } from 'react';
+import type { AudioLevelMonitor } from '@/webrtc/audioLevels';
+
+const noopUnsubscribe = () => {};
+
+// Current level (0-1) of one metered ID; re-renders only when it changes
+export function useAudioLevel(monitor: AudioLevelMonitor | null, id: string): number {
+  const subscribe = useCallback(
+    (listener: () => void) => (monitor ? monitor.subscribe(listener) : noopUnsubscribe),
+    [monitor]
+  );
+  const getSnapshot = useCallback(() => monitor?.getSnapshot()[id] ?? 0, [monitor, id]);
+
+  return useSyncExternalStore(subscribe, getSnapshot);
+}
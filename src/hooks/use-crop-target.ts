@@ -0,0 +1,16 @@
+import { useCallback, useRef } from 'react';
+import { cropTargetStore } from '@/webrtc/regionCrop';
+
+// Offer an element as a crop target for sharing this tab. Attach the
+// returned ref; the element is listed while it is mounted.
+export function useCropTarget(id: string, name: string) {
+  const unregisterRef = useRef<(() => void) | null>(null);
+
+  return useCallback(
+    (element: Element | null) => {
+      unregisterRef.current?.();
+      unregisterRef.current = element ? cropTargetStore.register(id, name, element) : null;
+    },
+    [id, name]
+  );
+}
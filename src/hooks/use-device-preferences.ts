@@ -0,0 +1,7 @@
+import { useSyncExternalStore } from 'react';
+import { DevicePreferences, devicePreferencesStore } from '@/webrtc/devicePreferences';
+
+// Remembered microphone and speaker for this browser
+export function useDevicePreferences(): DevicePreferences {
+  return useSyncExternalStore(devicePreferencesStore.subscribe, devicePreferencesStore.getSnapshot);
+}
@@ -0,0 +1,32 @@
+import { useEffect, useState } from 'react';
+
+// Devices of one kind, kept current as devices are plugged in or removed.
+// Labels are empty until the user has granted media permission, so pass
+// something that changes once it has (e.g. the active device ID).
+export function useMediaDevices(kind: MediaDeviceKind, refreshKey?: unknown): MediaDeviceInfo[] {
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+
+  useEffect(() => {
+    const mediaDevices = navigator.mediaDevices;
+    if (!mediaDevices?.enumerateDevices) return;
+
+    let cancelled = false;
+    const refresh = () => {
+      mediaDevices
+        .enumerateDevices()
+        .then((all) => {
+          if (!cancelled) setDevices(all.filter((device) => device.kind === kind && device.deviceId));
+        })
+        .catch((err) => console.warn('Could not list media devices:', err));
+    };
+
+    refresh();
+    mediaDevices.addEventListener('devicechange', refresh);
+    return () => {
+      cancelled = true;
+      mediaDevices.removeEventListener('devicechange', refresh);
+    };
+  }, [kind, refreshKey]);
+
+  return devices;
+}
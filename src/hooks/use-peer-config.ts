@@ -0,0 +1,13 @@
+import { useEffect, useSyncExternalStore } from 'react';
+import { PeerConfigSnapshot, peerConfigStore } from '@/webrtc/peerConfig';
+
+// Current PeerJS/ICE configuration. peerOptions is null until it has loaded.
+export function usePeerConfig(): PeerConfigSnapshot {
+  const snapshot = useSyncExternalStore(peerConfigStore.subscribe, peerConfigStore.getSnapshot);
+
+  useEffect(() => {
+    peerConfigStore.load();
+  }, []);
+
+  return snapshot;
+}
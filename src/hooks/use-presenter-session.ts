@@ -0,0 +1,45 @@
+import { useCallback, useEffect, useState, useSyncExternalStore } from 'react';
+import type { PeerOptions } from 'peerjs';
+import { idlePresenterSnapshot, PresenterSession, PresenterSnapshot } from '@/webrtc/presenterSession';
+import { usePeerConfig } from '@/hooks/use-peer-config';
+
+const noopUnsubscribe = () => {};
+
+// Subscribe to a session's snapshot. Returns the idle snapshot while no session exists.
+export function usePresenterSnapshot(session: PresenterSession | null): PresenterSnapshot {
+  const subscribe = useCallback(
+    (listener: () => void) => (session ? session.subscribe(listener) : noopUnsubscribe),
+    [session]
+  );
+  const getSnapshot = useCallback(() => (session ? session.getSnapshot() : idlePresenterSnapshot), [session]);
+
+  return useSyncExternalStore(subscribe, getSnapshot);
+}
+
+// Own a PresenterSession for the lifetime of the component
+export function usePresenterSession(roomId: string, peerOptions?: PeerOptions) {
+  const [session, setSession] = useState<PresenterSession | null>(null);
+
+  useEffect(() => {
+    if (!roomId) return;
+
+    const nextSession = new PresenterSession({ roomId, peerOptions });
+    nextSession.start();
+    setSession(nextSession);
+
+    return () => {
+      nextSession.destroy();
+      setSession(null);
+    };
+  }, [roomId, peerOptions]);
+
+  // Keep ICE servers current as TURN credentials are refreshed
+  const { iceServers } = usePeerConfig();
+  useEffect(() => {
+    session?.setIceServers(iceServers);
+  }, [session, iceServers]);
+
+  const snapshot = usePresenterSnapshot(session);
+
+  return { session, snapshot };
+}
@@ -0,0 +1,62 @@
+// @vitest-environment jsdom
+import { useRef } from 'react';
+import { cleanup, render } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { useSpeakerOutput } from '@/hooks/use-speaker-output';
+
+// Stands in for a viewer screen that unmounts its video while it has left the room
+const Player = ({ isMounted, speakerDeviceId }: { isMounted: boolean; speakerDeviceId: string | null }) => {
+  const videoRef = useRef<HTMLVideoElement | null>(null);
+  const speakerRef = useSpeakerOutput(videoRef, speakerDeviceId);
+  return isMounted ? <video ref={speakerRef} data-testid="video" /> : <p>Left the meeting</p>;
+};
+
+describe('useSpeakerOutput', () => {
+  const setSinkId = vi.fn(() => Promise.resolve());
+
+  beforeEach(() => {
+    setSinkId.mockClear();
+    Object.defineProperty(HTMLMediaElement.prototype, 'setSinkId', { value: setSinkId, configurable: true });
+  });
+
+  afterEach(() => {
+    cleanup();
+    delete (HTMLMediaElement.prototype as { setSinkId?: unknown }).setSinkId;
+  });
+
+  it('routes the element to the chosen speaker', () => {
+    const { getByTestId } = render(<Player isMounted speakerDeviceId="usb-speaker" />);
+
+    expect(setSinkId).toHaveBeenCalledWith('usb-speaker');
+    expect(setSinkId.mock.contexts).toContain(getByTestId('video'));
+  });
+
+  it('follows a speaker change', () => {
+    const { rerender } = render(<Player isMounted speakerDeviceId="usb-speaker" />);
+    setSinkId.mockClear();
+
+    rerender(<Player isMounted speakerDeviceId="headset" />);
+
+    expect(setSinkId).toHaveBeenCalledWith('headset');
+  });
+
+  it('keeps the speaker after leaving and rejoining', () => {
+    const { getByTestId, rerender } = render(<Player isMounted speakerDeviceId="usb-speaker" />);
+    const before = getByTestId('video');
+
+    rerender(<Player isMounted={false} speakerDeviceId="usb-speaker" />);
+    setSinkId.mockClear();
+    rerender(<Player isMounted speakerDeviceId="usb-speaker" />);
+
+    const after = getByTestId('video');
+    expect(after).not.toBe(before);
+    expect(setSinkId).toHaveBeenCalledWith('usb-speaker');
+    expect(setSinkId.mock.contexts).toContain(after);
+  });
+
+  it('uses the system default when no speaker is chosen', () => {
+    render(<Player isMounted speakerDeviceId={null} />);
+
+    expect(setSinkId).toHaveBeenCalledWith('');
+  });
+});
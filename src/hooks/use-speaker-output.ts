@@ -0,0 +1,27 @@
+import { MutableRefObject, useCallback, useEffect, useRef } from 'react';
+import { applySpeaker } from '@/webrtc/devicePreferences';
+
+// Keep a media element on the chosen speaker. Attach the returned ref in
+// place of `elementRef`; an element that mounts again (e.g. after leaving
+// and rejoining) gets the speaker too.
+export function useSpeakerOutput<T extends HTMLMediaElement>(
+  elementRef: MutableRefObject<T | null>,
+  speakerDeviceId: string | null
+) {
+  const speakerRef = useRef(speakerDeviceId);
+
+  useEffect(() => {
+    speakerRef.current = speakerDeviceId;
+    if (elementRef.current) {
+      applySpeaker(elementRef.current, speakerDeviceId);
+    }
+  }, [elementRef, speakerDeviceId]);
+
+  return useCallback(
+    (element: T | null) => {
+      elementRef.current = element;
+      if (element) applySpeaker(element, speakerRef.current);
+    },
+    [elementRef]
+  );
+}
@@ -0,0 +1,15 @@
+import { useCallback, useSyncExternalStore } from 'react';
+import { idleViewerAudioMixState, ViewerAudioMixer, ViewerAudioMixState } from '@/webrtc/viewerAudioMixer';
+
+const noopUnsubscribe = () => {};
+
+// Playback state of the presenter's viewer audio mix
+export function useViewerAudioMix(mixer: ViewerAudioMixer | null): ViewerAudioMixState {
+  const subscribe = useCallback(
+    (listener: () => void) => (mixer ? mixer.subscribe(listener) : noopUnsubscribe),
+    [mixer]
+  );
+  const getSnapshot = useCallback(() => (mixer ? mixer.getSnapshot() : idleViewerAudioMixState), [mixer]);
+
+  return useSyncExternalStore(subscribe, getSnapshot);
+}
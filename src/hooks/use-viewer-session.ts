@@ -0,0 +1,105 @@
+import { useCallback, useEffect, useState, useSyncExternalStore } from 'react';
+import type { PeerOptions } from 'peerjs';
+import type { AudioProcessing } from '@/webrtc/audioProcessing';
+import { initialViewerSnapshot, ViewerSession, ViewerSnapshot } from '@/webrtc/viewerSession';
+import { usePeerConfig } from '@/hooks/use-peer-config';
+
+export interface UseViewerSessionOptions {
+  peerConfig?: PeerOptions;
+}
+
+export interface UseViewerSessionResult extends ViewerSnapshot {
+  // Subscribe to session events with session.on(...)
+  session: ViewerSession | null;
+  enableMicrophone: () => Promise<void>;
+  disableMicrophone: () => void;
+  changeMicrophone: (deviceId: string) => Promise<boolean>;
+  setAudioProcessing: (processing: Partial<AudioProcessing>) => void;
+  toggleMicMute: () => void;
+  leave: () => void;
+  rejoin: () => void;
+  retryNow: () => void;
+}
+
+const noopUnsubscribe = () => {};
+
+// Own a ViewerSession for the given room and expose its state and controls
+export function useViewerSession(roomId: string, options: UseViewerSessionOptions = {}): UseViewerSessionResult {
+  const { peerConfig } = options;
+  const [session, setSession] = useState<ViewerSession | null>(null);
+
+  useEffect(() => {
+    if (!roomId) return;
+
+    const nextSession = new ViewerSession({ roomId, peerOptions: peerConfig });
+    setSession(nextSession);
+    nextSession.start();
+
+    return () => {
+      nextSession.destroy();
+      setSession(null);
+    };
+  }, [roomId, peerConfig]);
+
+  // Keep ICE servers current as TURN credentials are refreshed
+  const { iceServers } = usePeerConfig();
+  useEffect(() => {
+    session?.setIceServers(iceServers);
+  }, [session, iceServers]);
+
+  const subscribe = useCallback(
+    (listener: () => void) => (session ? session.subscribe(listener) : noopUnsubscribe),
+    [session]
+  );
+  const getSnapshot = useCallback(() => (session ? session.getSnapshot() : initialViewerSnapshot), [session]);
+  const snapshot = useSyncExternalStore(subscribe, getSnapshot);
+
+  const enableMicrophone = useCallback(async () => {
+    await session?.enableMicrophone();
+  }, [session]);
+
+  const disableMicrophone = useCallback(() => {
+    session?.disableMicrophone();
+  }, [session]);
+
+  const changeMicrophone = useCallback(
+    async (deviceId: string) => (await session?.changeMicrophone(deviceId)) ?? false,
+    [session]
+  );
+
+  const setAudioProcessing = useCallback(
+    (processing: Partial<AudioProcessing>) => {
+      session?.setAudioProcessing(processing);
+    },
+    [session]
+  );
+
+  const toggleMicMute = useCallback(() => {
+    session?.toggleMicMute();
+  }, [session]);
+
+  const leave = useCallback(() => {
+    session?.leave();
+  }, [session]);
+
+  const rejoin = useCallback(() => {
+    session?.rejoin();
+  }, [session]);
+
+  const retryNow = useCallback(() => {
+    session?.retryNow();
+  }, [session]);
+
+  return {
+    ...snapshot,
+    session,
+    enableMicrophone,
+    disableMicrophone,
+    changeMicrophone,
+    setAudioProcessing,
+    toggleMicMute,
+    leave,
+    rejoin,
+    retryNow,
+  };
+}
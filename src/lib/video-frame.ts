@@ -0,0 +1,20 @@
+// Position within a video element's picture as fractions of the frame,
+// allowing for letterboxing (object-fit: contain, the default)
+export const toVideoFramePosition = (video: HTMLVideoElement, clientX: number, clientY: number) => {
+  const rect = video.getBoundingClientRect();
+  const videoAspect = video.videoWidth / video.videoHeight || 16 / 9;
+  const rectAspect = rect.width / rect.height;
+
+  let frameWidth = rect.width;
+  let frameHeight = rect.height;
+  if (videoAspect > rectAspect) {
+    frameHeight = rect.width / videoAspect;
+  } else {
+    frameWidth = rect.height * videoAspect;
+  }
+  const left = rect.left + (rect.width - frameWidth) / 2;
+  const top = rect.top + (rect.height - frameHeight) / 2;
+
+  const clamp = (value: number) => Math.min(Math.max(value, 0), 1);
+  return { x: clamp((clientX - left) / frameWidth), y: clamp((clientY - top) / frameHeight) };
+};
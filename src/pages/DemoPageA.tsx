@@ -2,11 +2,15 @@ import { Link } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { ArrowRight } from 'lucide-react';
+import { useCropTarget } from '@/hooks/use-crop-target';
 
 const DemoPageA = () => {
+  // Presenters sharing this tab can send just this card
+  const cropTargetRef = useCropTarget('demo-page-a', 'Demo Page A content');
+
   return (
     <div className="min-h-screen bg-background flex items-center justify-center p-6">
-      <Card className="max-w-lg w-full">
+      <Card ref={cropTargetRef} className="max-w-lg w-full">
         <CardHeader className="text-center">
           <CardTitle className="text-6xl font-bold text-primary mb-4">
             Demo Page A
@@ -4,6 +4,7 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Monitor, Users, ArrowRight, Presentation, TestTube } from 'lucide-react';
+import ConnectionSettingsDialog from '@/components/ConnectionSettingsDialog';
 
 const Index = () => {
   const [roomId, setRoomId] = useState('');
@@ -155,9 +156,12 @@ const Index = () => {
         </Card>
 
         {/* Info */}
-        <p className="text-xs text-center text-muted-foreground">
-          Powered by PeerJS &amp; WebRTC. Works in Chrome and Edge.
-        </p>
+        <div className="flex flex-col items-center gap-2">
+          <p className="text-xs text-center text-muted-foreground">
+            Powered by PeerJS &amp; WebRTC. Works in Chrome and Edge.
+          </p>
+          <ConnectionSettingsDialog />
+        </div>
       </div>
     </div>
   );
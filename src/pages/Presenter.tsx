@@ -1,8 +1,10 @@
 import { useParams } from 'react-router-dom';
 import ScreenSharePresenterUI from '@/components/ScreenSharePresenterUI';
+import { usePeerConfig } from '@/hooks/use-peer-config';
 
 const Presenter = () => {
   const { roomId } = useParams<{ roomId: string }>();
+  const { peerOptions } = usePeerConfig();
 
   if (!roomId) {
     return (
@@ -12,6 +14,14 @@ const Presenter = () => {
     );
   }
 
+  if (!peerOptions) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <p className="text-muted-foreground">Loading connection settings...</p>
+      </div>
+    );
+  }
+
   return <ScreenSharePresenterUI roomId={roomId} />;
 };
 
@@ -1,10 +1,11 @@
 import { useSearchParams } from 'react-router-dom';
 import PresenterControls from '@/components/PresenterControls';
-import { peerConfig } from '@/webrtc/peerConfig';
+import { usePeerConfig } from '@/hooks/use-peer-config';
 
 const PresenterControlsPage = () => {
   const [searchParams] = useSearchParams();
   const roomId = searchParams.get('roomId');
+  const { peerOptions } = usePeerConfig();
 
   if (!roomId) {
     return (
@@ -14,7 +15,15 @@ const PresenterControlsPage = () => {
     );
   }
 
-  return <PresenterControls roomId={roomId} peerConfig={peerConfig} />;
+  if (!peerOptions) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <p className="text-muted-foreground">Loading connection settings...</p>
+      </div>
+    );
+  }
+
+  return <PresenterControls roomId={roomId} peerConfig={peerOptions} />;
 };
 
 export default PresenterControlsPage;
@@ -1,9 +1,10 @@
 import { useParams } from 'react-router-dom';
 import ScreenShareViewer from '@/components/ScreenShareViewer';
-import { peerConfig } from '@/webrtc/peerConfig';
+import { usePeerConfig } from '@/hooks/use-peer-config';
 
 const Viewer = () => {
   const { roomId } = useParams<{ roomId: string }>();
+  const { peerOptions } = usePeerConfig();
 
   if (!roomId) {
     return (
@@ -13,7 +14,15 @@ const Viewer = () => {
     );
   }
 
-  return <ScreenShareViewer roomId={roomId} peerConfig={peerConfig} />;
+  if (!peerOptions) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <p className="text-muted-foreground">Loading connection settings...</p>
+      </div>
+    );
+  }
+
+  return <ScreenShareViewer roomId={roomId} peerConfig={peerOptions} />;
 };
 
 export default Viewer;
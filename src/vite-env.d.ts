@@ -1 +1,15 @@
 /// <reference types="vite/client" />
+
+// Connection configuration, see src/webrtc/peerConfig.ts
+interface ImportMetaEnv {
+  readonly VITE_ICE_SERVERS?: string;
+  readonly VITE_ICE_CONFIG_URL?: string;
+  readonly VITE_TURN_URLS?: string;
+  readonly VITE_TURN_SECRET?: string;
+  readonly VITE_TURN_TTL?: string;
+  readonly VITE_PEER_HOST?: string;
+  readonly VITE_PEER_PORT?: string;
+  readonly VITE_PEER_PATH?: string;
+  readonly VITE_PEER_SECURE?: string;
+  readonly VITE_PEER_KEY?: string;
+}
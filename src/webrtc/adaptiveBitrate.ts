@@ -0,0 +1,148 @@
+// src/webrtc/adaptiveBitrate.ts
+//
+// Per-viewer bitrate adaptation. Samples the stats of one call's screen
+// sender and steps its tier down quickly on loss, high RTT or a low
+// bandwidth estimate, and back up only after a sustained good period.
+
+import { TypedEmitter } from '@/webrtc/emitter';
+import { getOutboundVideoSample, OutboundVideoSample } from '@/webrtc/stats';
+
+export type BitrateTier = 'high' | 'medium' | 'low';
+
+// Tiers from best to worst, with the share of the preset bitrate each gets
+export const bitrateTiers: BitrateTier[] = ['high', 'medium', 'low'];
+export const bitrateTierScales: Record<BitrateTier, number> = {
+  high: 1,
+  medium: 0.5,
+  low: 0.25,
+};
+
+export interface AdaptiveBitrateOptions {
+  intervalMs: number;
+  // Consecutive bad samples before stepping down
+  downgradeAfter: number;
+  // Consecutive good samples before stepping up; kept long to avoid flapping
+  upgradeAfter: number;
+  // Loss fraction above which a sample is bad, and below which it is good
+  badLoss: number;
+  goodLoss: number;
+  // Round-trip time in seconds above which a sample is bad
+  badRtt: number;
+}
+
+export const defaultAdaptiveBitrateOptions: AdaptiveBitrateOptions = {
+  intervalMs: 2000,
+  downgradeAfter: 2,
+  upgradeAfter: 5,
+  badLoss: 0.05,
+  goodLoss: 0.02,
+  badRtt: 0.4,
+};
+
+export interface AdaptiveBitrateEvents {
+  'tier-changed': [tier: BitrateTier];
+}
+
+type SampleQuality = 'good' | 'bad' | 'neutral';
+
+export class AdaptiveBitrate extends TypedEmitter<AdaptiveBitrateEvents> {
+  private readonly options: AdaptiveBitrateOptions;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private previous: OutboundVideoSample | null = null;
+  private current: BitrateTier = 'high';
+  private badStreak = 0;
+  private goodStreak = 0;
+
+  constructor(
+    private readonly peerConnection: RTCPeerConnection,
+    private readonly sender: RTCRtpSender,
+    // Bitrate the current tier is aiming for, in bits per second
+    private readonly getTargetBitrate: (tier: BitrateTier) => number,
+    options: Partial<AdaptiveBitrateOptions> = {}
+  ) {
+    super();
+    this.options = { ...defaultAdaptiveBitrateOptions, ...options };
+  }
+
+  get tier() {
+    return this.current;
+  }
+
+  start() {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.sample().catch((err) => console.warn('Could not read call stats:', err));
+    }, this.options.intervalMs);
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.previous = null;
+  }
+
+  dispose() {
+    this.stop();
+    this.removeAllListeners();
+  }
+
+  private async sample() {
+    if (this.peerConnection.connectionState !== 'connected') return;
+
+    const sample = await getOutboundVideoSample(this.sender);
+    if (!sample || !this.timer) return;
+
+    const previous = this.previous;
+    this.previous = sample;
+    if (!previous) return;
+
+    const quality = this.rate(previous, sample);
+    if (quality === 'bad') {
+      this.goodStreak = 0;
+      this.badStreak++;
+      if (this.badStreak >= this.options.downgradeAfter) this.step(1);
+    } else if (quality === 'good') {
+      this.badStreak = 0;
+      this.goodStreak++;
+      if (this.goodStreak >= this.options.upgradeAfter) this.step(-1);
+    } else {
+      // In between the thresholds: hold the current tier
+      this.badStreak = 0;
+      this.goodStreak = 0;
+    }
+  }
+
+  private rate(previous: OutboundVideoSample, sample: OutboundVideoSample): SampleQuality {
+    const sent = sample.packetsSent - previous.packetsSent;
+    const lost = Math.max(0, sample.packetsLost - previous.packetsLost);
+    const loss = sent > 0 ? lost / (sent + lost) : 0;
+    const rtt = sample.roundTripTime ?? 0;
+    const target = this.getTargetBitrate(this.current);
+    const available = sample.availableOutgoingBitrate;
+
+    if (loss > this.options.badLoss || rtt > this.options.badRtt) return 'bad';
+    if (available !== null && available < target * 0.8) return 'bad';
+
+    // Only step up if the estimate leaves room for the next tier
+    const index = bitrateTiers.indexOf(this.current);
+    const nextTarget = index > 0 ? this.getTargetBitrate(bitrateTiers[index - 1]) : target;
+    if (loss < this.options.goodLoss && (available === null || available >= nextTarget)) return 'good';
+
+    return 'neutral';
+  }
+
+  // +1 steps down to a worse tier, -1 up to a better one
+  private step(direction: 1 | -1) {
+    this.badStreak = 0;
+    this.goodStreak = 0;
+
+    const index = bitrateTiers.indexOf(this.current) + direction;
+    const next = bitrateTiers[index];
+    if (!next) return;
+
+    this.current = next;
+    this.emit('tier-changed', next);
+  }
+}
@@ -0,0 +1,174 @@
+// src/webrtc/audioLevels.ts
+//
+// Live microphone levels read from AnalyserNodes, and detection of who is
+// speaking. Levels change several times a second, so they are a store of
+// their own instead of part of a session snapshot.
+
+import type { CreateAudioContext } from '@/webrtc/audioMixer';
+import { TypedEmitter } from '@/webrtc/emitter';
+import { startTicker } from '@/webrtc/ticker';
+
+// 0 (silent) to 1 per metered ID
+export type AudioLevels = Record<string, number>;
+
+interface AudioLevelMonitorEvents {
+  'change': [levels: AudioLevels];
+  'active-speaker': [speakerId: string | null];
+}
+
+interface Meter {
+  source: MediaStreamAudioSourceNode;
+  analyser: AnalyserNode;
+  samples: Float32Array<ArrayBuffer>;
+}
+
+const SAMPLE_INTERVAL_MS = 100;
+// RMS is scaled up so normal speech fills most of a meter
+const LEVEL_SCALE = 4;
+// Level from which someone counts as speaking
+export const SPEAKING_LEVEL = 0.08;
+// Someone has to be the loudest this long to take over, and the active
+// speaker keeps the floor through pauses shorter than the silence delay
+const SWITCH_DELAY_MS = 400;
+const SILENCE_DELAY_MS = 1500;
+
+// Move the active speaker to the front of a list of peer IDs
+export const speakerFirst = (ids: string[], speakerId: string | null) =>
+  speakerId && ids.includes(speakerId) ? [speakerId, ...ids.filter((id) => id !== speakerId)] : ids;
+
+const defaultCreateAudioContext: CreateAudioContext = () => new AudioContext();
+
+export class AudioLevelMonitor extends TypedEmitter<AudioLevelMonitorEvents> {
+  private readonly createContext: CreateAudioContext;
+  private context: AudioContext | null = null;
+  private meters = new Map<string, Meter>();
+  private levels: AudioLevels = {};
+  private stopTicker: (() => void) | null = null;
+  private activeSpeakerId: string | null = null;
+  private candidateId: string | null = null;
+  private candidateSince = 0;
+  private lastSpokeAt = 0;
+
+  constructor(createContext: CreateAudioContext = defaultCreateAudioContext) {
+    super();
+    this.createContext = createContext;
+  }
+
+  getSnapshot = (): AudioLevels => this.levels;
+
+  // useSyncExternalStore-compatible subscription
+  subscribe = (listener: () => void) => this.on('change', listener);
+
+  getActiveSpeaker() {
+    return this.activeSpeakerId;
+  }
+
+  // Meter a track under an ID, replacing whatever was metered there before
+  add(id: string, track: MediaStreamTrack) {
+    this.remove(id);
+    try {
+      const context = this.getContext();
+      const source = context.createMediaStreamSource(new MediaStream([track]));
+      const analyser = context.createAnalyser();
+      analyser.fftSize = 1024;
+      source.connect(analyser);
+      this.meters.set(id, { source, analyser, samples: new Float32Array(analyser.fftSize) });
+      this.stopTicker ??= startTicker(SAMPLE_INTERVAL_MS, () => this.sample());
+    } catch (err) {
+      console.warn('Audio level meter unavailable:', err);
+    }
+  }
+
+  remove(id: string) {
+    const meter = this.meters.get(id);
+    if (!meter) return;
+
+    meter.source.disconnect();
+    meter.analyser.disconnect();
+    this.meters.delete(id);
+    if (this.meters.size === 0) {
+      this.stopTicker?.();
+      this.stopTicker = null;
+    }
+
+    const levels = { ...this.levels };
+    delete levels[id];
+    this.levels = levels;
+    this.emit('change', levels);
+    if (this.activeSpeakerId === id) this.setActiveSpeaker(null);
+    if (this.candidateId === id) this.candidateId = null;
+  }
+
+  clear() {
+    [...this.meters.keys()].forEach((id) => this.remove(id));
+  }
+
+  dispose() {
+    this.clear();
+    this.context?.close().catch((err) => console.warn('Error closing level meter audio context:', err));
+    this.context = null;
+  }
+
+  private getContext() {
+    if (!this.context) {
+      this.context = this.createContext();
+      // Some browsers start contexts suspended until a user gesture
+      if (this.context.state === 'suspended') {
+        this.context.resume().catch((err) => console.warn('Could not resume level meters:', err));
+      }
+    }
+    return this.context;
+  }
+
+  private sample() {
+    const levels: AudioLevels = {};
+    this.meters.forEach(({ analyser, samples }, id) => {
+      analyser.getFloatTimeDomainData(samples);
+      let sum = 0;
+      for (let i = 0; i < samples.length; i++) sum += samples[i] * samples[i];
+      levels[id] = Math.min(1, Math.sqrt(sum / samples.length) * LEVEL_SCALE);
+    });
+    this.levels = levels;
+    this.emit('change', levels);
+    this.detectSpeaker(levels, Date.now());
+  }
+
+  private detectSpeaker(levels: AudioLevels, now: number) {
+    let loudestId: string | null = null;
+    let loudest = SPEAKING_LEVEL;
+    for (const [id, level] of Object.entries(levels)) {
+      if (level >= loudest) {
+        loudestId = id;
+        loudest = level;
+      }
+    }
+
+    if (loudestId === this.activeSpeakerId) {
+      this.candidateId = null;
+      if (loudestId) this.lastSpokeAt = now;
+      return;
+    }
+
+    if (loudestId === null) {
+      this.candidateId = null;
+      if (now - this.lastSpokeAt >= SILENCE_DELAY_MS) this.setActiveSpeaker(null);
+      return;
+    }
+
+    if (loudestId !== this.candidateId) {
+      this.candidateId = loudestId;
+      this.candidateSince = now;
+    }
+    if (now - this.candidateSince >= SWITCH_DELAY_MS) {
+      this.candidateId = null;
+      this.lastSpokeAt = now;
+      this.setActiveSpeaker(loudestId);
+    }
+  }
+
+  private setActiveSpeaker(speakerId: string | null) {
+    if (speakerId === this.activeSpeakerId) return;
+    this.activeSpeakerId = speakerId;
+    this.emit('active-speaker', speakerId);
+  }
+}
@@ -0,0 +1,96 @@
+// src/webrtc/audioMixer.ts
+//
+// Mixes the presenter's microphone and captured tab/system audio into a
+// single outbound track. Each source has its own gain, so muting or
+// turning down one branch leaves the other untouched.
+
+export type AudioSourceKind = 'mic' | 'system';
+
+export type AudioGains = Record<AudioSourceKind, number>;
+
+export const defaultAudioGains: AudioGains = { mic: 1, system: 1 };
+
+// Sliders go up to 2x to lift quiet tabs
+export const MAX_AUDIO_GAIN = 2;
+
+export type CreateAudioContext = () => AudioContext;
+
+const defaultCreateAudioContext: CreateAudioContext = () => new AudioContext();
+
+interface MixerBranch {
+  track: MediaStreamTrack;
+  source: MediaStreamAudioSourceNode;
+  gain: GainNode;
+}
+
+export class OutboundAudioMixer {
+  private readonly context: AudioContext;
+  private readonly destination: MediaStreamAudioDestinationNode;
+  private branches = new Map<AudioSourceKind, MixerBranch>();
+  private gains: AudioGains;
+  private disposed = false;
+
+  constructor(gains: AudioGains = defaultAudioGains, createContext = defaultCreateAudioContext) {
+    this.context = createContext();
+    this.destination = this.context.createMediaStreamDestination();
+    this.gains = { ...gains };
+
+    // Created from a click handler, but some browsers still start suspended
+    if (this.context.state === 'suspended') {
+      this.context.resume().catch((err) => console.warn('Could not resume audio mixer:', err));
+    }
+  }
+
+  // The mixed track sent to viewers
+  get outputTrack(): MediaStreamTrack {
+    return this.destination.stream.getAudioTracks()[0];
+  }
+
+  // Connect a source track, replacing whatever fed that branch before
+  setSource(kind: AudioSourceKind, track: MediaStreamTrack | null) {
+    if (this.disposed) return;
+    this.disconnectBranch(kind);
+    if (!track) return;
+
+    const source = this.context.createMediaStreamSource(new MediaStream([track]));
+    const gain = this.context.createGain();
+    gain.gain.value = this.gains[kind];
+    source.connect(gain);
+    gain.connect(this.destination);
+    this.branches.set(kind, { track, source, gain });
+  }
+
+  hasSource(kind: AudioSourceKind) {
+    return this.branches.has(kind);
+  }
+
+  setGain(kind: AudioSourceKind, value: number) {
+    const clamped = Math.min(Math.max(value, 0), MAX_AUDIO_GAIN);
+    this.gains[kind] = clamped;
+
+    const branch = this.branches.get(kind);
+    if (branch) {
+      // Short ramp avoids clicks while dragging the slider
+      branch.gain.gain.setTargetAtTime(clamped, this.context.currentTime, 0.02);
+    }
+  }
+
+  // Disconnect the graph and stop the output track. Source tracks belong
+  // to the caller and are left running.
+  dispose() {
+    if (this.disposed) return;
+    this.disposed = true;
+
+    [...this.branches.keys()].forEach((kind) => this.disconnectBranch(kind));
+    this.outputTrack?.stop();
+    this.context.close().catch(() => {});
+  }
+
+  private disconnectBranch(kind: AudioSourceKind) {
+    const branch = this.branches.get(kind);
+    if (!branch) return;
+    this.branches.delete(kind);
+    branch.source.disconnect();
+    branch.gain.disconnect();
+  }
+}
@@ -0,0 +1,147 @@
+// src/webrtc/audioProcessing.ts
+//
+// Microphone processing: the browser's built-in echo cancellation, noise
+// suppression and auto gain (toggled live with applyConstraints), plus an
+// optional noise gate running in an AudioWorklet.
+
+import type { CreateAudioContext } from '@/webrtc/audioMixer';
+
+export interface AudioProcessing {
+  echoCancellation: boolean;
+  noiseSuppression: boolean;
+  autoGainControl: boolean;
+  noiseGate: boolean;
+}
+
+export const defaultAudioProcessing: AudioProcessing = {
+  echoCancellation: true,
+  noiseSuppression: true,
+  autoGainControl: true,
+  noiseGate: false,
+};
+
+export const audioProcessingKeys = Object.keys(defaultAudioProcessing) as (keyof AudioProcessing)[];
+
+export const isAudioProcessing = (value: unknown): value is AudioProcessing =>
+  typeof value === 'object' &&
+  value !== null &&
+  audioProcessingKeys.every((key) => typeof (value as Record<string, unknown>)[key] === 'boolean');
+
+// The browser-side part of the settings, for getUserMedia or applyConstraints
+export const getProcessingConstraints = ({ echoCancellation, noiseSuppression, autoGainControl }: AudioProcessing) => ({
+  echoCancellation,
+  noiseSuppression,
+  autoGainControl,
+});
+
+// Change processing on a live mic track. Some browsers only honour these
+// at capture time; a rejection leaves the track as it was.
+export const applyAudioProcessing = async (track: MediaStreamTrack, processing: AudioProcessing) => {
+  try {
+    await track.applyConstraints({ ...track.getConstraints(), ...getProcessingConstraints(processing) });
+    return true;
+  } catch (err) {
+    console.warn('Could not change audio processing:', err);
+    return false;
+  }
+};
+
+// RMS level below which the gate closes
+export const DEFAULT_GATE_THRESHOLD = 0.015;
+
+// Runs on the audio thread. Opens when the block level crosses the
+// threshold, stays open for a short hold so word endings are not clipped,
+// and ramps the gain to avoid clicks.
+const PROCESSOR_SOURCE = `
+const HOLD_SECONDS = 0.2;
+const SMOOTHING = 0.002;
+
+class NoiseGateProcessor extends AudioWorkletProcessor {
+  static get parameterDescriptors() {
+    return [{ name: 'threshold', defaultValue: ${DEFAULT_GATE_THRESHOLD}, minValue: 0, maxValue: 1 }];
+  }
+
+  constructor() {
+    super();
+    this.gain = 0;
+    this.holdSamples = 0;
+  }
+
+  process(inputs, outputs, parameters) {
+    const input = inputs[0];
+    const output = outputs[0];
+    if (!input || input.length === 0) return true;
+
+    let sum = 0;
+    for (const channel of input) {
+      for (let i = 0; i < channel.length; i++) sum += channel[i] * channel[i];
+    }
+    const rms = Math.sqrt(sum / (input.length * input[0].length));
+    if (rms >= parameters.threshold[0]) {
+      this.holdSamples = HOLD_SECONDS * sampleRate;
+    } else {
+      this.holdSamples = Math.max(0, this.holdSamples - input[0].length);
+    }
+
+    const target = this.holdSamples > 0 ? 1 : 0;
+    for (let i = 0; i < input[0].length; i++) {
+      this.gain += (target - this.gain) * SMOOTHING;
+      for (let c = 0; c < output.length; c++) {
+        output[c][i] = (input[c] ?? input[0])[i] * this.gain;
+      }
+    }
+    return true;
+  }
+}
+
+registerProcessor('noise-gate', NoiseGateProcessor);
+`;
+
+const defaultCreateAudioContext: CreateAudioContext = () => new AudioContext();
+
+// Mutes a mic track between words. Use create(); loading the worklet is async.
+export class NoiseGate {
+  private readonly context: AudioContext;
+  private readonly source: MediaStreamAudioSourceNode;
+  private readonly node: AudioWorkletNode;
+  private readonly output: MediaStreamTrack;
+
+  private constructor(context: AudioContext, track: MediaStreamTrack, threshold: number) {
+    this.context = context;
+    this.source = context.createMediaStreamSource(new MediaStream([track]));
+    this.node = new AudioWorkletNode(context, 'noise-gate', { parameterData: { threshold } });
+    const destination = context.createMediaStreamDestination();
+    this.source.connect(this.node).connect(destination);
+    this.output = destination.stream.getAudioTracks()[0];
+  }
+
+  static async create(
+    track: MediaStreamTrack,
+    threshold = DEFAULT_GATE_THRESHOLD,
+    createContext: CreateAudioContext = defaultCreateAudioContext
+  ) {
+    const context = createContext();
+    const url = URL.createObjectURL(new Blob([PROCESSOR_SOURCE], { type: 'text/javascript' }));
+    try {
+      if (!context.audioWorklet) throw new Error('AudioWorklet is not supported');
+      await context.audioWorklet.addModule(url);
+      return new NoiseGate(context, track, threshold);
+    } catch (err) {
+      context.close().catch(() => {});
+      throw err;
+    } finally {
+      URL.revokeObjectURL(url);
+    }
+  }
+
+  get outputTrack() {
+    return this.output;
+  }
+
+  dispose() {
+    this.source.disconnect();
+    this.node.disconnect();
+    this.output.stop();
+    this.context.close().catch((err) => console.warn('Error closing noise gate audio context:', err));
+  }
+}
@@ -0,0 +1,137 @@
+// src/webrtc/callMonitor.ts
+//
+// Watches the RTCPeerConnection behind a PeerJS MediaConnection, which
+// PeerJS only surfaces as `close`/`error`. Reports the connection state,
+// asks the owner for an ICE restart when the link drops and gives up
+// if the restart does not bring it back.
+
+import { TypedEmitter } from '@/webrtc/emitter';
+import { isRelayedConnection } from '@/webrtc/stats';
+
+export type CallConnectionState = 'connecting' | 'connected' | 'relayed' | 'reconnecting' | 'failed';
+
+export interface CallMonitorOptions {
+  // Start the ICE restart signalling; reject if it cannot be started
+  restartIce: (peerConnection: RTCPeerConnection) => Promise<void>;
+  // How long `disconnected` may last before restarting (it often recovers alone)
+  disconnectGraceMs?: number;
+  // How long a restart may take before the call is considered failed
+  restartTimeoutMs?: number;
+}
+
+export interface CallMonitorEvents {
+  'state-changed': [state: CallConnectionState];
+  'failed': [];
+}
+
+const DEFAULT_DISCONNECT_GRACE_MS = 3000;
+const DEFAULT_RESTART_TIMEOUT_MS = 10000;
+
+export class CallMonitor extends TypedEmitter<CallMonitorEvents> {
+  private current: CallConnectionState = 'connecting';
+  private graceTimer: ReturnType<typeof setTimeout> | null = null;
+  private restartTimer: ReturnType<typeof setTimeout> | null = null;
+  private disposed = false;
+
+  constructor(
+    private readonly peerConnection: RTCPeerConnection,
+    private readonly options: CallMonitorOptions
+  ) {
+    super();
+    // addEventListener so PeerJS's own on* handlers stay in place
+    peerConnection.addEventListener('iceconnectionstatechange', this.handleStateChange);
+    peerConnection.addEventListener('connectionstatechange', this.handleStateChange);
+    this.handleStateChange();
+  }
+
+  get state() {
+    return this.current;
+  }
+
+  dispose() {
+    if (this.disposed) return;
+    this.disposed = true;
+    this.clearTimers();
+    this.peerConnection.removeEventListener('iceconnectionstatechange', this.handleStateChange);
+    this.peerConnection.removeEventListener('connectionstatechange', this.handleStateChange);
+    this.removeAllListeners();
+  }
+
+  private handleStateChange = () => {
+    if (this.disposed) return;
+
+    const { iceConnectionState, connectionState } = this.peerConnection;
+
+    if (iceConnectionState === 'failed' || connectionState === 'failed') {
+      this.fail();
+      return;
+    }
+
+    if (iceConnectionState === 'connected' || iceConnectionState === 'completed') {
+      this.clearTimers();
+      this.detectRelay();
+      return;
+    }
+
+    if (iceConnectionState === 'disconnected') {
+      this.setState('reconnecting');
+      if (!this.graceTimer && !this.restartTimer) {
+        this.graceTimer = setTimeout(() => {
+          this.graceTimer = null;
+          if (this.peerConnection.iceConnectionState === 'disconnected') this.restart();
+        }, this.options.disconnectGraceMs ?? DEFAULT_DISCONNECT_GRACE_MS);
+      }
+      return;
+    }
+
+    // new/checking: a restart in progress keeps reporting reconnecting
+    if (iceConnectionState !== 'closed' && this.current !== 'reconnecting') {
+      this.setState('connecting');
+    }
+  };
+
+  private restart() {
+    console.log('Connection still down, restarting ICE');
+    this.restartTimer = setTimeout(() => {
+      this.restartTimer = null;
+      console.warn('ICE restart timed out');
+      this.fail();
+    }, this.options.restartTimeoutMs ?? DEFAULT_RESTART_TIMEOUT_MS);
+
+    this.options.restartIce(this.peerConnection).catch((err) => {
+      console.warn('ICE restart failed:', err);
+      this.fail();
+    });
+  }
+
+  private async detectRelay() {
+    const relayed = await isRelayedConnection(this.peerConnection).catch(() => false);
+    const { iceConnectionState } = this.peerConnection;
+    if (this.disposed || (iceConnectionState !== 'connected' && iceConnectionState !== 'completed')) return;
+    this.setState(relayed ? 'relayed' : 'connected');
+  }
+
+  private fail() {
+    this.clearTimers();
+    if (this.disposed || this.current === 'failed') return;
+    this.setState('failed');
+    this.emit('failed');
+  }
+
+  private clearTimers() {
+    if (this.graceTimer) {
+      clearTimeout(this.graceTimer);
+      this.graceTimer = null;
+    }
+    if (this.restartTimer) {
+      clearTimeout(this.restartTimer);
+      this.restartTimer = null;
+    }
+  }
+
+  private setState(state: CallConnectionState) {
+    if (this.current === state) return;
+    this.current = state;
+    this.emit('state-changed', state);
+  }
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { getCodecName, preferCodecInSdp } from '@/webrtc/codecs';
+
+// Screen and an extra source, each offering VP8 first
+const videoSection = (mid: number) => [
+  'm=video 9 UDP/TLS/RTP/SAVPF 96 97 98 99 45',
+  `a=mid:${mid}`,
+  'a=rtpmap:96 VP8/90000',
+  'a=rtpmap:97 rtx/90000',
+  'a=fmtp:97 apt=96',
+  'a=rtpmap:98 VP9/90000',
+  'a=rtpmap:99 rtx/90000',
+  'a=fmtp:99 apt=98',
+  'a=rtpmap:45 AV1/90000',
+];
+
+const offer = [
+  'v=0',
+  'o=- 1 2 IN IP4 127.0.0.1',
+  's=-',
+  't=0 0',
+  'm=audio 9 UDP/TLS/RTP/SAVPF 111',
+  'a=mid:0',
+  'a=rtpmap:111 opus/48000/2',
+  ...videoSection(1),
+  ...videoSection(2),
+  '',
+].join('\r\n');
+
+const mLines = (sdp: string) => sdp.split('\r\n').filter((line) => line.startsWith('m='));
+
+describe('preferCodecInSdp', () => {
+  it('moves the preferred codec to the front of every video section', () => {
+    expect(mLines(preferCodecInSdp(offer, 'VP9'))).toEqual([
+      'm=audio 9 UDP/TLS/RTP/SAVPF 111',
+      'm=video 9 UDP/TLS/RTP/SAVPF 98 96 97 99 45',
+      'm=video 9 UDP/TLS/RTP/SAVPF 98 96 97 99 45',
+    ]);
+  });
+
+  it('matches codec names regardless of case', () => {
+    expect(mLines(preferCodecInSdp(offer, 'AV1'))[2]).toBe('m=video 9 UDP/TLS/RTP/SAVPF 45 96 97 98 99');
+  });
+
+  it('leaves the offer alone for auto', () => {
+    expect(preferCodecInSdp(offer, 'auto')).toBe(offer);
+  });
+
+  it('leaves sections without the codec alone', () => {
+    expect(preferCodecInSdp(offer, 'H264')).toBe(offer);
+  });
+
+  it('only touches video sections', () => {
+    const result = preferCodecInSdp(offer, 'VP9').split('\r\n');
+    expect(result.filter((line) => !line.startsWith('m=video'))).toEqual(
+      offer.split('\r\n').filter((line) => !line.startsWith('m=video'))
+    );
+  });
+});
+
+describe('getCodecName', () => {
+  it('strips the media type', () => {
+    expect(getCodecName('video/VP9')).toBe('VP9');
+    expect(getCodecName('video/av1')).toBe('AV1');
+  });
+});
@@ -0,0 +1,93 @@
+// src/webrtc/codecs.ts
+//
+// Video codec preference for outbound calls. Preferred codecs are moved
+// to the front rather than filtering the rest out, so a viewer that
+// cannot decode the preferred codec negotiates the next one it can.
+
+export type VideoCodec = 'AV1' | 'VP9' | 'VP8' | 'H264';
+export type VideoCodecPreference = 'auto' | VideoCodec;
+
+export const videoCodecs: VideoCodec[] = ['AV1', 'VP9', 'VP8', 'H264'];
+
+const mimeTypes: Record<VideoCodec, string> = {
+  AV1: 'video/av1',
+  VP9: 'video/vp9',
+  VP8: 'video/vp8',
+  H264: 'video/h264',
+};
+
+const getVideoCapabilities = () => {
+  if (typeof RTCRtpSender === 'undefined' || !RTCRtpSender.getCapabilities) return null;
+  return RTCRtpSender.getCapabilities('video');
+};
+
+// Codecs this browser can send. Without getCapabilities, assume the
+// baseline every WebRTC browser must support.
+export const getSupportedVideoCodecs = (): VideoCodec[] => {
+  const capabilities = getVideoCapabilities();
+  if (!capabilities) return ['VP8', 'H264'];
+
+  const supported = new Set(capabilities.codecs.map((codec) => codec.mimeType.toLowerCase()));
+  return videoCodecs.filter((codec) => supported.has(mimeTypes[codec]));
+};
+
+// Short name for a negotiated codec's MIME type, e.g. "video/VP9" -> "VP9"
+export const getCodecName = (mimeType: string) => mimeType.replace(/^video\//i, '').toUpperCase();
+
+const sortCodecs = (codecs: RTCRtpCodec[], preferred: VideoCodec) => {
+  const mimeType = mimeTypes[preferred];
+  const first = codecs.filter((codec) => codec.mimeType.toLowerCase() === mimeType);
+  const rest = codecs.filter((codec) => codec.mimeType.toLowerCase() !== mimeType);
+  return [...first, ...rest];
+};
+
+// Applies to every later offer on this connection (e.g. ICE restarts)
+export const applyCodecPreference = (peerConnection: RTCPeerConnection, preferred: VideoCodecPreference) => {
+  const capabilities = getVideoCapabilities();
+  if (preferred === 'auto' || !capabilities) return;
+
+  peerConnection.getTransceivers().forEach((transceiver) => {
+    if (transceiver.sender.track?.kind !== 'video' || !transceiver.setCodecPreferences) return;
+    try {
+      transceiver.setCodecPreferences(sortCodecs(capabilities.codecs, preferred));
+    } catch (err) {
+      console.warn('Could not set codec preferences:', err);
+    }
+  });
+};
+
+// Reorder the payload types of one video section, given the index of its m= line
+const preferCodecInSection = (lines: string[], mLineIndex: number, preferred: VideoCodec) => {
+  // Payload types in this media section whose rtpmap names the codec
+  const codecName = mimeTypes[preferred].split('/')[1];
+  const preferredTypes = new Set<string>();
+  for (let i = mLineIndex + 1; i < lines.length && !lines[i].startsWith('m='); i++) {
+    const match = /^a=rtpmap:(\d+) ([^/]+)\//.exec(lines[i]);
+    if (match && match[2].toLowerCase() === codecName) preferredTypes.add(match[1]);
+  }
+  if (preferredTypes.size === 0) return;
+
+  // m=video <port> <proto> <payload types...>
+  const parts = lines[mLineIndex].split(' ');
+  const header = parts.slice(0, 3);
+  const payloadTypes = parts.slice(3);
+  const reordered = [
+    ...payloadTypes.filter((type) => preferredTypes.has(type)),
+    ...payloadTypes.filter((type) => !preferredTypes.has(type)),
+  ];
+  lines[mLineIndex] = [...header, ...reordered].join(' ');
+};
+
+// Reorder the payload types of every video section in an SDP offer: the
+// screen, a separate camera and any extra sources. PeerJS creates its offer
+// synchronously inside `peer.call`, before the caller can reach the
+// transceivers, so the first offer has to be adjusted this way.
+export const preferCodecInSdp = (sdp: string, preferred: VideoCodecPreference) => {
+  if (preferred === 'auto') return sdp;
+
+  const lines = sdp.split('\r\n');
+  lines.forEach((line, index) => {
+    if (line.startsWith('m=video ')) preferCodecInSection(lines, index, preferred);
+  });
+  return lines.join('\r\n');
+};
@@ -0,0 +1,169 @@
+// src/webrtc/compositor.ts
+//
+// Draws the presenter's webcam over the screen capture on a canvas and
+// captures the result as the outbound video track.
+
+import { startTicker } from '@/webrtc/ticker';
+
+export type PipCorner = 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
+export type PipShape = 'circle' | 'rounded';
+
+export interface PipLayout {
+  corner: PipCorner;
+  // Camera width as a fraction of the output width
+  size: number;
+  shape: PipShape;
+  // Centre of the camera as fractions of the output, once dragged; overrides the corner
+  position: { x: number; y: number } | null;
+}
+
+export const defaultPipLayout: PipLayout = {
+  corner: 'bottom-right',
+  size: 0.2,
+  shape: 'circle',
+  position: null,
+};
+
+export const MIN_PIP_SIZE = 0.1;
+export const MAX_PIP_SIZE = 0.4;
+
+// Gap between the camera and the edge in corner placement, as a fraction of the output width
+const CORNER_MARGIN = 0.02;
+
+interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Where the camera goes on an output of the given size
+export const getPipBox = (
+  layout: PipLayout,
+  outputWidth: number,
+  outputHeight: number,
+  cameraAspect: number
+): Box => {
+  const width = outputWidth * layout.size;
+  const height = layout.shape === 'circle' ? width : width / cameraAspect;
+  const margin = outputWidth * CORNER_MARGIN;
+
+  let centreX: number;
+  let centreY: number;
+  if (layout.position) {
+    centreX = layout.position.x * outputWidth;
+    centreY = layout.position.y * outputHeight;
+  } else {
+    centreX = layout.corner.endsWith('left') ? margin + width / 2 : outputWidth - margin - width / 2;
+    centreY = layout.corner.startsWith('top') ? margin + height / 2 : outputHeight - margin - height / 2;
+  }
+
+  // Keep the camera fully on screen
+  const x = Math.min(Math.max(centreX - width / 2, 0), outputWidth - width);
+  const y = Math.min(Math.max(centreY - height / 2, 0), outputHeight - height);
+  return { x, y, width, height };
+};
+
+const createVideoElement = (track: MediaStreamTrack) => {
+  const video = document.createElement('video');
+  video.muted = true;
+  video.playsInline = true;
+  video.srcObject = new MediaStream([track]);
+  video.play().catch((err) => console.warn('Could not play compositor source:', err));
+  return video;
+};
+
+const clipShape = (ctx: CanvasRenderingContext2D, box: Box, shape: PipShape) => {
+  ctx.beginPath();
+  if (shape === 'circle') {
+    ctx.arc(box.x + box.width / 2, box.y + box.height / 2, box.width / 2, 0, Math.PI * 2);
+  } else {
+    ctx.roundRect(box.x, box.y, box.width, box.height, box.width * 0.08);
+  }
+  ctx.clip();
+};
+
+export class WebcamCompositor {
+  private readonly canvas: HTMLCanvasElement;
+  private readonly ctx: CanvasRenderingContext2D;
+  private screenVideo: HTMLVideoElement;
+  private readonly cameraVideo: HTMLVideoElement;
+  private readonly stopTicker: () => void;
+  private readonly output: MediaStreamTrack;
+  private layout: PipLayout;
+
+  constructor(screenTrack: MediaStreamTrack, cameraTrack: MediaStreamTrack, layout: PipLayout, fps: number) {
+    this.canvas = document.createElement('canvas');
+    const ctx = this.canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas 2D context unavailable');
+    this.ctx = ctx;
+
+    this.layout = layout;
+    this.screenVideo = createVideoElement(screenTrack);
+    this.cameraVideo = createVideoElement(cameraTrack);
+
+    const { width = 1280, height = 720 } = screenTrack.getSettings();
+    this.canvas.width = width;
+    this.canvas.height = height;
+
+    this.output = this.canvas.captureStream(fps).getVideoTracks()[0];
+    this.output.contentHint = screenTrack.contentHint;
+    this.stopTicker = startTicker(1000 / fps, () => this.draw());
+  }
+
+  get outputTrack() {
+    return this.output;
+  }
+
+  setLayout(layout: PipLayout) {
+    this.layout = layout;
+  }
+
+  // Follow a source change without touching the output track
+  setScreenTrack(screenTrack: MediaStreamTrack) {
+    this.screenVideo.srcObject = null;
+    this.screenVideo = createVideoElement(screenTrack);
+    this.output.contentHint = screenTrack.contentHint;
+  }
+
+  dispose() {
+    this.stopTicker();
+    this.output.stop();
+    this.screenVideo.srcObject = null;
+    this.cameraVideo.srcObject = null;
+  }
+
+  private draw() {
+    const { ctx, canvas, screenVideo, cameraVideo } = this;
+    if (screenVideo.readyState < HTMLMediaElement.HAVE_CURRENT_DATA) return;
+
+    // The captured window can be resized while sharing
+    if (screenVideo.videoWidth && (canvas.width !== screenVideo.videoWidth || canvas.height !== screenVideo.videoHeight)) {
+      canvas.width = screenVideo.videoWidth;
+      canvas.height = screenVideo.videoHeight;
+    }
+    ctx.drawImage(screenVideo, 0, 0, canvas.width, canvas.height);
+
+    if (cameraVideo.readyState < HTMLMediaElement.HAVE_CURRENT_DATA || !cameraVideo.videoWidth) return;
+
+    const cameraAspect = cameraVideo.videoWidth / cameraVideo.videoHeight;
+    const box = getPipBox(this.layout, canvas.width, canvas.height, cameraAspect);
+
+    // Crop the camera to the box's aspect ratio (centre crop)
+    const boxAspect = box.width / box.height;
+    let sourceWidth = cameraVideo.videoWidth;
+    let sourceHeight = cameraVideo.videoHeight;
+    if (cameraAspect > boxAspect) {
+      sourceWidth = sourceHeight * boxAspect;
+    } else {
+      sourceHeight = sourceWidth / boxAspect;
+    }
+    const sourceX = (cameraVideo.videoWidth - sourceWidth) / 2;
+    const sourceY = (cameraVideo.videoHeight - sourceHeight) / 2;
+
+    ctx.save();
+    clipShape(ctx, box, this.layout.shape);
+    ctx.drawImage(cameraVideo, sourceX, sourceY, sourceWidth, sourceHeight, box.x, box.y, box.width, box.height);
+    ctx.restore();
+  }
+}
@@ -0,0 +1,106 @@
+// src/webrtc/devicePreferences.ts
+//
+// Microphone and speaker choices, kept in localStorage so they apply to
+// every later session in this browser, presenting or viewing.
+
+import { TypedEmitter } from '@/webrtc/emitter';
+import type { StorageLike } from '@/webrtc/sessionPersistence';
+
+export interface DevicePreferences {
+  micDeviceId: string | null;
+  speakerDeviceId: string | null;
+}
+
+interface DevicePreferencesEvents {
+  'change': [preferences: DevicePreferences];
+}
+
+const STORAGE_KEY = 'device-preferences';
+
+const emptyPreferences: DevicePreferences = { micDeviceId: null, speakerDeviceId: null };
+
+const asDeviceId = (value: unknown) => (typeof value === 'string' && value ? value : null);
+
+export class DevicePreferencesStore extends TypedEmitter<DevicePreferencesEvents> {
+  private readonly storage: StorageLike | null;
+  private snapshot: DevicePreferences;
+
+  constructor(storage: StorageLike | null) {
+    super();
+    this.storage = storage;
+    this.snapshot = this.read();
+  }
+
+  getSnapshot = (): DevicePreferences => this.snapshot;
+
+  // useSyncExternalStore-compatible subscription
+  subscribe = (listener: () => void) => this.on('change', listener);
+
+  setMicDeviceId(micDeviceId: string | null) {
+    this.save({ ...this.snapshot, micDeviceId });
+  }
+
+  setSpeakerDeviceId(speakerDeviceId: string | null) {
+    this.save({ ...this.snapshot, speakerDeviceId });
+  }
+
+  private read(): DevicePreferences {
+    try {
+      const raw = this.storage?.getItem(STORAGE_KEY);
+      if (!raw) return emptyPreferences;
+      const stored = JSON.parse(raw) as Partial<Record<keyof DevicePreferences, unknown>>;
+      return { micDeviceId: asDeviceId(stored.micDeviceId), speakerDeviceId: asDeviceId(stored.speakerDeviceId) };
+    } catch (err) {
+      console.warn('Ignoring unreadable device preferences:', err);
+      return emptyPreferences;
+    }
+  }
+
+  private save(preferences: DevicePreferences) {
+    if (
+      preferences.micDeviceId === this.snapshot.micDeviceId &&
+      preferences.speakerDeviceId === this.snapshot.speakerDeviceId
+    ) {
+      return;
+    }
+    this.snapshot = preferences;
+    try {
+      this.storage?.setItem(STORAGE_KEY, JSON.stringify(preferences));
+    } catch (err) {
+      console.warn('Could not save device preferences:', err);
+    }
+    this.emit('change', preferences);
+  }
+}
+
+const getBrowserStorage = () => {
+  try {
+    return typeof window !== 'undefined' ? window.localStorage : null;
+  } catch {
+    return null;
+  }
+};
+
+export const devicePreferencesStore = new DevicePreferencesStore(getBrowserStorage());
+
+// Microphone constraints for a chosen device. A remembered device is only
+// preferred, so an unplugged one falls back to the default; an explicit
+// choice must be honoured exactly.
+export const getMicConstraints = (deviceId: string | null, exact = false): MediaTrackConstraints =>
+  deviceId ? { deviceId: exact ? { exact: deviceId } : { ideal: deviceId } } : {};
+
+// setSinkId is not available in every browser (e.g. Safari before 18.4)
+type SinkCapable = { setSinkId(deviceId: string): Promise<void> };
+
+export const isSpeakerSelectionSupported = () =>
+  typeof HTMLMediaElement !== 'undefined' && 'setSinkId' in HTMLMediaElement.prototype;
+
+// Route an element's (or AudioContext's) output to a speaker; null is the system default
+export const applySpeaker = async (target: HTMLMediaElement | AudioContext, deviceId: string | null) => {
+  if (!('setSinkId' in target)) return;
+  try {
+    await (target as unknown as SinkCapable).setSinkId(deviceId ?? '');
+  } catch (err) {
+    console.warn('Could not switch speaker:', err);
+  }
+};
@@ -0,0 +1,44 @@
+// src/webrtc/emitter.ts
+//
+// Minimal typed event emitter used by the session engines.
+// Events are declared as a map of event name -> listener argument tuple.
+
+type Listener<Args extends unknown[]> = (...args: Args) => void;
+type AnyListener = Listener<unknown[]>;
+
+export class TypedEmitter<Events extends { [K in keyof Events]: unknown[] }> {
+  private listeners = new Map<keyof Events, Set<AnyListener>>();
+
+  // Subscribe to an event. Returns an unsubscribe function.
+  on<K extends keyof Events>(event: K, listener: Listener<Events[K]>): () => void {
+    let set = this.listeners.get(event);
+    if (!set) {
+      set = new Set();
+      this.listeners.set(event, set);
+    }
+    set.add(listener as unknown as AnyListener);
+    return () => this.off(event, listener);
+  }
+
+  off<K extends keyof Events>(event: K, listener: Listener<Events[K]>): void {
+    this.listeners.get(event)?.delete(listener as unknown as AnyListener);
+  }
+
+  removeAllListeners(): void {
+    this.listeners.clear();
+  }
+
+  protected emit<K extends keyof Events>(event: K, ...args: Events[K]): void {
+    const set = this.listeners.get(event);
+    if (!set) return;
+
+    // Copy so listeners can unsubscribe while being notified
+    [...set].forEach((listener) => {
+      try {
+        listener(...args);
+      } catch (err) {
+        console.error(`Error in "${String(event)}" listener:`, err);
+      }
+    });
+  }
+}
@@ -0,0 +1,122 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { GroupAudioMixer } from '@/webrtc/groupAudio';
+import { FakeAudioContext, FakeGainNode } from '@/webrtc/testing/fakeAudioContext';
+
+// Stands in for a viewer's mic stream, tagged with whose it is
+const micStream = (viewerId: string) => ({ id: viewerId }) as unknown as MediaStream;
+
+describe('GroupAudioMixer', () => {
+  let context: FakeAudioContext;
+  let mixer: GroupAudioMixer;
+
+  // Viewers whose mic is currently mixed into this viewer's output
+  const heardBy = (viewerId: string) => {
+    const track = mixer.getOutputTrack(viewerId);
+    const destination = context.destinations.find((candidate) => candidate.track === track);
+    return context.sources
+      .filter((source) => [...source.outputs].some((gain) => gain.outputs.has(destination!)))
+      .map((source) => source.mediaStream.id)
+      .sort();
+  };
+
+  const gainOf = (viewerId: string) => {
+    const sources = context.sources.filter((source) => source.mediaStream.id === viewerId);
+    return [...sources[sources.length - 1].outputs][0] as FakeGainNode;
+  };
+
+  beforeEach(() => {
+    // The mixer keeps remote streams attached to a muted element
+    vi.stubGlobal(
+      'Audio',
+      class {
+        muted = false;
+        srcObject: MediaStream | null = null;
+        play = () => Promise.resolve();
+      }
+    );
+    context = new FakeAudioContext();
+    mixer = new GroupAudioMixer(() => context as unknown as AudioContext);
+  });
+
+  afterEach(() => {
+    mixer.dispose();
+    vi.unstubAllGlobals();
+  });
+
+  it('sends each viewer everyone but themselves', () => {
+    ['a', 'b', 'c'].forEach((viewerId) => mixer.getOutputTrack(viewerId));
+    ['a', 'b', 'c'].forEach((viewerId) => mixer.addInput(viewerId, micStream(viewerId)));
+
+    expect(heardBy('a')).toEqual(['b', 'c']);
+    expect(heardBy('b')).toEqual(['a', 'c']);
+    expect(heardBy('c')).toEqual(['a', 'b']);
+  });
+
+  it('leaves a viewer out of their own mix whichever joins first', () => {
+    mixer.addInput('a', micStream('a'));
+    mixer.addInput('b', micStream('b'));
+    mixer.getOutputTrack('a');
+    mixer.getOutputTrack('b');
+    mixer.addInput('c', micStream('c'));
+    mixer.getOutputTrack('c');
+
+    expect(heardBy('a')).toEqual(['b', 'c']);
+    expect(heardBy('b')).toEqual(['a', 'c']);
+    expect(heardBy('c')).toEqual(['a', 'b']);
+  });
+
+  it('reuses the output track for a viewer', () => {
+    expect(mixer.getOutputTrack('a')).toBe(mixer.getOutputTrack('a'));
+    expect(context.destinations).toHaveLength(1);
+  });
+
+  it('disconnects a removed viewer from every other mix', () => {
+    ['a', 'b', 'c'].forEach((viewerId) => {
+      mixer.getOutputTrack(viewerId);
+      mixer.addInput(viewerId, micStream(viewerId));
+    });
+    const gain = gainOf('b');
+
+    mixer.removeInput('b');
+
+    expect(gain.outputs.size).toBe(0);
+    expect(heardBy('a')).toEqual(['c']);
+    expect(heardBy('c')).toEqual(['a']);
+  });
+
+  it('stops feeding the mix of a viewer that left', () => {
+    ['a', 'b'].forEach((viewerId) => {
+      mixer.getOutputTrack(viewerId);
+      mixer.addInput(viewerId, micStream(viewerId));
+    });
+    const output = context.destinations[1];
+
+    mixer.removeOutput('b');
+
+    expect(gainOf('a').outputs.has(output)).toBe(false);
+  });
+
+  it('replaces a viewer input without doubling it', () => {
+    mixer.getOutputTrack('a');
+    mixer.addInput('b', micStream('b'));
+    const firstGain = gainOf('b');
+
+    mixer.addInput('b', micStream('b'));
+
+    expect(firstGain.outputs.size).toBe(0);
+    expect(heardBy('a')).toEqual(['b']);
+  });
+
+  it('silences muted viewers, including ones that join muted', () => {
+    mixer.addInput('a', micStream('a'));
+    mixer.setMuted('a', true);
+    expect(gainOf('a').gain.value).toBe(0);
+
+    mixer.setMuted('b', true);
+    mixer.addInput('b', micStream('b'));
+    expect(gainOf('b').gain.value).toBe(0);
+
+    mixer.setMuted('a', false);
+    expect(gainOf('a').gain.value).toBe(1);
+  });
+});
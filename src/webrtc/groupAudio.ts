@@ -0,0 +1,124 @@
+// src/webrtc/groupAudio.ts
+//
+// Lets viewers hear each other, not just the presenter. Every viewer mic
+// feeds one mix per viewer that leaves out that viewer's own voice (N-1);
+// the presenter sends it back on the viewer's screen share call. A viewer's
+// mix track lasts until they leave, so mics coming and going only rewires
+// the graph and nobody has to be called again.
+
+import type { CreateAudioContext } from '@/webrtc/audioMixer';
+
+interface GroupInput {
+  source: MediaStreamAudioSourceNode;
+  gain: GainNode;
+  // Chrome only feeds remote WebRTC audio into Web Audio while the stream
+  // is also attached to a media element
+  sink: HTMLAudioElement;
+}
+
+const defaultCreateAudioContext: CreateAudioContext = () => new AudioContext();
+
+export class GroupAudioMixer {
+  private readonly createContext: CreateAudioContext;
+  private context: AudioContext | null = null;
+  private inputs = new Map<string, GroupInput>();
+  private outputs = new Map<string, MediaStreamAudioDestinationNode>();
+  private mutedIds = new Set<string>();
+
+  constructor(createContext: CreateAudioContext = defaultCreateAudioContext) {
+    this.createContext = createContext;
+  }
+
+  // Track with everyone but this viewer; null if Web Audio is unavailable
+  getOutputTrack(viewerId: string): MediaStreamTrack | null {
+    let output = this.outputs.get(viewerId);
+    if (!output) {
+      try {
+        output = this.getContext().createMediaStreamDestination();
+      } catch (err) {
+        console.warn('Group audio unavailable:', err);
+        return null;
+      }
+      const destination = output;
+      this.outputs.set(viewerId, destination);
+      this.inputs.forEach((input, id) => {
+        if (id !== viewerId) input.gain.connect(destination);
+      });
+    }
+    return output.stream.getAudioTracks()[0] ?? null;
+  }
+
+  // The viewer left; its mix is no longer sent anywhere
+  removeOutput(viewerId: string) {
+    const output = this.outputs.get(viewerId);
+    if (!output) return;
+
+    this.outputs.delete(viewerId);
+    this.inputs.forEach((input, id) => {
+      if (id !== viewerId) input.gain.disconnect(output);
+    });
+    output.stream.getTracks().forEach((track) => track.stop());
+  }
+
+  // Mix a viewer's mic into everyone else's output, replacing any earlier stream
+  addInput(viewerId: string, stream: MediaStream) {
+    this.removeInput(viewerId);
+    try {
+      const context = this.getContext();
+      const sink = new Audio();
+      sink.muted = true;
+      sink.srcObject = stream;
+      sink.play().catch(() => {});
+
+      const source = context.createMediaStreamSource(stream);
+      const gain = context.createGain();
+      gain.gain.value = this.mutedIds.has(viewerId) ? 0 : 1;
+      source.connect(gain);
+      this.outputs.forEach((output, id) => {
+        if (id !== viewerId) gain.connect(output);
+      });
+      this.inputs.set(viewerId, { source, gain, sink });
+    } catch (err) {
+      console.warn('Could not add viewer to group audio:', err);
+    }
+  }
+
+  removeInput(viewerId: string) {
+    const input = this.inputs.get(viewerId);
+    if (!input) return;
+
+    this.inputs.delete(viewerId);
+    input.source.disconnect();
+    input.gain.disconnect();
+    input.sink.srcObject = null;
+  }
+
+  // Viewers muted by the presenter are left out of every mix
+  setMuted(viewerId: string, muted: boolean) {
+    if (muted) {
+      this.mutedIds.add(viewerId);
+    } else {
+      this.mutedIds.delete(viewerId);
+    }
+    const gain = this.inputs.get(viewerId)?.gain;
+    gain?.gain.setTargetAtTime(muted ? 0 : 1, gain.context.currentTime, 0.02);
+  }
+
+  dispose() {
+    [...this.inputs.keys()].forEach((viewerId) => this.removeInput(viewerId));
+    [...this.outputs.keys()].forEach((viewerId) => this.removeOutput(viewerId));
+    this.context?.close().catch((err) => console.warn('Error closing group audio context:', err));
+    this.context = null;
+  }
+
+  private getContext() {
+    if (!this.context) {
+      this.context = this.createContext();
+      // Some browsers start contexts suspended until a user gesture
+      if (this.context.state === 'suspended') {
+        this.context.resume().catch((err) => console.warn('Could not resume group audio:', err));
+      }
+    }
+    return this.context;
+  }
+}
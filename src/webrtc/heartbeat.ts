@@ -0,0 +1,88 @@
+// src/webrtc/heartbeat.ts
+//
+// Ping/pong liveness check for a DataConnection. PeerJS only reports a
+// closed connection once WebRTC notices, which after an abrupt network
+// loss can take minutes.
+
+import { TypedEmitter } from '@/webrtc/emitter';
+import { DataMessageOf } from '@/webrtc/protocol';
+
+export interface HeartbeatOptions {
+  intervalMs: number;
+  // Silence longer than this means the other side is gone
+  timeoutMs: number;
+}
+
+export const defaultHeartbeatOptions: HeartbeatOptions = {
+  intervalMs: 5000,
+  timeoutMs: 15000,
+};
+
+export interface HeartbeatEvents {
+  'rtt': [rttMs: number];
+  'timeout': [];
+}
+
+export class Heartbeat extends TypedEmitter<HeartbeatEvents> {
+  private readonly options: HeartbeatOptions;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private lastSeen = 0;
+  private nextPingId = 1;
+  // Ping ID -> time it was sent
+  private pending = new Map<number, number>();
+
+  constructor(
+    private readonly sendPing: (ping: DataMessageOf<'ping'>) => void,
+    options: Partial<HeartbeatOptions> = {}
+  ) {
+    super();
+    this.options = { ...defaultHeartbeatOptions, ...options };
+  }
+
+  start() {
+    if (this.timer) return;
+    this.lastSeen = Date.now();
+    this.timer = setInterval(() => this.tick(), this.options.intervalMs);
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.pending.clear();
+  }
+
+  // Any message from the other side counts as a sign of life
+  markAlive() {
+    this.lastSeen = Date.now();
+  }
+
+  handlePong(pong: DataMessageOf<'pong'>) {
+    this.markAlive();
+
+    const sentAt = this.pending.get(pong.id);
+    if (sentAt === undefined) return;
+    this.pending.delete(pong.id);
+    this.emit('rtt', Date.now() - sentAt);
+  }
+
+  private tick() {
+    const now = Date.now();
+
+    if (now - this.lastSeen > this.options.timeoutMs) {
+      this.stop();
+      this.emit('timeout');
+      return;
+    }
+
+    // Forget pings that will never be answered
+    this.pending.forEach((sentAt, id) => {
+      if (now - sentAt > this.options.timeoutMs) this.pending.delete(id);
+    });
+
+    const id = this.nextPingId++;
+    this.pending.set(id, now);
+    this.sendPing({ type: 'ping', id });
+  }
+}
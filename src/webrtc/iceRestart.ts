@@ -0,0 +1,54 @@
+// src/webrtc/iceRestart.ts
+//
+// ICE restarts for PeerJS media calls. PeerJS drops offers for an existing
+// connection, so the offer/answer is exchanged over our data channel instead.
+// Descriptions are sent only after gathering completes so they carry every
+// candidate; PeerJS may have stopped trickling candidates by then.
+
+const GATHERING_TIMEOUT_MS = 5000;
+
+// Resolve once ICE gathering is complete, or after a timeout with whatever was gathered
+export const waitForIceGathering = (peerConnection: RTCPeerConnection, timeoutMs = GATHERING_TIMEOUT_MS) =>
+  new Promise<void>((resolve) => {
+    if (peerConnection.iceGatheringState === 'complete') {
+      resolve();
+      return;
+    }
+
+    const done = () => {
+      clearTimeout(timer);
+      peerConnection.removeEventListener('icegatheringstatechange', onChange);
+      resolve();
+    };
+    const onChange = () => {
+      if (peerConnection.iceGatheringState === 'complete') done();
+    };
+    const timer = setTimeout(done, timeoutMs);
+    peerConnection.addEventListener('icegatheringstatechange', onChange);
+  });
+
+// Presenter side: create an offer with fresh ICE credentials
+export const createIceRestartOffer = async (peerConnection: RTCPeerConnection) => {
+  const offer = await peerConnection.createOffer({ iceRestart: true });
+  await peerConnection.setLocalDescription(offer);
+  await waitForIceGathering(peerConnection);
+  return peerConnection.localDescription?.sdp ?? offer.sdp;
+};
+
+// Viewer side: apply the restart offer and produce the answer
+export const answerIceRestartOffer = async (peerConnection: RTCPeerConnection, sdp: string) => {
+  await peerConnection.setRemoteDescription({ type: 'offer', sdp });
+  const answer = await peerConnection.createAnswer();
+  await peerConnection.setLocalDescription(answer);
+  await waitForIceGathering(peerConnection);
+  return peerConnection.localDescription?.sdp ?? answer.sdp;
+};
+
+// Presenter side: complete the restart with the viewer's answer
+export const applyIceRestartAnswer = async (peerConnection: RTCPeerConnection, sdp: string) => {
+  if (peerConnection.signalingState !== 'have-local-offer') {
+    console.warn('Ignoring ICE restart answer in signaling state', peerConnection.signalingState);
+    return;
+  }
+  await peerConnection.setRemoteDescription({ type: 'answer', sdp });
+};
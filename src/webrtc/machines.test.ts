@@ -0,0 +1,135 @@
+import { describe, expect, it } from 'vitest';
+import {
+  PresenterEvent,
+  presenterMachine,
+  PresenterStatus,
+  ViewerEvent,
+  viewerMachine,
+  ViewerStatus,
+} from '@/webrtc/machines';
+import { MachineDefinition, resolveTransition, Transition } from '@/webrtc/stateMachine';
+
+const presenterStates: PresenterStatus[] = ['idle', 'connecting', 'ready', 'sharing', 'ended', 'error'];
+const presenterEvents: PresenterEvent[] = [
+  'CONNECT',
+  'PEER_OPEN',
+  'SHARE_STARTED',
+  'SHARE_STOPPED',
+  'MEETING_ENDED',
+  'RESTART',
+  'FAIL',
+];
+
+// Every legal transition with a stream present; anything missing must be rejected
+const presenterTransitions: Record<PresenterStatus, Partial<Record<PresenterEvent, PresenterStatus>>> = {
+  idle: { CONNECT: 'connecting' },
+  connecting: { PEER_OPEN: 'ready', SHARE_STARTED: 'sharing', FAIL: 'error' },
+  ready: { PEER_OPEN: 'ready', SHARE_STARTED: 'sharing', MEETING_ENDED: 'ended', FAIL: 'error' },
+  sharing: { PEER_OPEN: 'sharing', SHARE_STOPPED: 'ready', MEETING_ENDED: 'ended', FAIL: 'error' },
+  ended: { PEER_OPEN: 'ended', SHARE_STARTED: 'sharing', RESTART: 'ready', FAIL: 'error' },
+  error: { CONNECT: 'connecting', SHARE_STARTED: 'sharing', FAIL: 'error' },
+};
+
+const viewerStates: ViewerStatus[] = ['connecting', 'waiting', 'receiving', 'ended', 'error', 'left'];
+const viewerEvents: ViewerEvent[] = [
+  'PEER_OPEN',
+  'PRESENTER_UNAVAILABLE',
+  'STREAM_RECEIVED',
+  'STREAM_CLOSED',
+  'PRESENTER_LOST',
+  'MEETING_ENDED',
+  'REJOIN',
+  'LEAVE',
+  'FAIL',
+];
+
+const viewerTransitions: Record<ViewerStatus, Partial<Record<ViewerEvent, ViewerStatus>>> = {
+  connecting: { PEER_OPEN: 'waiting', PRESENTER_UNAVAILABLE: 'waiting', LEAVE: 'left', FAIL: 'error' },
+  waiting: {
+    PEER_OPEN: 'waiting',
+    PRESENTER_UNAVAILABLE: 'waiting',
+    PRESENTER_LOST: 'waiting',
+    STREAM_RECEIVED: 'receiving',
+    STREAM_CLOSED: 'waiting',
+    MEETING_ENDED: 'ended',
+    LEAVE: 'left',
+    FAIL: 'error',
+  },
+  receiving: {
+    PEER_OPEN: 'receiving',
+    STREAM_RECEIVED: 'receiving',
+    STREAM_CLOSED: 'waiting',
+    PRESENTER_LOST: 'waiting',
+    MEETING_ENDED: 'ended',
+    LEAVE: 'left',
+    FAIL: 'error',
+  },
+  ended: { REJOIN: 'connecting', LEAVE: 'left' },
+  error: { LEAVE: 'left' },
+  left: { REJOIN: 'connecting' },
+};
+
+const cases = <S extends string, E extends string>(
+  states: S[],
+  events: E[],
+  table: Record<S, Partial<Record<E, S>>>
+) => states.flatMap((state) => events.map((event) => [state, event, table[state][event] ?? null] as const));
+
+// States reachable from the initial one, ignoring guards
+const reachableStates = <S extends string, E extends string, C>(definition: MachineDefinition<S, E, C>) => {
+  const seen = new Set<S>([definition.initial]);
+  const queue = [definition.initial];
+  while (queue.length > 0) {
+    const state = queue.shift() as S;
+    const transitions = Object.values(definition.states[state].on ?? {}) as Transition<S, C>[];
+    transitions.forEach((transition) => {
+      const target = typeof transition === 'string' ? transition : transition.target;
+      if (!seen.has(target)) {
+        seen.add(target);
+        queue.push(target);
+      }
+    });
+  }
+  return seen;
+};
+
+describe('presenterMachine', () => {
+  it.each(cases(presenterStates, presenterEvents, presenterTransitions))(
+    '%s + %s -> %s',
+    (state, event, expected) => {
+      expect(resolveTransition(presenterMachine, state, event, { hasStream: true })).toBe(expected);
+    }
+  );
+
+  it.each(presenterStates)('does not start sharing from %s without a stream', (state) => {
+    expect(resolveTransition(presenterMachine, state, 'SHARE_STARTED', { hasStream: false })).toBeNull();
+  });
+
+  it('reaches every state', () => {
+    expect([...reachableStates(presenterMachine)].sort()).toEqual([...presenterStates].sort());
+  });
+
+  it('can leave every state', () => {
+    presenterStates.forEach((state) => {
+      const exits = Object.values(presenterTransitions[state]).filter((target) => target !== state);
+      expect(exits.length, state).toBeGreaterThan(0);
+    });
+  });
+});
+
+describe('viewerMachine', () => {
+  it.each(cases(viewerStates, viewerEvents, viewerTransitions))('%s + %s -> %s', (state, event, expected) => {
+    expect(resolveTransition(viewerMachine, state, event, undefined)).toBe(expected);
+  });
+
+  it('reaches every state', () => {
+    expect([...reachableStates(viewerMachine)].sort()).toEqual([...viewerStates].sort());
+  });
+
+  it('can leave every state', () => {
+    viewerStates.forEach((state) => {
+      const exits = Object.values(viewerTransitions[state]).filter((target) => target !== state);
+      expect(exits.length, state).toBeGreaterThan(0);
+    });
+  });
+});
@@ -0,0 +1,134 @@
+// src/webrtc/machines.ts
+//
+// Lifecycle definitions for the presenter and viewer sessions.
+
+import { MachineDefinition } from '@/webrtc/stateMachine';
+
+export type PresenterStatus = 'idle' | 'connecting' | 'ready' | 'sharing' | 'ended' | 'error';
+
+export type PresenterEvent =
+  | 'CONNECT'
+  | 'PEER_OPEN'
+  | 'SHARE_STARTED'
+  | 'SHARE_STOPPED'
+  | 'MEETING_ENDED'
+  | 'RESTART'
+  | 'FAIL';
+
+export interface PresenterMachineContext {
+  hasStream: boolean;
+}
+
+export const presenterMachine: MachineDefinition<PresenterStatus, PresenterEvent, PresenterMachineContext> = {
+  id: 'presenter',
+  initial: 'idle',
+  states: {
+    idle: {
+      on: { CONNECT: 'connecting' },
+    },
+    // Sharing can start before the signalling server answers
+    connecting: {
+      on: {
+        PEER_OPEN: 'ready',
+        SHARE_STARTED: { target: 'sharing', guard: (ctx) => ctx.hasStream },
+        FAIL: 'error',
+      },
+    },
+    ready: {
+      on: {
+        PEER_OPEN: 'ready',
+        SHARE_STARTED: { target: 'sharing', guard: (ctx) => ctx.hasStream },
+        MEETING_ENDED: 'ended',
+        FAIL: 'error',
+      },
+    },
+    sharing: {
+      on: {
+        PEER_OPEN: 'sharing',
+        SHARE_STOPPED: 'ready',
+        MEETING_ENDED: 'ended',
+        FAIL: 'error',
+      },
+    },
+    ended: {
+      on: {
+        PEER_OPEN: 'ended',
+        SHARE_STARTED: { target: 'sharing', guard: (ctx) => ctx.hasStream },
+        RESTART: 'ready',
+        FAIL: 'error',
+      },
+    },
+    error: {
+      on: {
+        CONNECT: 'connecting',
+        SHARE_STARTED: { target: 'sharing', guard: (ctx) => ctx.hasStream },
+        FAIL: 'error',
+      },
+    },
+  },
+};
+
+export type ViewerStatus = 'connecting' | 'waiting' | 'receiving' | 'ended' | 'error' | 'left';
+
+export type ViewerEvent =
+  | 'PEER_OPEN'
+  | 'PRESENTER_UNAVAILABLE'
+  | 'STREAM_RECEIVED'
+  | 'STREAM_CLOSED'
+  | 'PRESENTER_LOST'
+  | 'MEETING_ENDED'
+  | 'REJOIN'
+  | 'LEAVE'
+  | 'FAIL';
+
+export const viewerMachine: MachineDefinition<ViewerStatus, ViewerEvent> = {
+  id: 'viewer',
+  initial: 'connecting',
+  states: {
+    connecting: {
+      on: {
+        PEER_OPEN: 'waiting',
+        PRESENTER_UNAVAILABLE: 'waiting',
+        LEAVE: 'left',
+        FAIL: 'error',
+      },
+    },
+    // Connected to the signalling server; the presenter is offline or not sharing
+    waiting: {
+      on: {
+        // The signalling server came back after a drop
+        PEER_OPEN: 'waiting',
+        PRESENTER_UNAVAILABLE: 'waiting',
+        PRESENTER_LOST: 'waiting',
+        STREAM_RECEIVED: 'receiving',
+        STREAM_CLOSED: 'waiting',
+        MEETING_ENDED: 'ended',
+        LEAVE: 'left',
+        FAIL: 'error',
+      },
+    },
+    receiving: {
+      on: {
+        PEER_OPEN: 'receiving',
+        STREAM_RECEIVED: 'receiving',
+        STREAM_CLOSED: 'waiting',
+        PRESENTER_LOST: 'waiting',
+        MEETING_ENDED: 'ended',
+        LEAVE: 'left',
+        FAIL: 'error',
+      },
+    },
+    ended: {
+      on: {
+        REJOIN: 'connecting',
+        LEAVE: 'left',
+      },
+    },
+    error: {
+      on: { LEAVE: 'left' },
+    },
+    left: {
+      on: { REJOIN: 'connecting' },
+    },
+  },
+};
@@ -0,0 +1,78 @@
+// src/webrtc/mediaTracks.ts
+//
+// Tells the presenter's screen, camera and extra sources apart in a
+// received call. The presenter announces track IDs over the data channel;
+// browsers that do not keep the sender's IDs fall back to track order,
+// which follows the announcement (screen first, then camera, then sources).
+// The group audio mix, when sent, is the audio track after the presenter's.
+
+// Source ID of the main shared screen; extra sources get generated IDs
+export const SCREEN_SOURCE_ID = 'screen';
+
+export interface SourceTrackId {
+  id: string;
+  trackId: string;
+}
+
+export interface MediaTrackIds {
+  screen: string;
+  camera: string | null;
+  sources: SourceTrackId[];
+  // Other viewers' voices; null when the room has group audio off
+  groupAudio: string | null;
+}
+
+export interface RemoteSource {
+  id: string;
+  stream: MediaStream;
+}
+
+export interface RemoteMedia {
+  // Screen video with the presenter's audio
+  screenStream: MediaStream;
+  cameraStream: MediaStream | null;
+  sourceStreams: RemoteSource[];
+  groupAudioStream: MediaStream | null;
+}
+
+export const splitRemoteStream = (stream: MediaStream, trackIds: MediaTrackIds | null): RemoteMedia => {
+  const videoTracks = stream.getVideoTracks();
+  const audioTracks = stream.getAudioTracks();
+
+  // Without an announcement (older presenter) the call only carries the screen
+  if (!trackIds) {
+    const screenStream = videoTracks.length <= 1 ? stream : new MediaStream([videoTracks[0], ...audioTracks]);
+    return { screenStream, cameraStream: null, sourceStreams: [], groupAudioStream: null };
+  }
+
+  const announced = [trackIds.screen, trackIds.camera, ...trackIds.sources.map((source) => source.trackId)];
+  const unmatched = videoTracks.filter((track) => !announced.includes(track.id));
+  // Resolve in announcement order so order-based fallback lines up
+  const resolve = (trackId: string) => videoTracks.find((track) => track.id === trackId) ?? unmatched.shift();
+
+  const screen = resolve(trackIds.screen);
+  const camera = trackIds.camera !== null ? resolve(trackIds.camera) : undefined;
+  const sourceStreams: RemoteSource[] = [];
+  trackIds.sources.forEach(({ id, trackId }) => {
+    const track = resolve(trackId);
+    if (track) sourceStreams.push({ id, stream: new MediaStream([track]) });
+  });
+
+  const groupAudio =
+    trackIds.groupAudio !== null
+      ? audioTracks.find((track) => track.id === trackIds.groupAudio) ??
+        (audioTracks.length > 1 ? audioTracks[audioTracks.length - 1] : undefined)
+      : undefined;
+  const presenterAudio = audioTracks.filter((track) => track !== groupAudio);
+  const groupAudioStream = groupAudio ? new MediaStream([groupAudio]) : null;
+
+  if (!camera && sourceStreams.length === 0 && !groupAudio && videoTracks.length <= 1) {
+    return { screenStream: stream, cameraStream: null, sourceStreams, groupAudioStream };
+  }
+  return {
+    screenStream: new MediaStream(screen ? [screen, ...presenterAudio] : presenterAudio),
+    cameraStream: camera ? new MediaStream([camera]) : null,
+    sourceStreams,
+    groupAudioStream,
+  };
+};
@@ -0,0 +1,166 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ConnectionSettings, DEFAULT_ICE_SERVERS, PeerConfigEnv, PeerConfigStore } from '@/webrtc/peerConfig';
+import type { StorageLike } from '@/webrtc/sessionPersistence';
+
+const ENV_SERVERS = [{ urls: 'stun:stun.env.example.com' }];
+const ENDPOINT_SERVERS = [{ urls: 'turn:turn.endpoint.example.com', username: 'u', credential: 'c' }];
+const SETTINGS_SERVERS = [{ urls: 'turn:turn.settings.example.com', username: 'u', credential: 'c' }];
+
+const createMemoryStorage = (settings?: ConnectionSettings): StorageLike => {
+  const items = new Map<string, string>();
+  if (settings) items.set('connection-settings', JSON.stringify(settings));
+  return {
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => items.set(key, value),
+    removeItem: (key) => items.delete(key),
+  };
+};
+
+const jsonResponse = (body: unknown, status = 200) =>
+  ({ ok: status >= 200 && status < 300, status, json: async () => body }) as Response;
+
+describe('PeerConfigStore', () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  const createStore = (env: PeerConfigEnv, settings?: ConnectionSettings) =>
+    new PeerConfigStore({ env, storage: createMemoryStorage(settings), fetch: fetchMock as unknown as typeof fetch });
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    fetchMock = vi.fn(async () => jsonResponse({ iceServers: ENDPOINT_SERVERS }));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  describe('source order', () => {
+    const env: PeerConfigEnv = {
+      VITE_ICE_SERVERS: JSON.stringify(ENV_SERVERS),
+      VITE_ICE_CONFIG_URL: 'https://env.example.com/ice',
+    };
+
+    it('prefers ICE servers saved in the settings', async () => {
+      const snapshot = await createStore(env, { iceServers: SETTINGS_SERVERS }).load();
+
+      expect(snapshot.source).toBe('settings');
+      expect(snapshot.iceServers).toEqual(SETTINGS_SERVERS);
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it('prefers a config URL saved in the settings over the env one', async () => {
+      const snapshot = await createStore(env, { configUrl: 'https://settings.example.com/ice' }).load();
+
+      expect(snapshot.source).toBe('settings');
+      expect(snapshot.iceServers).toEqual(ENDPOINT_SERVERS);
+      expect(fetchMock).toHaveBeenCalledWith('https://settings.example.com/ice', { credentials: 'include' });
+    });
+
+    it('prefers the env config endpoint over env ICE servers', async () => {
+      const snapshot = await createStore(env).load();
+
+      expect(snapshot.source).toBe('endpoint');
+      expect(snapshot.iceServers).toEqual(ENDPOINT_SERVERS);
+      expect(fetchMock).toHaveBeenCalledWith('https://env.example.com/ice', { credentials: 'include' });
+    });
+
+    it('adds TURN credentials from the env secret to the env servers', async () => {
+      const snapshot = await createStore({
+        VITE_ICE_SERVERS: JSON.stringify(ENV_SERVERS),
+        VITE_TURN_URLS: 'turn:turn.env.example.com, turns:turn.env.example.com:5349',
+        VITE_TURN_SECRET: 'north-secret',
+        VITE_TURN_TTL: '600',
+      }).load();
+
+      expect(snapshot.source).toBe('env');
+      expect(snapshot.iceServers).toEqual([
+        ...ENV_SERVERS,
+        {
+          urls: ['turn:turn.env.example.com', 'turns:turn.env.example.com:5349'],
+          username: expect.stringMatching(/^\d+:screenshare$/),
+          credential: expect.any(String),
+        },
+      ]);
+      expect(snapshot.expiresAt).toBe(Date.now() + 600 * 1000);
+    });
+
+    it('uses env ICE servers on their own', async () => {
+      const snapshot = await createStore({ VITE_ICE_SERVERS: JSON.stringify(ENV_SERVERS) }).load();
+
+      expect(snapshot.source).toBe('env');
+      expect(snapshot.iceServers).toEqual(ENV_SERVERS);
+    });
+
+    it('falls back to public STUN with nothing configured', async () => {
+      const snapshot = await createStore({}).load();
+
+      expect(snapshot.source).toBe('default');
+      expect(snapshot.iceServers).toEqual(DEFAULT_ICE_SERVERS);
+      expect(snapshot.error).toBeNull();
+    });
+
+    it('lets settings override the env PeerServer field by field', async () => {
+      const snapshot = await createStore(
+        { VITE_PEER_HOST: 'peer.env.example.com', VITE_PEER_PORT: '9000', VITE_PEER_SECURE: 'true' },
+        { peerServer: { host: 'peer.settings.example.com', path: '' } }
+      ).load();
+
+      expect(snapshot.peerOptions).toMatchObject({ host: 'peer.settings.example.com', port: 9000, secure: true });
+      expect(snapshot.peerOptions).not.toHaveProperty('path');
+    });
+  });
+
+  describe('refresh', () => {
+    const env: PeerConfigEnv = { VITE_ICE_CONFIG_URL: 'https://env.example.com/ice' };
+
+    it('refreshes credentials at 80% of their lifetime', async () => {
+      fetchMock.mockImplementation(async () => jsonResponse({ iceServers: ENDPOINT_SERVERS, ttl: 100 }));
+      const store = createStore(env);
+      await store.load();
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+
+      await vi.advanceTimersByTimeAsync(79 * 1000);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it('keeps the same peer options object across a refresh', async () => {
+      fetchMock.mockImplementation(async () => jsonResponse({ iceServers: ENDPOINT_SERVERS, ttl: 100 }));
+      const store = createStore(env);
+      const { peerOptions } = await store.load();
+      fetchMock.mockImplementation(async () => jsonResponse({ iceServers: SETTINGS_SERVERS, ttl: 100 }));
+
+      await vi.advanceTimersByTimeAsync(80 * 1000);
+
+      expect(store.getSnapshot().peerOptions).toBe(peerOptions);
+      expect(peerOptions?.config?.iceServers).toEqual(SETTINGS_SERVERS);
+    });
+
+    it('does not refresh credentials that never expire', async () => {
+      const store = createStore(env);
+      await store.load();
+
+      await vi.advanceTimersByTimeAsync(24 * 60 * 60 * 1000);
+
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('falls back to the defaults and retries after an endpoint error', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      fetchMock.mockImplementationOnce(async () => jsonResponse({}, 503));
+      const store = createStore(env);
+
+      const snapshot = await store.load();
+      expect(snapshot.source).toBe('default');
+      expect(snapshot.error).toBe('ICE config endpoint returned 503');
+
+      await vi.advanceTimersByTimeAsync(60 * 1000);
+      expect(store.getSnapshot().source).toBe('endpoint');
+      expect(store.getSnapshot().error).toBeNull();
+    });
+  });
+});
@@ -1,18 +1,374 @@
 // src/webrtc/peerConfig.ts
+//
+// Runtime PeerJS configuration: which PeerServer to signal through and
+// which ICE (STUN/TURN) servers to use. Resolved, in order of precedence,
+// from the settings UI (localStorage), a JSON config endpoint, build-time
+// environment variables, and finally a public STUN server.
 
-export const peerConfig = {
-  config: {
-    iceServers: [
-      { urls: "stun:stun.l.google.com:19302" },
-      {
-        urls: [
-          "turn:relay1.expressturn.com:3480?transport=udp",
-          "turn:relay1.expressturn.com:3480?transport=tcp",
-          "turns:relay1.expressturn.com:443?transport=tcp",
-        ],
-        username: "000000002081507669",
-        credential: "mkAGOHY8zB1KkBTF8rKzFgPgEkM=",
-      },
-    ],
-  },
+import Peer, { PeerOptions } from 'peerjs';
+import { TypedEmitter } from '@/webrtc/emitter';
+import { createTurnRestCredentials, isTurnRestResponse, turnRestToIceServer } from '@/webrtc/turnCredentials';
+
+export interface PeerServerSettings {
+  host?: string;
+  port?: number;
+  path?: string;
+  secure?: boolean;
+  key?: string;
+}
+
+// Overrides entered in the settings UI
+export interface ConnectionSettings {
+  iceServers?: RTCIceServer[];
+  configUrl?: string;
+  peerServer?: PeerServerSettings;
+}
+
+export type IceConfigSource = 'settings' | 'endpoint' | 'env' | 'default';
+
+export interface PeerConfigSnapshot {
+  status: 'loading' | 'ready';
+  // Stable between ICE refreshes; only replaced when the PeerServer changes
+  peerOptions: PeerOptions | null;
+  iceServers: RTCIceServer[];
+  source: IceConfigSource;
+  // When the current TURN credentials expire, if they do
+  expiresAt: number | null;
+  error: string | null;
+}
+
+export interface PeerConfigStoreEvents {
+  'change': [snapshot: PeerConfigSnapshot];
+}
+
+export interface PeerConfigEnv {
+  VITE_ICE_SERVERS?: string;
+  VITE_ICE_CONFIG_URL?: string;
+  VITE_TURN_URLS?: string;
+  VITE_TURN_SECRET?: string;
+  VITE_TURN_TTL?: string;
+  VITE_PEER_HOST?: string;
+  VITE_PEER_PORT?: string;
+  VITE_PEER_PATH?: string;
+  VITE_PEER_SECURE?: string;
+  VITE_PEER_KEY?: string;
+}
+
+export interface PeerConfigStoreOptions {
+  env?: PeerConfigEnv;
+  storage?: Pick<Storage, 'getItem' | 'setItem' | 'removeItem'> | null;
+  fetch?: typeof fetch;
+}
+
+export const DEFAULT_ICE_SERVERS: RTCIceServer[] = [{ urls: 'stun:stun.l.google.com:19302' }];
+
+const SETTINGS_STORAGE_KEY = 'connection-settings';
+const DEFAULT_TURN_TTL_SECONDS = 3600;
+
+// Refresh TURN credentials once this fraction of their lifetime has passed
+const REFRESH_AT_FRACTION = 0.8;
+const MIN_REFRESH_DELAY_MS = 30 * 1000;
+const RETRY_AFTER_ERROR_MS = 60 * 1000;
+
+interface ResolvedIceConfig {
+  iceServers: RTCIceServer[];
+  source: IceConfigSource;
+  ttlSeconds: number | null;
+}
+
+const isIceServerList = (value: unknown): value is RTCIceServer[] =>
+  Array.isArray(value) &&
+  value.every((server) => {
+    if (typeof server !== 'object' || server === null) return false;
+    const urls = (server as RTCIceServer).urls;
+    return typeof urls === 'string' || (Array.isArray(urls) && urls.every((url) => typeof url === 'string'));
+  });
+
+// Parse a JSON array of RTCIceServer, e.g. from an env variable or the settings form
+export const parseIceServers = (json: string): RTCIceServer[] => {
+  const parsed: unknown = JSON.parse(json);
+  if (!isIceServerList(parsed)) {
+    throw new Error('Expected a JSON array of ICE servers with "urls"');
+  }
+  return parsed;
+};
+
+const splitList = (value: string | undefined) =>
+  (value ?? '').split(',').map((item) => item.trim()).filter(Boolean);
+
+const peerServerFromEnv = (env: PeerConfigEnv): PeerServerSettings => ({
+  host: env.VITE_PEER_HOST || undefined,
+  port: env.VITE_PEER_PORT ? Number(env.VITE_PEER_PORT) : undefined,
+  path: env.VITE_PEER_PATH || undefined,
+  secure: env.VITE_PEER_SECURE ? env.VITE_PEER_SECURE === 'true' : undefined,
+  key: env.VITE_PEER_KEY || undefined,
+});
+
+// Settings fields override env fields one by one; blank fields fall through
+const mergePeerServer = (base: PeerServerSettings, override: PeerServerSettings = {}): PeerServerSettings => {
+  const merged: PeerServerSettings = { ...base };
+  (Object.keys(override) as (keyof PeerServerSettings)[]).forEach((key) => {
+    if (override[key] !== undefined && override[key] !== '') {
+      (merged as Record<string, unknown>)[key] = override[key];
+    }
+  });
+  return merged;
 };
+
+const createPeerOptions = (server: PeerServerSettings, iceServers: RTCIceServer[]): PeerOptions => {
+  const options: PeerOptions = { config: { iceServers } };
+  if (server.host) options.host = server.host;
+  if (server.port) options.port = server.port;
+  if (server.path) options.path = server.path;
+  if (server.secure !== undefined) options.secure = server.secure;
+  if (server.key) options.key = server.key;
+  return options;
+};
+
+// Point an existing peer (and its open connections) at new ICE servers.
+// New connections pick them up from the peer options; open ones use them
+// on their next ICE restart.
+export const applyIceServers = (peer: Peer, iceServers: RTCIceServer[], peerConnections: RTCPeerConnection[] = []) => {
+  peer.options.config = { ...peer.options.config, iceServers };
+
+  peerConnections.forEach((peerConnection) => {
+    if (peerConnection.connectionState === 'closed') return;
+    try {
+      peerConnection.setConfiguration({ ...peerConnection.getConfiguration(), iceServers });
+    } catch (err) {
+      console.warn('Could not update ICE servers on connection:', err);
+    }
+  });
+};
+
+// Losing or not reaching the signalling server. Calls already connected
+// keep going; the peer is reopened instead of failing the session.
+const SIGNALLING_ERROR_TYPES = new Set(['network', 'disconnected', 'socket-error', 'socket-closed', 'server-error']);
+
+export const isSignallingError = (type: string) => SIGNALLING_ERROR_TYPES.has(type);
+
+export const SIGNALLING_LOST_MESSAGE = 'Lost connection to the server. Reconnecting...';
+
+// True if any server can relay media (TURN), which relay-only mode requires
+export const hasRelayServer = (iceServers: RTCIceServer[] = []) =>
+  iceServers.some((server) => {
+    const urls = Array.isArray(server.urls) ? server.urls : [server.urls];
+    return urls.some((url) => url.startsWith('turn:') || url.startsWith('turns:'));
+  });
+
+// Restrict (or stop restricting) ICE to relay candidates for new and open connections
+export const applyIceTransportPolicy = (
+  peer: Peer,
+  policy: RTCIceTransportPolicy,
+  peerConnections: RTCPeerConnection[] = []
+) => {
+  peer.options.config = { ...peer.options.config, iceTransportPolicy: policy };
+
+  peerConnections.forEach((peerConnection) => {
+    if (peerConnection.connectionState === 'closed') return;
+    try {
+      peerConnection.setConfiguration({ ...peerConnection.getConfiguration(), iceTransportPolicy: policy });
+    } catch (err) {
+      console.warn('Could not update ICE transport policy on connection:', err);
+    }
+  });
+};
+
+const initialSnapshot: PeerConfigSnapshot = {
+  status: 'loading',
+  peerOptions: null,
+  iceServers: DEFAULT_ICE_SERVERS,
+  source: 'default',
+  expiresAt: null,
+  error: null,
+};
+
+export class PeerConfigStore extends TypedEmitter<PeerConfigStoreEvents> {
+  private readonly env: PeerConfigEnv;
+  private readonly storage: PeerConfigStoreOptions['storage'];
+  private readonly fetchImpl: typeof fetch;
+  private snapshot: PeerConfigSnapshot = initialSnapshot;
+  private loading: Promise<PeerConfigSnapshot> | null = null;
+  private refreshTimer: ReturnType<typeof setTimeout> | null = null;
+  private peerServerKey: string | null = null;
+  // Incremented per resolve so a slow, superseded load cannot win
+  private generation = 0;
+
+  constructor(options: PeerConfigStoreOptions = {}) {
+    super();
+    this.env = options.env ?? {};
+    this.storage = options.storage ?? null;
+    this.fetchImpl = options.fetch ?? ((input, init) => fetch(input, init));
+  }
+
+  getSnapshot = (): PeerConfigSnapshot => this.snapshot;
+
+  // useSyncExternalStore-compatible subscription
+  subscribe = (listener: () => void) => this.on('change', listener);
+
+  // Resolve the configuration once; later calls share the first result
+  load(): Promise<PeerConfigSnapshot> {
+    if (!this.loading) {
+      this.loading = this.resolve();
+    }
+    return this.loading;
+  }
+
+  getSettings(): ConnectionSettings {
+    if (!this.storage) return {};
+    try {
+      const raw = this.storage.getItem(SETTINGS_STORAGE_KEY);
+      return raw ? (JSON.parse(raw) as ConnectionSettings) : {};
+    } catch (err) {
+      console.warn('Ignoring unreadable connection settings:', err);
+      return {};
+    }
+  }
+
+  saveSettings(settings: ConnectionSettings) {
+    this.storage?.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+    return this.reload();
+  }
+
+  resetSettings() {
+    this.storage?.removeItem(SETTINGS_STORAGE_KEY);
+    return this.reload();
+  }
+
+  private reload() {
+    this.loading = this.resolve();
+    return this.loading;
+  }
+
+  private async resolve(): Promise<PeerConfigSnapshot> {
+    this.clearRefreshTimer();
+    const generation = ++this.generation;
+
+    const settings = this.getSettings();
+    let resolved: ResolvedIceConfig;
+    let error: string | null = null;
+
+    try {
+      resolved = await this.resolveIceServers(settings);
+    } catch (err) {
+      console.error('Failed to load ICE configuration, using defaults:', err);
+      error = err instanceof Error ? err.message : String(err);
+      resolved = { iceServers: DEFAULT_ICE_SERVERS, source: 'default', ttlSeconds: null };
+    }
+
+    if (generation !== this.generation) return this.loading;
+
+    const peerServer = mergePeerServer(peerServerFromEnv(this.env), settings.peerServer);
+    const peerServerKey = JSON.stringify(peerServer);
+    let peerOptions = this.snapshot.peerOptions;
+
+    if (!peerOptions || peerServerKey !== this.peerServerKey) {
+      peerOptions = createPeerOptions(peerServer, resolved.iceServers);
+      this.peerServerKey = peerServerKey;
+    } else {
+      // Keep the object identity so sessions built on it are not torn down;
+      // sessions created later still read the fresh servers from it
+      peerOptions.config = { ...peerOptions.config, iceServers: resolved.iceServers };
+    }
+
+    const expiresAt = resolved.ttlSeconds ? Date.now() + resolved.ttlSeconds * 1000 : null;
+    this.snapshot = {
+      status: 'ready',
+      peerOptions,
+      iceServers: resolved.iceServers,
+      source: resolved.source,
+      expiresAt,
+      error,
+    };
+    this.emit('change', this.snapshot);
+
+    if (error) {
+      this.scheduleRefresh(RETRY_AFTER_ERROR_MS);
+    } else if (resolved.ttlSeconds) {
+      this.scheduleRefresh(Math.max(MIN_REFRESH_DELAY_MS, resolved.ttlSeconds * 1000 * REFRESH_AT_FRACTION));
+    }
+
+    return this.snapshot;
+  }
+
+  private async resolveIceServers(settings: ConnectionSettings): Promise<ResolvedIceConfig> {
+    if (settings.iceServers?.length) {
+      return { iceServers: settings.iceServers, source: 'settings', ttlSeconds: null };
+    }
+
+    const configUrl = settings.configUrl || this.env.VITE_ICE_CONFIG_URL;
+    if (configUrl) {
+      const config = await this.fetchIceConfig(configUrl);
+      return { ...config, source: settings.configUrl ? 'settings' : 'endpoint' };
+    }
+
+    const envServers = this.env.VITE_ICE_SERVERS ? parseIceServers(this.env.VITE_ICE_SERVERS) : [];
+    const turnUrls = splitList(this.env.VITE_TURN_URLS);
+
+    if (turnUrls.length > 0 && this.env.VITE_TURN_SECRET) {
+      const ttlSeconds = Number(this.env.VITE_TURN_TTL) || DEFAULT_TURN_TTL_SECONDS;
+      const credentials = await createTurnRestCredentials(this.env.VITE_TURN_SECRET, turnUrls, ttlSeconds);
+      return { iceServers: [...envServers, turnRestToIceServer(credentials)], source: 'env', ttlSeconds };
+    }
+
+    if (envServers.length > 0) {
+      return { iceServers: envServers, source: 'env', ttlSeconds: null };
+    }
+
+    return { iceServers: DEFAULT_ICE_SERVERS, source: 'default', ttlSeconds: null };
+  }
+
+  // Accepts either { iceServers, ttl? } or a TURN REST response { username, password, ttl, uris }
+  private async fetchIceConfig(url: string): Promise<Omit<ResolvedIceConfig, 'source'>> {
+    const response = await this.fetchImpl(url, { credentials: 'include' });
+    if (!response.ok) {
+      throw new Error(`ICE config endpoint returned ${response.status}`);
+    }
+
+    const body: unknown = await response.json();
+
+    if (isTurnRestResponse(body)) {
+      return { iceServers: [...DEFAULT_ICE_SERVERS, turnRestToIceServer(body)], ttlSeconds: body.ttl };
+    }
+
+    const config = body as { iceServers?: unknown; ttl?: unknown };
+    if (isIceServerList(config?.iceServers)) {
+      return {
+        iceServers: config.iceServers,
+        ttlSeconds: typeof config.ttl === 'number' ? config.ttl : null,
+      };
+    }
+
+    throw new Error('ICE config endpoint returned an unexpected response');
+  }
+
+  private scheduleRefresh(delayMs: number) {
+    this.clearRefreshTimer();
+    this.refreshTimer = setTimeout(() => {
+      this.refreshTimer = null;
+      console.log('Refreshing ICE configuration');
+      this.reload();
+    }, delayMs);
+  }
+
+  private clearRefreshTimer() {
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+  }
+}
+
+const getBrowserStorage = () => {
+  try {
+    return typeof window !== 'undefined' ? window.localStorage : null;
+  } catch {
+    return null;
+  }
+};
+
+// Shared by every page so all sessions use the same, refreshed configuration
+export const peerConfigStore = new PeerConfigStore({
+  env: import.meta.env,
+  storage: getBrowserStorage(),
+});
@@ -0,0 +1,161 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DataMessage } from '@/webrtc/protocol';
+import { getPresenterPeerId, PresenterSession } from '@/webrtc/presenterSession';
+import { loadPresenterSession, StorageLike } from '@/webrtc/sessionPersistence';
+import { FakeDataConnection, FakePeer, FakePeerNetwork } from '@/webrtc/testing/fakePeer';
+
+const ROOM_ID = 'room-1';
+
+const flush = () => vi.advanceTimersByTimeAsync(0);
+
+const createMemoryStorage = (): StorageLike => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => items.set(key, value),
+    removeItem: (key) => items.delete(key),
+  };
+};
+
+const messageTypes = (conn: FakeDataConnection) => conn.remote?.sent.map((data) => (data as DataMessage).type) ?? [];
+
+describe('PresenterSession', () => {
+  let network: FakePeerNetwork;
+  let session: PresenterSession;
+
+  // A bare viewer peer, so the presenter is tested on its own
+  const joinViewer = async (viewerId: string) => {
+    const peer = network.createPeer(viewerId, {}) as unknown as FakePeer;
+    await flush();
+    const conn = peer.connect(getPresenterPeerId(ROOM_ID));
+    await flush();
+    return conn;
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    network = new FakePeerNetwork();
+    session = new PresenterSession({ roomId: ROOM_ID, createPeer: network.createPeer, storage: null });
+    session.start();
+  });
+
+  afterEach(() => {
+    session.destroy();
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('opens the room under the presenter peer ID', async () => {
+    await flush();
+    expect(network.getOpenPeer(getPresenterPeerId(ROOM_ID))).not.toBeNull();
+    expect(session.getSnapshot().status).toBe('ready');
+  });
+
+  it('accepts a viewer and tells it how to connect', async () => {
+    const joined = vi.fn();
+    session.on('viewer-joined', joined);
+    await flush();
+
+    const conn = await joinViewer('viewer-a');
+
+    expect(joined).toHaveBeenCalledWith('viewer-a');
+    expect(session.getSnapshot().viewerIds).toEqual(['viewer-a']);
+    expect(messageTypes(conn)).toEqual(expect.arrayContaining(['hello', 'ice-policy']));
+  });
+
+  it('mutes and unmutes a viewer', async () => {
+    await flush();
+    const conn = await joinViewer('viewer-a');
+
+    session.muteViewer('viewer-a');
+    expect(session.getSnapshot().mutedViewers.has('viewer-a')).toBe(true);
+    session.unmuteViewer('viewer-a');
+    expect(session.getSnapshot().mutedViewers.has('viewer-a')).toBe(false);
+    expect(messageTypes(conn).slice(-2)).toEqual(['viewer-muted', 'viewer-unmuted']);
+  });
+
+  it('forgets a viewer whose connection closes', async () => {
+    await flush();
+    const left = vi.fn();
+    session.on('viewer-left', left);
+    const conn = await joinViewer('viewer-a');
+
+    conn.close();
+    await flush();
+
+    expect(left).toHaveBeenCalledWith('viewer-a', 'left');
+    expect(session.getSnapshot().viewerIds).toEqual([]);
+  });
+
+  it('ends the meeting for everyone', async () => {
+    await flush();
+    const conn = await joinViewer('viewer-a');
+    session.muteViewer('viewer-a');
+
+    session.endMeeting();
+    await flush();
+
+    expect(session.getSnapshot().status).toBe('ended');
+    expect(session.getSnapshot().viewerIds).toEqual([]);
+    expect(session.getSnapshot().mutedViewers.size).toBe(0);
+    expect(messageTypes(conn)).toContain('meeting-ended');
+    expect(conn.open).toBe(false);
+  });
+
+  it('reconnects to the signalling server instead of failing', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    await flush();
+    const peer = network.getPeer(getPresenterPeerId(ROOM_ID));
+
+    network.isServerUp = false;
+    peer?.dropFromServer();
+    expect(session.getSnapshot().status).toBe('ready');
+    expect(session.getSnapshot().error).not.toBeNull();
+
+    network.isServerUp = true;
+    await vi.advanceTimersByTimeAsync(30000);
+
+    expect(peer?.open).toBe(true);
+    expect(session.getSnapshot().status).toBe('ready');
+    expect(session.getSnapshot().error).toBeNull();
+  });
+
+  describe('persistence', () => {
+    it('keeps the record alive through a quiet meeting', async () => {
+      const storage = createMemoryStorage();
+      const persisted = new PresenterSession({ roomId: 'room-2', createPeer: network.createPeer, storage });
+      persisted.start();
+      await flush();
+      persisted.setVideoCodec('VP8');
+      persisted.setQuality('motion');
+
+      await vi.advanceTimersByTimeAsync(60 * 60 * 1000);
+
+      const record = loadPresenterSession(storage, 'room-2');
+      expect(record).not.toBeNull();
+      expect(record?.videoCodec).toBe('VP8');
+      expect(record?.qualityPreset).toBe('motion');
+      persisted.destroy();
+    });
+
+    it('restores quality and codec after a reload', async () => {
+      const storage = createMemoryStorage();
+      const first = new PresenterSession({ roomId: 'room-2', createPeer: network.createPeer, storage });
+      first.start();
+      await flush();
+      first.setQuality('custom', { maxBitrateKbps: 1234 });
+      first.setVideoCodec('H264');
+      // A reload ends the page without ending the meeting
+      network.getPeer(getPresenterPeerId('room-2'))?.destroy();
+
+      const reloaded = new PresenterSession({ roomId: 'room-2', createPeer: network.createPeer, storage });
+      expect(reloaded.getSnapshot().isResumed).toBe(true);
+      expect(reloaded.getSnapshot().qualityPreset).toBe('custom');
+      expect(reloaded.getSnapshot().qualitySettings.maxBitrateKbps).toBe(1234);
+      expect(reloaded.getSnapshot().videoCodec).toBe('H264');
+      reloaded.destroy();
+      first.destroy();
+    });
+  });
+});
@@ -0,0 +1,1870 @@
+// src/webrtc/presenterSession.ts
+//
+// Framework-agnostic presenter engine. Owns the PeerJS peer, the outbound
+// capture stream and all viewer connections. React surfaces subscribe to
+// its events and snapshot instead of re-implementing the signalling.
+
+import Peer, { DataConnection, MediaConnection, PeerOptions } from 'peerjs';
+import { AdaptiveBitrate, BitrateTier, bitrateTierScales } from '@/webrtc/adaptiveBitrate';
+import { AudioLevelMonitor } from '@/webrtc/audioLevels';
+import { AudioGains, AudioSourceKind, CreateAudioContext, defaultAudioGains, OutboundAudioMixer } from '@/webrtc/audioMixer';
+import {
+  applyAudioProcessing,
+  AudioProcessing,
+  defaultAudioProcessing,
+  getProcessingConstraints,
+  NoiseGate,
+} from '@/webrtc/audioProcessing';
+import { CallConnectionState, CallMonitor } from '@/webrtc/callMonitor';
+import { defaultPipLayout, PipLayout, WebcamCompositor } from '@/webrtc/compositor';
+import {
+  applyCodecPreference,
+  getCodecName,
+  getSupportedVideoCodecs,
+  preferCodecInSdp,
+  VideoCodecPreference,
+} from '@/webrtc/codecs';
+import { devicePreferencesStore, DevicePreferencesStore, getMicConstraints } from '@/webrtc/devicePreferences';
+import { TypedEmitter } from '@/webrtc/emitter';
+import { GroupAudioMixer } from '@/webrtc/groupAudio';
+import { Heartbeat, HeartbeatOptions } from '@/webrtc/heartbeat';
+import { applyIceRestartAnswer, createIceRestartOffer } from '@/webrtc/iceRestart';
+import { PresenterEvent, presenterMachine, PresenterMachineContext, PresenterStatus } from '@/webrtc/machines';
+import { SCREEN_SOURCE_ID } from '@/webrtc/mediaTracks';
+import {
+  applyIceServers,
+  applyIceTransportPolicy,
+  hasRelayServer,
+  isSignallingError,
+  SIGNALLING_LOST_MESSAGE,
+} from '@/webrtc/peerConfig';
+import {
+  DataMessage,
+  createHello,
+  IceTransportPolicy,
+  isCompatibleVersion,
+  parseDataMessage,
+  PROTOCOL_VERSION,
+} from '@/webrtc/protocol';
+import {
+  applySenderQuality,
+  applyTrackQuality,
+  DEFAULT_QUALITY_PRESET,
+  getCameraQuality,
+  getCaptureConstraints,
+  QualityPresetId,
+  qualityPresets,
+  QualitySettings,
+} from '@/webrtc/qualityPresets';
+import { ReconnectionManager } from '@/webrtc/reconnect';
+import { CanvasCropper, CropRegion, cropTargetStore, cropTrackToElement } from '@/webrtc/regionCrop';
+import { detachSenderTrack, replaceSenderTrack } from '@/webrtc/senders';
+import { createSlate, Slate } from '@/webrtc/slate';
+import { getOutboundVideoCodec } from '@/webrtc/stats';
+import {
+  clearPresenterSession,
+  getDefaultSessionStorage,
+  loadPresenterSession,
+  PERSIST_REFRESH_MS,
+  PersistedPresenterSession,
+  savePresenterSession,
+  StorageLike,
+} from '@/webrtc/sessionPersistence';
+import { StateMachine } from '@/webrtc/stateMachine';
+import { ViewerAudioMixer } from '@/webrtc/viewerAudioMixer';
+
+export type { AudioSourceKind, BitrateTier, CallConnectionState, PresenterStatus, VideoCodecPreference };
+
+// Why a viewer left: it disconnected, stopped answering heartbeats,
+// or was turned away for not meeting the room's requirements
+export type ViewerLeaveReason = 'left' | 'timeout' | 'refused';
+
+// 'composite' draws the webcam into the screen video; 'separate' sends it as
+// a second video track that viewers place themselves
+export type CameraMode = 'composite' | 'separate';
+
+// A captured screen or window. The first is the main screen; the rest are
+// extra sources sent as additional video tracks.
+export interface SharedSource {
+  id: string;
+  name: string;
+}
+
+export interface PresenterSnapshot {
+  roomId: string | null;
+  status: PresenterStatus;
+  error: string | null;
+  isMicOn: boolean;
+  // Ask the browser for tab/system audio on the next share
+  shareSystemAudio: boolean;
+  // The current share actually captured tab/system audio
+  hasSystemAudio: boolean;
+  audioGains: AudioGains;
+  // Device of the microphone being sent, once sharing
+  micDeviceId: string | null;
+  // Processing of the presenter's own mic
+  audioProcessing: AudioProcessing;
+  // What viewers' mics start with when they join
+  roomAudioProcessing: AudioProcessing;
+  qualityPreset: QualityPresetId;
+  qualitySettings: QualitySettings;
+  videoCodec: VideoCodecPreference;
+  stream: MediaStream | null;
+  // The main capture before cropping and compositing, for choosing a crop region
+  captureStream: MediaStream | null;
+  // Canvas crop of the main capture, as fractions of it
+  cropRegion: CropRegion | null;
+  // Element of this app the capture is cropped to with Region Capture
+  cropTargetId: string | null;
+  // Everything being shared, main screen first; empty when not sharing
+  sources: SharedSource[];
+  // Viewers see a "be right back" slate instead of the screen
+  isPaused: boolean;
+  pausedResumeAt: number | null;
+  // Webcam overlaid on the screen; can be turned on before sharing starts
+  isCameraOn: boolean;
+  cameraMode: CameraMode;
+  pipLayout: PipLayout;
+  viewerIds: string[];
+  mutedViewers: Set<string>;
+  viewerAudioIds: string[];
+  // Viewers hear each other's mics, not just the presenter
+  isGroupAudioOn: boolean;
+  // Peer ID of whoever is talking (this presenter's or a viewer's), by mic level
+  activeSpeakerId: string | null;
+  // State of the screen share call to each viewer, while sharing
+  viewerConnectionStates: Record<string, CallConnectionState>;
+  // Adaptive bitrate tier of each viewer's screen share call
+  viewerBitrateTiers: Record<string, BitrateTier>;
+  // Codec each viewer's screen share call negotiated, e.g. "VP9"
+  viewerCodecs: Record<string, string>;
+  // Data channel round-trip time per viewer, in milliseconds
+  viewerRtts: Record<string, number>;
+  // Privacy mode: only relayed (TURN) connections, so no host IPs are exchanged
+  isRelayOnly: boolean;
+  // True when this session was restored from a previous page load
+  isResumed: boolean;
+}
+
+export interface PresenterSessionEvents {
+  'change': [snapshot: PresenterSnapshot];
+  'status-changed': [status: PresenterStatus];
+  'viewer-joined': [viewerId: string];
+  'viewer-left': [viewerId: string, reason: ViewerLeaveReason];
+  'viewer-mute-changed': [viewerId: string, muted: boolean];
+  'viewer-audio-started': [viewerId: string, stream: MediaStream];
+  'viewer-audio-ended': [viewerId: string];
+  'stream-started': [stream: MediaStream];
+  'stream-stopped': [];
+  'source-changed': [];
+  'mic-changed': [isMicOn: boolean];
+  'mic-unavailable': [];
+  'noise-gate-unavailable': [];
+  'camera-unavailable': [];
+  'meeting-ended': [];
+  'session-resumed': [knownViewerIds: string[]];
+  'error': [message: string];
+}
+
+export type MediaDevicesLike = Pick<MediaDevices, 'getDisplayMedia' | 'getUserMedia'>;
+
+export interface PresenterSessionOptions {
+  roomId: string;
+  peerOptions?: PeerOptions;
+  // Injection points so the engine can run without a browser
+  createPeer?: (id: string, options: PeerOptions) => Peer;
+  mediaDevices?: MediaDevicesLike;
+  // Where session metadata is persisted for reload recovery; null disables it
+  storage?: StorageLike | null;
+  heartbeat?: Partial<HeartbeatOptions>;
+  // Initial privacy mode; a restored session keeps its own setting
+  relayOnly?: boolean;
+  createAudioContext?: CreateAudioContext;
+  // Remembered microphone; defaults to the browser-wide store
+  devicePreferences?: DevicePreferencesStore;
+}
+
+// Track viewer info including mute state
+interface ViewerInfo {
+  connection: DataConnection;
+  isMutedByPresenter: boolean;
+  heartbeat: Heartbeat;
+  // ICE policy the viewer confirmed; null until it answers
+  icePolicy: IceTransportPolicy | null;
+}
+
+export const getPresenterPeerId = (roomId: string) => `presenter-${roomId}`;
+
+// After a reload the signalling server may still hold our old peer ID
+// until it notices the previous socket is gone. Retry for about a minute.
+const MAX_RECLAIM_ATTEMPTS = 10;
+const ROOM_IN_USE_MESSAGE = 'This room is already open in another window.';
+
+const RELAY_UNAVAILABLE_MESSAGE = 'Relay-only mode needs a TURN server. Add one in connection settings.';
+const RELAY_REQUIRED_MESSAGE =
+  'This meeting only allows relayed connections and your connection settings have no TURN server.';
+
+// Re-calling a viewer whose call dropped, when an ICE restart was not enough
+const MAX_RECALL_ATTEMPTS = 3;
+const RECALL_DELAY_MS = 1000;
+
+// The outbound codec only shows up in stats once frames have been encoded
+const CODEC_DETECT_DELAY_MS = 2000;
+
+export const idlePresenterSnapshot: PresenterSnapshot = {
+  roomId: null,
+  status: 'idle',
+  error: null,
+  isMicOn: true,
+  shareSystemAudio: false,
+  hasSystemAudio: false,
+  audioGains: defaultAudioGains,
+  micDeviceId: null,
+  audioProcessing: defaultAudioProcessing,
+  roomAudioProcessing: defaultAudioProcessing,
+  qualityPreset: DEFAULT_QUALITY_PRESET,
+  qualitySettings: qualityPresets[DEFAULT_QUALITY_PRESET].settings,
+  videoCodec: 'auto',
+  stream: null,
+  captureStream: null,
+  cropRegion: null,
+  cropTargetId: null,
+  sources: [],
+  isPaused: false,
+  pausedResumeAt: null,
+  isCameraOn: false,
+  cameraMode: 'composite',
+  pipLayout: defaultPipLayout,
+  viewerIds: [],
+  mutedViewers: new Set(),
+  viewerAudioIds: [],
+  isGroupAudioOn: false,
+  activeSpeakerId: null,
+  viewerConnectionStates: {},
+  viewerBitrateTiers: {},
+  viewerCodecs: {},
+  viewerRtts: {},
+  isRelayOnly: false,
+  isResumed: false,
+};
+
+const defaultCreatePeer = (id: string, options: PeerOptions) => new Peer(id, options);
+
+export class PresenterSession extends TypedEmitter<PresenterSessionEvents> {
+  readonly roomId: string;
+  // Mic levels of this presenter and each viewer, by peer ID
+  readonly audioLevels: AudioLevelMonitor;
+  // Local playback of viewer mics
+  readonly viewerAudio: ViewerAudioMixer;
+
+  private readonly options: PresenterSessionOptions;
+  private peer: Peer | null = null;
+  private stream: MediaStream | null = null;
+  // Raw capture tracks; viewers receive the mixer output instead
+  private micTrack: MediaStreamTrack | null = null;
+  // Sits between the mic and the mixer while the noise gate is on
+  private micGate: NoiseGate | null = null;
+  private systemAudioTrack: MediaStreamTrack | null = null;
+  private audioMixer: OutboundAudioMixer | null = null;
+  // Outbound video is layered: the screen capture, cropped on a canvas if a
+  // region is set, composited with the webcam when it is on, replaced by the
+  // slate while paused
+  private screenTrack: MediaStreamTrack | null = null;
+  private cropper: CanvasCropper | null = null;
+  private cameraTrack: MediaStreamTrack | null = null;
+  private compositor: WebcamCompositor | null = null;
+  private slate: Slate | null = null;
+  // Extra capture sources by source ID, in the order they were added
+  private extraSourceTracks = new Map<string, MediaStreamTrack>();
+  private viewerConnections = new Map<string, ViewerInfo>();
+  private viewerMediaCalls = new Map<string, MediaConnection>();
+  private callMonitors = new Map<string, CallMonitor>();
+  private bitrateAdapters = new Map<string, AdaptiveBitrate>();
+  // Sender of the main screen in each viewer's call. It stays the same
+  // through replaceTrack (slate, crop, webcam overlay).
+  private screenSenders = new Map<string, RTCRtpSender>();
+  private recallAttempts = new Map<string, number>();
+  private viewerAudioCalls = new Map<string, MediaConnection>();
+  // Mixes of the other viewers' mics, while group audio is on
+  private groupAudio: GroupAudioMixer | null = null;
+  private snapshot: PresenterSnapshot;
+  private destroyed = false;
+  private readonly storage: StorageLike | null;
+  private readonly devicePreferences: DevicePreferencesStore;
+  private restored: PersistedPresenterSession | null;
+  private persistTimer: ReturnType<typeof setInterval> | null = null;
+  private readonly handlePageHide = () => this.persist();
+  private knownViewerIds = new Set<string>();
+  private readonly reclaim = new ReconnectionManager({ initialDelayMs: 1000, maxDelayMs: 8000 });
+  private readonly serverReconnect = new ReconnectionManager({ initialDelayMs: 1000, maxDelayMs: 8000 });
+  private readonly machine = new StateMachine<PresenterStatus, PresenterEvent, PresenterMachineContext>(
+    presenterMachine,
+    () => ({ hasStream: this.stream !== null })
+  );
+
+  constructor(options: PresenterSessionOptions) {
+    super();
+    this.options = options;
+    this.roomId = options.roomId;
+    this.snapshot = { ...idlePresenterSnapshot, roomId: options.roomId, isRelayOnly: options.relayOnly ?? false };
+
+    this.storage = options.storage === undefined ? getDefaultSessionStorage() : options.storage;
+    this.devicePreferences = options.devicePreferences ?? devicePreferencesStore;
+    this.audioLevels = new AudioLevelMonitor(options.createAudioContext);
+    this.viewerAudio = new ViewerAudioMixer(options.createAudioContext);
+    this.audioLevels.on('active-speaker', (speakerId) => {
+      this.update({ activeSpeakerId: speakerId });
+      this.broadcast({ type: 'active-speaker', speakerId });
+    });
+    this.restored = loadPresenterSession(this.storage, options.roomId);
+    if (this.restored) {
+      this.knownViewerIds = new Set(this.restored.knownViewerIds);
+      this.snapshot = {
+        ...this.snapshot,
+        isMicOn: this.restored.isMicOn,
+        isRelayOnly: this.restored.relayOnly,
+        isGroupAudioOn: this.restored.groupAudio,
+        qualityPreset: this.restored.qualityPreset,
+        qualitySettings: this.restored.qualitySettings,
+        // The reloaded browser may not be the one that chose it
+        videoCodec:
+          this.restored.videoCodec === 'auto' || getSupportedVideoCodecs().includes(this.restored.videoCodec)
+            ? this.restored.videoCodec
+            : 'auto',
+        mutedViewers: new Set(this.restored.mutedViewers),
+        isResumed: true,
+      };
+    }
+
+    // The snapshot status always mirrors the machine
+    this.machine.onTransition(({ to }) => {
+      this.update({ status: to });
+      this.emit('status-changed', to);
+    });
+    this.machine.onEnter('ended', () => this.emit('meeting-ended'));
+  }
+
+  get peerId() {
+    return getPresenterPeerId(this.roomId);
+  }
+
+  getSnapshot = (): PresenterSnapshot => this.snapshot;
+
+  // useSyncExternalStore-compatible subscription
+  subscribe = (listener: () => void) => this.on('change', listener);
+
+  // Connect to the signalling server and start accepting viewers
+  start() {
+    if (this.peer || this.destroyed) return;
+
+    this.update({ error: null });
+    this.machine.send('CONNECT');
+    this.openPeer();
+
+    // Keep the record fresh through quiet stretches, and current when the tab goes away
+    this.persistTimer = setInterval(() => this.persist(), PERSIST_REFRESH_MS);
+    if (typeof window !== 'undefined') {
+      window.addEventListener('pagehide', this.handlePageHide);
+    }
+  }
+
+  private openPeer() {
+    const createPeer = this.options.createPeer ?? defaultCreatePeer;
+    const peerOptions: PeerOptions = { debug: 2, ...this.options.peerOptions };
+    if (this.snapshot.isRelayOnly) {
+      peerOptions.config = { ...peerOptions.config, iceTransportPolicy: 'relay' };
+    }
+    const peer = createPeer(this.peerId, peerOptions);
+
+    peer.on('open', (id) => {
+      console.log('Presenter connected with ID:', id);
+      this.reclaim.reset();
+      this.serverReconnect.reset();
+      if (this.snapshot.error === SIGNALLING_LOST_MESSAGE) {
+        this.update({ error: null });
+      }
+      const isInitialOpen = this.machine.state === 'connecting';
+      this.machine.send('PEER_OPEN');
+
+      if (this.restored && isInitialOpen) {
+        console.log('Resumed presenter session with', this.knownViewerIds.size, 'known viewers');
+        this.emit('session-resumed', [...this.knownViewerIds]);
+      }
+      this.persist();
+    });
+
+    peer.on('error', (err) => {
+      if (this.peer !== peer) return;
+
+      if (err.type === 'unavailable-id') {
+        this.reclaimPeerId(peer);
+        return;
+      }
+
+      // A viewer went away before we could call it; not fatal for the room
+      if (err.type === 'peer-unavailable') {
+        console.warn('Viewer unavailable:', err.message);
+        return;
+      }
+
+      // Viewers stay connected; the disconnected handler reopens the peer
+      if (isSignallingError(err.type)) {
+        console.warn('Signalling server connection lost:', err.message);
+        this.update({ error: SIGNALLING_LOST_MESSAGE });
+        return;
+      }
+
+      console.error('Peer error:', err);
+      this.fail(err.message);
+    });
+
+    peer.on('disconnected', () => {
+      if (this.destroyed || this.peer !== peer) return;
+      console.log('Peer disconnected, reconnecting...');
+      this.scheduleServerReconnect(peer);
+    });
+
+    peer.on('connection', (conn) => this.handleDataConnection(conn));
+    peer.on('call', (call) => this.handleViewerAudioCall(call));
+
+    this.peer = peer;
+  }
+
+  // Reopen the peer with backoff. PeerJS destroys a peer that never
+  // opened, so that one is created again.
+  private scheduleServerReconnect(peer: Peer) {
+    this.serverReconnect.schedule(() => {
+      if (this.destroyed || this.peer !== peer) return;
+      if (peer.destroyed) {
+        this.peer = null;
+        this.openPeer();
+      } else if (peer.disconnected) {
+        peer.reconnect();
+      }
+    });
+  }
+
+  // Our previous page load still owns the peer ID; wait for the server to release it
+  private reclaimPeerId(peer: Peer) {
+    this.peer = null;
+    this.serverReconnect.cancel();
+    peer.destroy();
+
+    if (this.reclaim.attempt >= MAX_RECLAIM_ATTEMPTS) {
+      this.reclaim.reset();
+      this.fail(ROOM_IN_USE_MESSAGE);
+      return;
+    }
+
+    console.log('Presenter ID still reserved, retrying...');
+    this.reclaim.schedule(() => {
+      if (!this.destroyed && !this.peer) this.openPeer();
+    });
+  }
+
+  // Start screen sharing and call every connected viewer
+  async startSharing() {
+    try {
+      const { videoTrack, systemAudioTrack } = await this.captureDisplay();
+
+      let micTrack: MediaStreamTrack | null = null;
+      try {
+        micTrack = await this.captureMicrophone(this.devicePreferences.getSnapshot().micDeviceId);
+        console.log('Microphone captured successfully');
+      } catch (audioErr) {
+        console.warn('Microphone access denied or unavailable:', audioErr);
+        this.emit('mic-unavailable');
+      }
+      const micGate = micTrack && this.snapshot.audioProcessing.noiseGate ? await this.createMicGate(micTrack) : null;
+
+      if (this.destroyed) {
+        videoTrack.stop();
+        systemAudioTrack?.stop();
+        micGate?.dispose();
+        micTrack?.stop();
+        return;
+      }
+
+      const outboundAudio = this.createAudioMix(micGate?.outputTrack ?? micTrack, systemAudioTrack);
+      const tracks = outboundAudio ? [videoTrack, outboundAudio] : [videoTrack];
+      this.stream = new MediaStream(tracks);
+      this.micTrack = micTrack;
+      this.micGate = micGate;
+      this.meterMic();
+      this.systemAudioTrack = systemAudioTrack;
+      this.screenTrack = videoTrack;
+      this.watchVideoTrack(videoTrack);
+      // Webcam turned on before sharing; this swaps in a new stream
+      await this.startCompositor();
+      const outboundStream = this.stream;
+
+      this.update({
+        stream: outboundStream,
+        captureStream: new MediaStream([videoTrack]),
+        sources: [{ id: SCREEN_SOURCE_ID, name: videoTrack.label || 'Screen' }],
+        hasSystemAudio: this.audioMixer?.hasSource('system') ?? false,
+        micDeviceId: micTrack?.getSettings().deviceId ?? null,
+        error: null,
+      });
+      this.machine.send('SHARE_STARTED');
+      this.emit('stream-started', outboundStream);
+      this.broadcastSourceNames();
+
+      console.log('Calling all connected viewers:', this.viewerConnections.size);
+      this.viewerConnections.forEach((_, viewerId) => {
+        this.callViewer(viewerId);
+      });
+
+      console.log('Screen sharing started with', outboundAudio ? 'audio' : 'video only');
+    } catch (err) {
+      console.error('Error starting screen share:', err);
+      const message = 'Failed to start screen sharing. Please allow screen access.';
+      this.update({ error: message });
+      this.emit('error', message);
+    }
+  }
+
+  // Share another screen or window alongside the current one. Viewers are
+  // called again, since a new track needs a new offer.
+  async addSource() {
+    const stream = this.stream;
+    if (!stream) return;
+
+    let videoTrack: MediaStreamTrack;
+    try {
+      ({ videoTrack } = await this.captureDisplay(false));
+    } catch (err) {
+      console.warn('Adding a source cancelled:', err);
+      return;
+    }
+    if (this.stream !== stream) {
+      videoTrack.stop();
+      return;
+    }
+
+    const id = `source-${Math.random().toString(36).substr(2, 9)}`;
+    this.extraSourceTracks.set(id, videoTrack);
+    // Ending one extra capture from the browser UI only removes that source
+    videoTrack.onended = () => this.removeSource(id);
+
+    this.update({ sources: [...this.snapshot.sources, { id, name: videoTrack.label || 'Window' }] });
+    this.broadcastSourceNames();
+    this.recallViewers();
+    console.log('Source added:', id);
+  }
+
+  // Stop one extra source; the main screen is stopped with stopSharing.
+  // Its sender is emptied instead of re-calling, so the other sources keep
+  // playing; viewers drop it once it is gone from the source names.
+  async removeSource(id: string) {
+    const track = this.extraSourceTracks.get(id);
+    if (!track) return;
+
+    this.extraSourceTracks.delete(id);
+    track.onended = null;
+    this.update({ sources: this.snapshot.sources.filter((source) => source.id !== id) });
+    this.broadcastSourceNames();
+
+    const calls = [...this.viewerMediaCalls.values()];
+    await Promise.all(calls.map((call) => detachSenderTrack(call.peerConnection, track)));
+    track.stop();
+    console.log('Source removed:', id);
+  }
+
+  renameSource(id: string, name: string) {
+    const trimmed = name.trim();
+    if (!trimmed || !this.snapshot.sources.some((source) => source.id === id)) return;
+
+    this.update({
+      sources: this.snapshot.sources.map((source) => (source.id === id ? { ...source, name: trimmed } : source)),
+    });
+    this.broadcastSourceNames();
+  }
+
+  // Pick a different window/tab/screen while sharing. Tracks are swapped on
+  // the existing calls, so viewers, mutes and viewer audio are unaffected.
+  async changeSource() {
+    const stream = this.stream;
+    if (!stream) return;
+
+    let captured: { videoTrack: MediaStreamTrack; systemAudioTrack: MediaStreamTrack | null };
+    try {
+      captured = await this.captureDisplay();
+    } catch (err) {
+      // Cancelling the picker keeps the current source
+      console.warn('Source change cancelled:', err);
+      return;
+    }
+
+    const { videoTrack, systemAudioTrack } = captured;
+    if (this.stream !== stream) {
+      videoTrack.stop();
+      systemAudioTrack?.stop();
+      return;
+    }
+
+    const previousScreen = this.screenTrack;
+    if (previousScreen) previousScreen.onended = null;
+    this.screenTrack = videoTrack;
+    this.watchVideoTrack(videoTrack);
+    // A crop belongs to the previous surface
+    const previousCropper = this.cropper;
+    this.cropper = null;
+    this.update({ captureStream: new MediaStream([videoTrack]), cropRegion: null, cropTargetId: null });
+    await this.refreshScreenOutput();
+    previousCropper?.dispose();
+    previousScreen?.stop();
+
+    // Tab audio can only be swapped into an existing mix; adding an audio
+    // track to live calls would need renegotiation
+    this.systemAudioTrack?.stop();
+    this.systemAudioTrack = null;
+    if (systemAudioTrack && this.audioMixer) {
+      this.audioMixer.setSource('system', systemAudioTrack);
+      this.systemAudioTrack = systemAudioTrack;
+    } else {
+      this.audioMixer?.setSource('system', null);
+      if (systemAudioTrack) {
+        console.warn('Tab audio needs an audio track on the call; restart sharing to include it');
+        systemAudioTrack.stop();
+      }
+    }
+
+    this.update({ hasSystemAudio: this.audioMixer?.hasSource('system') ?? false });
+    this.emit('source-changed');
+    console.log('Screen share source changed');
+  }
+
+  // Switch the microphone while sharing; no deviceId means the default device.
+  // The choice is remembered for later shares.
+  async changeMicrophone(deviceId?: string) {
+    const stream = this.stream;
+    if (!stream) {
+      // Not sharing: use it when sharing starts
+      if (deviceId) this.devicePreferences.setMicDeviceId(deviceId);
+      return false;
+    }
+
+    let micTrack: MediaStreamTrack;
+    try {
+      micTrack = await this.captureMicrophone(deviceId ?? null, true);
+    } catch (err) {
+      console.warn('Could not switch microphone:', err);
+      this.emit('mic-unavailable');
+      return false;
+    }
+    const micGate = this.snapshot.audioProcessing.noiseGate ? await this.createMicGate(micTrack) : null;
+
+    if (this.stream !== stream) {
+      micGate?.dispose();
+      micTrack.stop();
+      return false;
+    }
+
+    const previousMic = this.micTrack;
+    const previousGate = this.micGate;
+    const previousOutput = this.getMicOutput();
+    const micOutput = micGate?.outputTrack ?? micTrack;
+    if (this.audioMixer) {
+      this.audioMixer.setSource('mic', micOutput);
+    } else if (previousOutput) {
+      // Without Web Audio the raw mic track is what viewers receive
+      await this.replaceOutboundTrack(previousOutput, micOutput);
+    } else {
+      console.warn('No audio track on the call to switch the microphone into');
+      micGate?.dispose();
+      micTrack.stop();
+      return false;
+    }
+
+    previousGate?.dispose();
+    previousMic?.stop();
+    this.micTrack = micTrack;
+    this.micGate = micGate;
+    this.meterMic();
+    const micDeviceId = micTrack.getSettings().deviceId ?? null;
+    this.update({ micDeviceId });
+    this.devicePreferences.setMicDeviceId(micDeviceId);
+    return true;
+  }
+
+  // Show a "be right back" slate instead of the screen and mute the mic.
+  // Calls stay up; the capture track is swapped back in on resume.
+  async pauseSharing(durationMs: number | null = null) {
+    const screenTrack = this.screenTrack;
+    if (!this.stream || !screenTrack || this.slate) return;
+
+    const { width = 1280, height = 720 } = screenTrack.getSettings();
+    const resumeAt = durationMs !== null ? Date.now() + durationMs : null;
+
+    let slate: Slate;
+    try {
+      slate = createSlate({ title: `Room ${this.roomId}`, resumeAt, width, height });
+    } catch (err) {
+      console.error('Could not create pause slate:', err);
+      return;
+    }
+
+    this.slate = slate;
+    this.update({ isPaused: true, pausedResumeAt: resumeAt });
+    this.applyMicTrackState();
+    await this.setOutboundVideo(slate.track);
+
+    this.broadcast({ type: 'share-paused', resumeAt });
+    console.log('Screen sharing paused');
+  }
+
+  async resumeSharing() {
+    const slate = this.slate;
+    if (!slate) return;
+
+    this.slate = null;
+    await this.setOutboundVideo(this.getProgramTrack());
+    slate.stop();
+    this.update({ isPaused: false, pausedResumeAt: null });
+    this.applyMicTrackState();
+
+    this.broadcast({ type: 'share-resumed' });
+    console.log('Screen sharing resumed');
+  }
+
+  // Send only an element of this app, when the capture is of this tab.
+  // Resolves false if the browser refuses, e.g. for another tab or window.
+  async cropToElement(targetId: string | null) {
+    const screenTrack = this.screenTrack;
+    const target = targetId ? cropTargetStore.get(targetId) : null;
+    if (!screenTrack || (targetId && !target)) return false;
+
+    try {
+      await cropTrackToElement(screenTrack, target?.element ?? null);
+    } catch (err) {
+      console.warn('Could not crop to element:', err);
+      return false;
+    }
+    if (this.screenTrack !== screenTrack) return false;
+
+    // Region Capture replaces any canvas crop
+    if (targetId) await this.setCropRegion(null);
+    this.update({ cropTargetId: targetId });
+    return true;
+  }
+
+  // Crop the main capture to a region on a canvas; works for any surface
+  async setCropRegion(region: CropRegion | null) {
+    const screenTrack = this.screenTrack;
+    if (!screenTrack) return;
+
+    if (region && this.snapshot.cropTargetId) {
+      await this.cropToElement(null);
+    }
+
+    if (!region) {
+      const cropper = this.cropper;
+      if (!cropper) return;
+      this.cropper = null;
+      this.update({ cropRegion: null });
+      await this.refreshScreenOutput();
+      cropper.dispose();
+      return;
+    }
+
+    this.update({ cropRegion: region });
+    if (this.cropper) {
+      this.cropper.setRegion(region);
+      return;
+    }
+    try {
+      this.cropper = new CanvasCropper(screenTrack, region, this.snapshot.qualitySettings.maxFramerate);
+    } catch (err) {
+      console.error('Could not crop capture:', err);
+      this.update({ cropRegion: null });
+      return;
+    }
+    await this.refreshScreenOutput();
+  }
+
+  // Overlay the presenter's webcam on the shared screen
+  async setCameraEnabled(enabled: boolean) {
+    if (enabled === this.snapshot.isCameraOn) return;
+    if (!enabled) {
+      // Switch viewers back to the plain screen before the composited track ends
+      if (this.compositor && !this.slate) {
+        await this.setOutboundVideo(this.getScreenOutput());
+      }
+      const wasSent = this.isCameraSentSeparately();
+      this.releaseCamera();
+      if (wasSent) this.recallViewers();
+      return;
+    }
+
+    const mediaDevices = this.options.mediaDevices ?? navigator.mediaDevices;
+    let cameraTrack: MediaStreamTrack | undefined;
+    try {
+      const cameraStream = await mediaDevices.getUserMedia({ video: true });
+      cameraTrack = cameraStream.getVideoTracks()[0];
+      if (!cameraTrack) throw new Error('No camera track available');
+    } catch (err) {
+      console.warn('Camera unavailable:', err);
+      this.emit('camera-unavailable');
+      return;
+    }
+
+    if (this.destroyed || this.snapshot.isCameraOn) {
+      cameraTrack.stop();
+      return;
+    }
+    this.cameraTrack = cameraTrack;
+    cameraTrack.onended = () => this.setCameraEnabled(false);
+    this.update({ isCameraOn: true });
+
+    // Not sharing yet: the compositor is created when sharing starts
+    if (this.isCameraSentSeparately()) {
+      this.recallViewers();
+    } else if (this.stream) {
+      await this.startCompositor();
+    }
+  }
+
+  // Switch between drawing the webcam into the screen and sending it as its own track
+  async setCameraMode(cameraMode: CameraMode) {
+    if (cameraMode === this.snapshot.cameraMode) return;
+
+    const wasSent = this.isCameraSentSeparately();
+    const compositor = this.compositor;
+    this.update({ cameraMode });
+
+    if (compositor) {
+      if (!this.slate) {
+        await this.setOutboundVideo(this.getScreenOutput());
+      }
+      this.compositor = null;
+      compositor.dispose();
+    } else {
+      await this.startCompositor();
+    }
+
+    // Adding or removing the camera track needs a new offer
+    if (wasSent !== this.isCameraSentSeparately()) {
+      this.recallViewers();
+    }
+  }
+
+  // Corner, size, shape or dragged position of the webcam overlay
+  setPipLayout(layout: Partial<PipLayout>) {
+    const pipLayout = { ...this.snapshot.pipLayout, ...layout };
+    this.compositor?.setLayout(pipLayout);
+    this.update({ pipLayout });
+  }
+
+  // Stop sharing without ending the session
+  stopSharing() {
+    this.releaseStream();
+
+    if (this.machine.can('SHARE_STOPPED')) {
+      this.machine.send('SHARE_STOPPED');
+    }
+    console.log('Screen sharing stopped');
+  }
+
+  // Notify viewers, stop sharing and disconnect everyone
+  endMeeting() {
+    this.broadcast({ type: 'meeting-ended' });
+    this.releaseStream();
+
+    // Clear bookkeeping before closing so close events are ignored
+    const connections = [...this.viewerConnections.values()];
+    const audioCalls = [...this.viewerAudioCalls.values()];
+    this.viewerConnections.clear();
+    this.viewerAudioCalls.clear();
+    this.audioLevels.clear();
+    this.viewerAudio.clear();
+    this.groupAudio?.dispose();
+    this.groupAudio = null;
+    connections.forEach(({ connection, heartbeat }) => {
+      heartbeat.stop();
+      connection.close();
+    });
+    audioCalls.forEach((call) => call.close());
+
+    this.knownViewerIds.clear();
+    this.restored = null;
+    clearPresenterSession(this.storage, this.roomId);
+
+    this.update({ viewerIds: [], mutedViewers: new Set(), viewerAudioIds: [], viewerRtts: {}, isResumed: false });
+    this.machine.send('MEETING_ENDED');
+  }
+
+  // Leave the ended screen and accept viewers again in the same room
+  restart() {
+    this.machine.send('RESTART');
+  }
+
+  // Only the mic branch of the mix is affected; tab audio keeps playing
+  setMicEnabled(enabled: boolean) {
+    if (!this.micTrack) return;
+
+    this.update({ isMicOn: enabled });
+    this.applyMicTrackState();
+    this.persist();
+    this.emit('mic-changed', enabled);
+  }
+
+  toggleMic() {
+    this.setMicEnabled(!this.snapshot.isMicOn);
+  }
+
+  // Use refreshed ICE servers (e.g. renewed TURN credentials) without reconnecting
+  setIceServers(iceServers: RTCIceServer[]) {
+    if (!this.peer) return;
+    const calls = [...this.viewerMediaCalls.values(), ...this.viewerAudioCalls.values()];
+    applyIceServers(this.peer, iceServers, calls.map((call) => call.peerConnection).filter(Boolean));
+  }
+
+  // Switch privacy mode. Viewers are told the new policy and media calls
+  // are re-placed once they confirm it. Returns false if not possible.
+  setRelayOnly(enabled: boolean) {
+    if (enabled === this.snapshot.isRelayOnly) return true;
+
+    const iceServers = this.peer?.options.config?.iceServers ?? this.options.peerOptions?.config?.iceServers;
+    if (enabled && !hasRelayServer(iceServers)) {
+      this.update({ error: RELAY_UNAVAILABLE_MESSAGE });
+      this.emit('error', RELAY_UNAVAILABLE_MESSAGE);
+      return false;
+    }
+
+    const policy: IceTransportPolicy = enabled ? 'relay' : 'all';
+    if (this.peer) {
+      const calls = [...this.viewerAudioCalls.values()];
+      applyIceTransportPolicy(this.peer, policy, calls.map((call) => call.peerConnection).filter(Boolean));
+    }
+
+    this.update({ isRelayOnly: enabled, error: null });
+    this.persist();
+
+    this.viewerConnections.forEach((viewerInfo, viewerId) => {
+      if (enabled) {
+        // Existing calls may be direct; they are re-placed after the viewer confirms
+        viewerInfo.icePolicy = null;
+        this.closeMediaCall(viewerId);
+      }
+      this.sendToViewer(viewerId, { type: 'ice-policy', policy });
+    });
+
+    return true;
+  }
+
+  hasMicrophone() {
+    return this.micTrack !== null;
+  }
+
+  // Takes effect the next time sharing starts
+  setShareSystemAudio(enabled: boolean) {
+    this.update({ shareSystemAudio: enabled });
+  }
+
+  // Switch to a preset, or tweak individual values with 'custom'. Applies to
+  // the capture and to every viewer's sender without re-calling anyone.
+  setQuality(preset: QualityPresetId, overrides: Partial<QualitySettings> = {}) {
+    const base = preset === 'custom' ? this.snapshot.qualitySettings : qualityPresets[preset].settings;
+    const qualitySettings = { ...base, ...overrides };
+    this.update({ qualityPreset: preset, qualitySettings });
+    this.persist();
+
+    if (this.screenTrack) {
+      applyTrackQuality(this.screenTrack, qualitySettings);
+    }
+    this.extraSourceTracks.forEach((track) => applyTrackQuality(track, qualitySettings));
+    this.viewerMediaCalls.forEach((_, viewerId) => this.applyViewerQuality(viewerId));
+  }
+
+  // A different codec needs a new offer, so current viewers are called again
+  setVideoCodec(preference: VideoCodecPreference) {
+    let videoCodec = preference;
+    if (videoCodec !== 'auto' && !getSupportedVideoCodecs().includes(videoCodec)) {
+      console.warn('Codec not supported by this browser, using automatic selection:', videoCodec);
+      videoCodec = 'auto';
+    }
+    if (videoCodec === this.snapshot.videoCodec) return;
+
+    this.update({ videoCodec });
+    this.persist();
+    this.recallViewers();
+  }
+
+  // Browser processing is changed on the live track; the noise gate is
+  // added to or taken out of the mic path
+  async setAudioProcessing(partial: Partial<AudioProcessing>) {
+    const audioProcessing = { ...this.snapshot.audioProcessing, ...partial };
+    this.update({ audioProcessing });
+    if (!this.micTrack) return;
+
+    await applyAudioProcessing(this.micTrack, audioProcessing);
+    if (partial.noiseGate !== undefined) await this.refreshMicGate();
+  }
+
+  // Defaults for viewer mics; viewers that already changed theirs keep them
+  setRoomAudioProcessing(partial: Partial<AudioProcessing>) {
+    const roomAudioProcessing = { ...this.snapshot.roomAudioProcessing, ...partial };
+    this.update({ roomAudioProcessing });
+    this.broadcast({ type: 'audio-processing-defaults', settings: roomAudioProcessing });
+  }
+
+  // Send each viewer a mix of everyone else's mic. The mix is an extra
+  // track, so viewers are called again to add or drop it.
+  setGroupAudio(enabled: boolean) {
+    if (enabled === this.snapshot.isGroupAudioOn) return;
+
+    this.update({ isGroupAudioOn: enabled });
+    this.persist();
+    // Every connected viewer, including any whose recall gave up, gets a
+    // call with or without the mix
+    if (this.stream) {
+      this.viewerConnections.forEach((_, viewerId) => this.callViewer(viewerId));
+    }
+    if (!enabled) {
+      this.groupAudio?.dispose();
+      this.groupAudio = null;
+    }
+  }
+
+  setAudioGain(kind: AudioSourceKind, gain: number) {
+    this.audioMixer?.setGain(kind, gain);
+    this.update({ audioGains: { ...this.snapshot.audioGains, [kind]: gain } });
+  }
+
+  muteViewer(viewerId: string) {
+    this.setViewerMuted(viewerId, true);
+  }
+
+  unmuteViewer(viewerId: string) {
+    this.setViewerMuted(viewerId, false);
+  }
+
+  // Tear down everything. The session cannot be restarted afterwards.
+  destroy() {
+    if (this.destroyed) return;
+
+    if (this.viewerConnections.size > 0 || this.stream) {
+      this.endMeeting();
+    }
+    this.destroyed = true;
+    this.reclaim.cancel();
+    this.serverReconnect.cancel();
+    if (this.persistTimer) {
+      clearInterval(this.persistTimer);
+      this.persistTimer = null;
+    }
+    if (typeof window !== 'undefined') {
+      window.removeEventListener('pagehide', this.handlePageHide);
+    }
+    this.audioLevels.dispose();
+    this.viewerAudio.dispose();
+    this.groupAudio?.dispose();
+    this.groupAudio = null;
+    this.peer?.destroy();
+    this.peer = null;
+    this.removeAllListeners();
+  }
+
+  private setViewerMuted(viewerId: string, muted: boolean) {
+    this.sendToViewer(viewerId, muted ? { type: 'viewer-muted', viewerId } : { type: 'viewer-unmuted', viewerId });
+
+    const viewerInfo = this.viewerConnections.get(viewerId);
+    if (viewerInfo) {
+      viewerInfo.isMutedByPresenter = muted;
+    }
+    this.groupAudio?.setMuted(viewerId, muted);
+
+    const mutedViewers = new Set(this.snapshot.mutedViewers);
+    if (muted) {
+      mutedViewers.add(viewerId);
+    } else {
+      mutedViewers.delete(viewerId);
+    }
+    this.update({ mutedViewers });
+    this.persist();
+    this.emit('viewer-mute-changed', viewerId, muted);
+  }
+
+  private handleDataConnection(conn: DataConnection) {
+    console.log('Viewer data connection from:', conn.peer);
+
+    conn.on('open', () => {
+      console.log('Viewer data connection open:', conn.peer);
+      conn.send(createHello('presenter'));
+
+      // Mutes are kept per viewer ID so they survive reconnects and reloads
+      const isMutedByPresenter = this.snapshot.mutedViewers.has(conn.peer);
+      const previous = this.viewerConnections.get(conn.peer);
+      const heartbeat = this.createHeartbeat(conn);
+      this.viewerConnections.set(conn.peer, {
+        connection: conn,
+        isMutedByPresenter,
+        heartbeat,
+        icePolicy: null,
+      });
+      heartbeat.start();
+
+      // Tell the viewer how to connect before any media call is placed
+      this.sendToViewer(conn.peer, { type: 'ice-policy', policy: this.snapshot.isRelayOnly ? 'relay' : 'all' });
+      this.sendToViewer(conn.peer, { type: 'audio-processing-defaults', settings: this.snapshot.roomAudioProcessing });
+      if (this.snapshot.activeSpeakerId) {
+        this.sendToViewer(conn.peer, { type: 'active-speaker', speakerId: this.snapshot.activeSpeakerId });
+      }
+
+      // A reconnecting viewer replaces its previous, possibly half-dead connection
+      if (previous) {
+        previous.heartbeat.stop();
+        previous.connection.close();
+      }
+
+      // Viewers that were here before a reload get their place back
+      if (this.restored && this.knownViewerIds.has(conn.peer)) {
+        this.sendToViewer(conn.peer, { type: 'session-resumed', isSharing: this.stream !== null });
+      }
+      if (isMutedByPresenter) {
+        this.sendToViewer(conn.peer, { type: 'viewer-muted', viewerId: conn.peer });
+      }
+      if (this.snapshot.isPaused) {
+        this.sendToViewer(conn.peer, { type: 'share-paused', resumeAt: this.snapshot.pausedResumeAt });
+      }
+      if (this.stream) {
+        this.sendToViewer(conn.peer, { type: 'source-names', names: this.getSourceNames() });
+      }
+
+      this.knownViewerIds.add(conn.peer);
+      this.update({ viewerIds: [...this.viewerConnections.keys()] });
+      this.persist();
+      this.emit('viewer-joined', conn.peer);
+
+      // If we're already sharing, immediately call this viewer with the stream
+      if (this.stream) {
+        console.log('Sharing already active, calling new viewer:', conn.peer);
+        this.callViewer(conn.peer);
+      }
+    });
+
+    conn.on('data', (data) => {
+      const parsed = parseDataMessage(data);
+      if (parsed.kind === 'unknown') {
+        console.warn('Ignoring unknown message type from viewer:', parsed.type);
+        return;
+      }
+      if (parsed.kind === 'invalid') {
+        console.warn('Ignoring invalid message from viewer:', parsed.reason);
+        return;
+      }
+
+      this.handleViewerMessage(conn, parsed.message);
+    });
+
+    conn.on('close', () => {
+      console.log('Viewer data connection closed:', conn.peer);
+      this.removeViewer(conn.peer, conn);
+    });
+
+    conn.on('error', (err) => {
+      console.error('Viewer data connection error:', err);
+      this.removeViewer(conn.peer, conn);
+    });
+  }
+
+  private handleViewerMessage(conn: DataConnection, message: DataMessage) {
+    const viewerInfo = this.viewerConnections.get(conn.peer);
+    const isCurrent = viewerInfo?.connection === conn;
+    if (isCurrent) {
+      viewerInfo.heartbeat.markAlive();
+    }
+
+    switch (message.type) {
+      case 'hello':
+        if (!isCompatibleVersion(message.version)) {
+          console.warn(`Viewer ${conn.peer} uses protocol v${message.version}, expected v${PROTOCOL_VERSION}`);
+        }
+        break;
+      case 'ping':
+        if (conn.open) conn.send({ type: 'pong', id: message.id });
+        break;
+      case 'pong':
+        if (isCurrent) viewerInfo.heartbeat.handlePong(message);
+        break;
+      case 'ice-policy-ack':
+        if (!isCurrent) break;
+        viewerInfo.icePolicy = message.policy;
+        if (this.snapshot.isRelayOnly && message.policy !== 'relay') {
+          this.refuseViewer(conn, RELAY_REQUIRED_MESSAGE);
+        } else if (this.stream && !this.viewerMediaCalls.has(conn.peer)) {
+          this.callViewer(conn.peer);
+        }
+        break;
+      case 'request-stream':
+        if (this.stream && isCurrent) {
+          console.log('Viewer requested the stream:', conn.peer);
+          this.callViewer(conn.peer);
+        }
+        break;
+      case 'ice-restart-answer': {
+        const call = this.viewerMediaCalls.get(conn.peer);
+        if (call?.connectionId === message.connectionId && call.peerConnection) {
+          applyIceRestartAnswer(call.peerConnection, message.sdp).catch((err) => {
+            console.error('Failed to apply ICE restart answer:', err);
+          });
+        }
+        break;
+      }
+      default:
+        console.warn('Ignoring presenter-bound message from viewer:', message.type);
+    }
+  }
+
+  private refuseViewer(conn: DataConnection, reason: string) {
+    console.warn('Refusing viewer:', conn.peer, reason);
+    if (conn.open) conn.send({ type: 'connection-refused', reason });
+    this.removeViewer(conn.peer, conn, 'refused');
+    conn.close({ flush: true });
+  }
+
+  // In privacy mode media only flows once the viewer has confirmed relay-only
+  private canCallViewer(viewerId: string) {
+    if (!this.snapshot.isRelayOnly) return true;
+    return this.viewerConnections.get(viewerId)?.icePolicy === 'relay';
+  }
+
+  private createHeartbeat(conn: DataConnection) {
+    const heartbeat = new Heartbeat((ping) => {
+      if (conn.open) conn.send(ping);
+    }, this.options.heartbeat);
+
+    heartbeat.on('rtt', (rtt) => {
+      this.update({ viewerRtts: { ...this.snapshot.viewerRtts, [conn.peer]: rtt } });
+    });
+
+    heartbeat.on('timeout', () => {
+      console.warn('Viewer stopped responding, evicting:', conn.peer);
+      this.removeViewer(conn.peer, conn, 'timeout');
+      conn.close();
+    });
+
+    return heartbeat;
+  }
+
+  // Handle incoming calls from viewers (for two-way audio)
+  private handleViewerAudioCall(call: MediaConnection) {
+    console.log('Receiving call from viewer:', call.peer);
+
+    call.answer();
+    this.viewerAudioCalls.set(call.peer, call);
+
+    call.on('stream', (remoteStream) => {
+      console.log('Received audio stream from viewer:', call.peer, 'tracks:', remoteStream.getTracks().map(t => t.kind));
+
+      if (remoteStream.getAudioTracks().length === 0) {
+        console.log('No audio tracks in viewer stream');
+        return;
+      }
+
+      if (!this.snapshot.viewerAudioIds.includes(call.peer)) {
+        this.update({ viewerAudioIds: [...this.snapshot.viewerAudioIds, call.peer] });
+      }
+      this.audioLevels.add(call.peer, remoteStream.getAudioTracks()[0]);
+      this.viewerAudio.add(call.peer, remoteStream);
+      this.groupAudio?.addInput(call.peer, remoteStream);
+      this.emit('viewer-audio-started', call.peer, remoteStream);
+    });
+
+    call.on('close', () => {
+      console.log('Viewer audio call closed:', call.peer);
+      this.removeViewerAudio(call.peer, call);
+    });
+
+    call.on('error', (err) => {
+      console.error('Viewer audio call error:', err);
+      this.removeViewerAudio(call.peer, call);
+    });
+  }
+
+  private callViewer(viewerId: string) {
+    const peer = this.peer;
+    const stream = this.stream;
+    if (!peer || !stream || !this.canCallViewer(viewerId)) return;
+
+    // Replace any previous call to this viewer
+    this.closeMediaCall(viewerId);
+
+    // The screen must stay the first video track for viewers that do not
+    // understand media-tracks; the camera and extra sources go after it
+    const screenTrack = stream.getVideoTracks()[0];
+    const cameraTrack = this.isCameraSentSeparately() ? this.cameraTrack : null;
+    const sources = [...this.extraSourceTracks].map(([id, track]) => ({ id, trackId: track.id }));
+    // Goes last, after the presenter's own audio
+    const groupAudioTrack = this.snapshot.isGroupAudioOn ? this.getGroupAudio().getOutputTrack(viewerId) : null;
+    const extraTracks = [
+      ...(cameraTrack ? [cameraTrack] : []),
+      ...this.extraSourceTracks.values(),
+      ...(groupAudioTrack ? [groupAudioTrack] : []),
+    ];
+    const callStream = extraTracks.length > 0 ? new MediaStream([...stream.getTracks(), ...extraTracks]) : stream;
+    this.sendToViewer(viewerId, {
+      type: 'media-tracks',
+      screen: screenTrack.id,
+      camera: cameraTrack?.id ?? null,
+      sources,
+      groupAudio: groupAudioTrack?.id ?? null,
+    });
+
+    console.log('Calling viewer with stream:', viewerId);
+    const videoCodec = this.snapshot.videoCodec;
+    const call = peer.call(viewerId, callStream, {
+      sdpTransform: (sdp: string) => preferCodecInSdp(sdp, videoCodec),
+    });
+    if (call.peerConnection) {
+      applyCodecPreference(call.peerConnection, videoCodec);
+    }
+    const screenSender = call.peerConnection?.getSenders().find((sender) => sender.track === screenTrack);
+    if (screenSender) {
+      this.screenSenders.set(viewerId, screenSender);
+    }
+    this.viewerMediaCalls.set(viewerId, call);
+    this.monitorCall(viewerId, call);
+
+    // Anything that closes the current call unexpectedly (including PeerJS
+    // giving up after ICE failure) falls back to calling the viewer again
+    call.on('close', () => {
+      if (this.viewerMediaCalls.get(viewerId) !== call) return;
+      console.log('Media call closed unexpectedly:', viewerId);
+      this.closeMediaCall(viewerId);
+      this.scheduleRecall(viewerId);
+    });
+
+    call.on('error', (err) => {
+      console.error('Media call error:', err);
+      if (this.viewerMediaCalls.get(viewerId) !== call) return;
+      this.closeMediaCall(viewerId);
+      this.scheduleRecall(viewerId);
+    });
+  }
+
+  private monitorCall(viewerId: string, call: MediaConnection) {
+    const peerConnection = call.peerConnection;
+    if (!peerConnection) return;
+
+    const monitor = new CallMonitor(peerConnection, {
+      restartIce: async (pc) => {
+        const viewerInfo = this.viewerConnections.get(viewerId);
+        if (!viewerInfo?.connection.open) {
+          throw new Error('Data connection to viewer is not open');
+        }
+        const sdp = await createIceRestartOffer(pc);
+        this.sendToViewer(viewerId, { type: 'ice-restart-offer', connectionId: call.connectionId, sdp });
+      },
+    });
+
+    monitor.on('state-changed', (state) => {
+      if (state === 'connected' || state === 'relayed') {
+        this.recallAttempts.delete(viewerId);
+        // Encoder parameters can only be set once negotiation has finished
+        this.applyViewerQuality(viewerId);
+        this.bitrateAdapters.get(viewerId)?.start();
+        setTimeout(() => this.detectViewerCodec(viewerId, call), CODEC_DETECT_DELAY_MS);
+        // Viewers forget a pause when their call drops, so a re-call repeats it
+        if (this.snapshot.isPaused) {
+          this.sendToViewer(viewerId, { type: 'share-paused', resumeAt: this.snapshot.pausedResumeAt });
+        }
+      }
+      this.setViewerConnectionState(viewerId, state);
+    });
+
+    // Restart did not help: drop the call and fall back to a fresh one
+    monitor.on('failed', () => call.close());
+
+    this.callMonitors.set(viewerId, monitor);
+    this.setViewerConnectionState(viewerId, monitor.state);
+
+    const screenSender = this.screenSenders.get(viewerId);
+    if (!screenSender) return;
+
+    // Each viewer adapts on its own, so one bad link does not lower everyone's quality
+    const adapter = new AdaptiveBitrate(
+      peerConnection,
+      screenSender,
+      (tier) => this.snapshot.qualitySettings.maxBitrateKbps * 1000 * bitrateTierScales[tier]
+    );
+    adapter.on('tier-changed', (tier) => {
+      console.log('Viewer bitrate tier changed:', viewerId, tier);
+      this.setViewerBitrateTier(viewerId, tier);
+      this.applyViewerQuality(viewerId);
+    });
+    this.bitrateAdapters.set(viewerId, adapter);
+    this.setViewerBitrateTier(viewerId, adapter.tier);
+  }
+
+  private async detectViewerCodec(viewerId: string, call: MediaConnection) {
+    const screenSender = this.screenSenders.get(viewerId);
+    if (this.viewerMediaCalls.get(viewerId) !== call || !screenSender) return;
+
+    try {
+      const mimeType = await getOutboundVideoCodec(screenSender);
+      if (mimeType && this.viewerMediaCalls.get(viewerId) === call) {
+        this.setViewerCodec(viewerId, getCodecName(mimeType));
+      }
+    } catch (err) {
+      console.warn('Could not read negotiated codec:', err);
+    }
+  }
+
+  // The viewer's tier scales every video sender in its call; extra sources
+  // share the screen's preset and a separately sent camera gets its own lower cap
+  private applyViewerQuality(viewerId: string) {
+    const senders = this.viewerMediaCalls.get(viewerId)?.peerConnection?.getSenders() ?? [];
+    const scale = bitrateTierScales[this.bitrateAdapters.get(viewerId)?.tier ?? 'high'];
+    const { qualitySettings } = this.snapshot;
+
+    const screenSender = this.screenSenders.get(viewerId);
+    if (screenSender) {
+      applySenderQuality(screenSender, qualitySettings, scale);
+    }
+    const cameraSender = this.cameraTrack && senders.find((sender) => sender.track === this.cameraTrack);
+    if (cameraSender) {
+      applySenderQuality(cameraSender, getCameraQuality(qualitySettings), scale);
+    }
+    const sourceTracks = new Set(this.extraSourceTracks.values());
+    senders
+      .filter((sender) => sender.track && sourceTracks.has(sender.track))
+      .forEach((sender) => applySenderQuality(sender, qualitySettings, scale));
+  }
+
+  // Forget and close the current screen share call to a viewer
+  private closeMediaCall(viewerId: string) {
+    const call = this.viewerMediaCalls.get(viewerId);
+    this.viewerMediaCalls.delete(viewerId);
+    this.screenSenders.delete(viewerId);
+    this.callMonitors.get(viewerId)?.dispose();
+    this.callMonitors.delete(viewerId);
+    this.bitrateAdapters.get(viewerId)?.dispose();
+    this.bitrateAdapters.delete(viewerId);
+    this.setViewerConnectionState(viewerId, null);
+    this.setViewerBitrateTier(viewerId, null);
+    this.setViewerCodec(viewerId, null);
+    call?.close();
+  }
+
+  private scheduleRecall(viewerId: string) {
+    const attempt = (this.recallAttempts.get(viewerId) ?? 0) + 1;
+    if (attempt > MAX_RECALL_ATTEMPTS) {
+      console.warn('Giving up on media call to viewer:', viewerId);
+      this.setViewerConnectionState(viewerId, 'failed');
+      return;
+    }
+
+    this.recallAttempts.set(viewerId, attempt);
+    this.setViewerConnectionState(viewerId, 'reconnecting');
+
+    setTimeout(() => {
+      if (this.destroyed || !this.stream) return;
+      if (!this.viewerConnections.has(viewerId) || this.viewerMediaCalls.has(viewerId)) return;
+      console.log('Re-calling viewer, attempt', attempt, viewerId);
+      this.callViewer(viewerId);
+    }, RECALL_DELAY_MS * attempt);
+  }
+
+  private setViewerConnectionState(viewerId: string, state: CallConnectionState | null) {
+    const current = this.snapshot.viewerConnectionStates;
+    if ((current[viewerId] ?? null) === state) return;
+
+    const viewerConnectionStates = { ...current };
+    if (state) {
+      viewerConnectionStates[viewerId] = state;
+    } else {
+      delete viewerConnectionStates[viewerId];
+    }
+    this.update({ viewerConnectionStates });
+  }
+
+  private setViewerBitrateTier(viewerId: string, tier: BitrateTier | null) {
+    const current = this.snapshot.viewerBitrateTiers;
+    if ((current[viewerId] ?? null) === tier) return;
+
+    const viewerBitrateTiers = { ...current };
+    if (tier) {
+      viewerBitrateTiers[viewerId] = tier;
+    } else {
+      delete viewerBitrateTiers[viewerId];
+    }
+    this.update({ viewerBitrateTiers });
+  }
+
+  private setViewerCodec(viewerId: string, codec: string | null) {
+    const current = this.snapshot.viewerCodecs;
+    if ((current[viewerId] ?? null) === codec) return;
+
+    const viewerCodecs = { ...current };
+    if (codec) {
+      viewerCodecs[viewerId] = codec;
+    } else {
+      delete viewerCodecs[viewerId];
+    }
+    this.update({ viewerCodecs });
+  }
+
+  private removeViewer(viewerId: string, conn: DataConnection, reason: ViewerLeaveReason = 'left') {
+    // Ignore stale connections that were replaced or already cleaned up
+    const viewerInfo = this.viewerConnections.get(viewerId);
+    if (viewerInfo?.connection !== conn) return;
+
+    viewerInfo.heartbeat.stop();
+    this.viewerConnections.delete(viewerId);
+    this.closeMediaCall(viewerId);
+    this.recallAttempts.delete(viewerId);
+    this.viewerAudioCalls.get(viewerId)?.close();
+    this.groupAudio?.removeOutput(viewerId);
+
+    const viewerRtts = { ...this.snapshot.viewerRtts };
+    delete viewerRtts[viewerId];
+    this.update({ viewerIds: [...this.viewerConnections.keys()], viewerRtts });
+    this.emit('viewer-left', viewerId, reason);
+  }
+
+  private removeViewerAudio(viewerId: string, call: MediaConnection) {
+    if (this.viewerAudioCalls.get(viewerId) !== call) return;
+
+    this.viewerAudioCalls.delete(viewerId);
+    this.audioLevels.remove(viewerId);
+    this.viewerAudio.remove(viewerId);
+    this.groupAudio?.removeInput(viewerId);
+    if (this.snapshot.viewerAudioIds.includes(viewerId)) {
+      this.update({ viewerAudioIds: this.snapshot.viewerAudioIds.filter(id => id !== viewerId) });
+      this.emit('viewer-audio-ended', viewerId);
+    }
+  }
+
+  // Ask for a window/tab/screen, with tab/system audio if enabled
+  private async captureDisplay(audio = this.snapshot.shareSystemAudio) {
+    const mediaDevices = this.options.mediaDevices ?? navigator.mediaDevices;
+    const displayStream = await mediaDevices.getDisplayMedia({
+      video: {
+        cursor: 'always',
+        ...getCaptureConstraints(this.snapshot.qualitySettings),
+      } as MediaTrackConstraints,
+      audio,
+    });
+
+    const videoTrack = displayStream.getVideoTracks()[0];
+    if (!videoTrack) {
+      displayStream.getTracks().forEach(track => track.stop());
+      throw new Error('No video track available');
+    }
+    videoTrack.contentHint = this.snapshot.qualitySettings.contentHint;
+
+    // The browser only provides audio if the user ticked "share audio"
+    const systemAudioTrack = displayStream.getAudioTracks()[0] ?? null;
+    return { videoTrack, systemAudioTrack };
+  }
+
+  private async captureMicrophone(deviceId: string | null, exact = false) {
+    const mediaDevices = this.options.mediaDevices ?? navigator.mediaDevices;
+    const audioStream = await mediaDevices.getUserMedia({
+      audio: { ...getMicConstraints(deviceId, exact), ...getProcessingConstraints(this.snapshot.audioProcessing) },
+    });
+
+    const micTrack = audioStream.getAudioTracks()[0];
+    if (!micTrack) throw new Error('No microphone track available');
+    micTrack.enabled = this.snapshot.isMicOn && !this.snapshot.isPaused;
+    return micTrack;
+  }
+
+  // A failed gate turns the setting back off rather than leaving the mic silent
+  private async createMicGate(micTrack: MediaStreamTrack) {
+    try {
+      return await NoiseGate.create(micTrack, undefined, this.options.createAudioContext);
+    } catch (err) {
+      console.warn('Noise gate unavailable:', err);
+      this.update({ audioProcessing: { ...this.snapshot.audioProcessing, noiseGate: false } });
+      this.emit('noise-gate-unavailable');
+      return null;
+    }
+  }
+
+  // What viewers hear of the mic, before mixing
+  private getMicOutput() {
+    return this.micGate?.outputTrack ?? this.micTrack;
+  }
+
+  // Put the gate into or take it out of the mic path to match the setting
+  private async refreshMicGate() {
+    const micTrack = this.micTrack;
+    const previousGate = this.micGate;
+    const wantsGate = this.snapshot.audioProcessing.noiseGate;
+    if (!micTrack || wantsGate === (previousGate !== null)) return;
+
+    const previousOutput = this.getMicOutput();
+    const micGate = wantsGate ? await this.createMicGate(micTrack) : null;
+    // The mic, the gate or the setting changed while the worklet loaded
+    if (
+      this.micTrack !== micTrack ||
+      this.micGate !== previousGate ||
+      this.snapshot.audioProcessing.noiseGate !== wantsGate
+    ) {
+      micGate?.dispose();
+      return;
+    }
+
+    this.micGate = micGate;
+    const micOutput = micGate?.outputTrack ?? micTrack;
+    if (this.audioMixer) {
+      this.audioMixer.setSource('mic', micOutput);
+    } else {
+      await this.replaceOutboundTrack(previousOutput, micOutput);
+    }
+    this.meterMic();
+    previousGate?.dispose();
+  }
+
+  // Meter what viewers hear, so a gated or muted mic reads as silent
+  private meterMic() {
+    const micOutput = this.getMicOutput();
+    if (micOutput) {
+      this.audioLevels.add(this.peerId, micOutput);
+    } else {
+      this.audioLevels.remove(this.peerId);
+    }
+  }
+
+  // The mic stays silent while paused, whatever its on/off setting
+  private applyMicTrackState() {
+    if (this.micTrack) {
+      this.micTrack.enabled = this.snapshot.isMicOn && !this.snapshot.isPaused;
+    }
+  }
+
+  // The main capture after cropping
+  private getScreenOutput() {
+    return this.cropper?.outputTrack ?? this.screenTrack;
+  }
+
+  // What viewers see when not paused
+  private getProgramTrack() {
+    return this.compositor?.outputTrack ?? this.getScreenOutput();
+  }
+
+  // Pass a new screen output on to the compositor, or straight to viewers.
+  // While paused the slate stays up and resume picks up the new output.
+  private async refreshScreenOutput() {
+    const output = this.getScreenOutput();
+    if (!output) return;
+    if (this.compositor) {
+      this.compositor.setScreenTrack(output);
+    } else if (!this.slate) {
+      await this.setOutboundVideo(output);
+    }
+  }
+
+  private async setOutboundVideo(track: MediaStreamTrack | null) {
+    const current = this.stream?.getVideoTracks()[0] ?? null;
+    if (!track || track === current) return;
+    await this.replaceOutboundTrack(current, track);
+  }
+
+  private async startCompositor() {
+    const screenOutput = this.getScreenOutput();
+    if (!screenOutput || !this.cameraTrack || this.compositor || this.snapshot.cameraMode !== 'composite') return;
+
+    try {
+      this.compositor = new WebcamCompositor(
+        screenOutput,
+        this.cameraTrack,
+        this.snapshot.pipLayout,
+        this.snapshot.qualitySettings.maxFramerate
+      );
+    } catch (err) {
+      console.error('Could not composite webcam:', err);
+      this.releaseCamera();
+      return;
+    }
+    if (!this.slate) {
+      await this.setOutboundVideo(this.compositor.outputTrack);
+    }
+  }
+
+  private isCameraSentSeparately() {
+    return this.stream !== null && this.cameraTrack !== null && this.snapshot.cameraMode === 'separate';
+  }
+
+  // Created on first use, fed with the mics already coming in
+  private getGroupAudio() {
+    if (!this.groupAudio) {
+      const groupAudio = new GroupAudioMixer(this.options.createAudioContext);
+      this.snapshot.mutedViewers.forEach((viewerId) => groupAudio.setMuted(viewerId, true));
+      this.viewerAudioCalls.forEach((call, viewerId) => {
+        if (call.remoteStream && this.snapshot.viewerAudioIds.includes(viewerId)) {
+          groupAudio.addInput(viewerId, call.remoteStream);
+        }
+      });
+      this.groupAudio = groupAudio;
+    }
+    return this.groupAudio;
+  }
+
+  // Call every current viewer again, e.g. after the set of tracks or the codec changed
+  private recallViewers() {
+    if (!this.stream) return;
+    [...this.viewerMediaCalls.keys()].forEach((viewerId) => this.callViewer(viewerId));
+  }
+
+  // Stop the camera and compositor. The caller swaps the outbound track first
+  // if the composited track is being sent.
+  private releaseCamera() {
+    this.compositor?.dispose();
+    this.compositor = null;
+    this.cameraTrack?.stop();
+    this.cameraTrack = null;
+    if (this.snapshot.isCameraOn) {
+      this.update({ isCameraOn: false });
+    }
+  }
+
+  // Stop sharing when the user ends capture from the browser's own UI
+  private watchVideoTrack(videoTrack: MediaStreamTrack) {
+    videoTrack.onended = () => {
+      this.stopSharing();
+    };
+  }
+
+  // Put a new track on every viewer call and into the stream used for new calls
+  private async replaceOutboundTrack(previous: MediaStreamTrack | null, next: MediaStreamTrack) {
+    const stream = this.stream;
+    if (!stream) return;
+
+    const tracks = stream.getTracks().filter((track) => track !== previous);
+    const nextStream = new MediaStream([...tracks, next]);
+    this.stream = nextStream;
+    this.update({ stream: nextStream });
+
+    const calls = [...this.viewerMediaCalls.values()];
+    await Promise.all(calls.map((call) => replaceSenderTrack(call.peerConnection, next)));
+  }
+
+  // Mix the mic and tab audio into one track. Without Web Audio, fall
+  // back to sending the mic alone.
+  private createAudioMix(micTrack: MediaStreamTrack | null, systemAudioTrack: MediaStreamTrack | null) {
+    if (!micTrack && !systemAudioTrack) return null;
+
+    try {
+      const mixer = new OutboundAudioMixer(this.snapshot.audioGains, this.options.createAudioContext);
+      mixer.setSource('mic', micTrack);
+      mixer.setSource('system', systemAudioTrack);
+      this.audioMixer = mixer;
+      return mixer.outputTrack;
+    } catch (err) {
+      console.warn('Audio mixing unavailable, sending microphone only:', err);
+      systemAudioTrack?.stop();
+      return micTrack;
+    }
+  }
+
+  // Stop all outbound tracks and close every media call to viewers
+  private releaseStream() {
+    const hadStream = this.stream !== null;
+
+    if (this.stream) {
+      this.stream.getTracks().forEach(track => track.stop());
+      this.stream = null;
+    }
+    this.slate?.stop();
+    this.slate = null;
+    this.releaseCamera();
+    this.cropper?.dispose();
+    this.cropper = null;
+    if (this.screenTrack) {
+      this.screenTrack.onended = null;
+      this.screenTrack.stop();
+      this.screenTrack = null;
+    }
+    this.extraSourceTracks.forEach((track) => {
+      track.onended = null;
+      track.stop();
+    });
+    this.extraSourceTracks.clear();
+    this.audioMixer?.dispose();
+    this.audioMixer = null;
+    this.audioLevels.remove(this.peerId);
+    this.micGate?.dispose();
+    this.micGate = null;
+    this.micTrack?.stop();
+    this.micTrack = null;
+    this.systemAudioTrack?.stop();
+    this.systemAudioTrack = null;
+
+    [...this.viewerMediaCalls.keys()].forEach((viewerId) => this.closeMediaCall(viewerId));
+    this.recallAttempts.clear();
+    if (Object.keys(this.snapshot.viewerConnectionStates).length > 0) {
+      this.update({ viewerConnectionStates: {} });
+    }
+
+    if (hadStream) {
+      this.update({
+        stream: null,
+        captureStream: null,
+        cropRegion: null,
+        cropTargetId: null,
+        sources: [],
+        hasSystemAudio: false,
+        micDeviceId: null,
+        isPaused: false,
+        pausedResumeAt: null,
+      });
+      this.emit('stream-stopped');
+    }
+  }
+
+  private getSourceNames() {
+    return Object.fromEntries(this.snapshot.sources.map((source) => [source.id, source.name]));
+  }
+
+  private broadcastSourceNames() {
+    this.broadcast({ type: 'source-names', names: this.getSourceNames() });
+  }
+
+  private sendToViewer(viewerId: string, message: DataMessage) {
+    const viewerInfo = this.viewerConnections.get(viewerId);
+    if (viewerInfo?.connection.open) {
+      viewerInfo.connection.send(message);
+    }
+  }
+
+  private broadcast(message: DataMessage) {
+    this.viewerConnections.forEach((viewerInfo) => {
+      if (viewerInfo.connection.open) {
+        viewerInfo.connection.send(message);
+      }
+    });
+  }
+
+  // Save what a reloaded tab needs to pick the meeting back up
+  private persist() {
+    if (this.destroyed || this.machine.state === 'ended') return;
+
+    savePresenterSession(this.storage, {
+      roomId: this.roomId,
+      isMicOn: this.snapshot.isMicOn,
+      relayOnly: this.snapshot.isRelayOnly,
+      groupAudio: this.snapshot.isGroupAudioOn,
+      qualityPreset: this.snapshot.qualityPreset,
+      qualitySettings: this.snapshot.qualitySettings,
+      videoCodec: this.snapshot.videoCodec,
+      mutedViewers: [...this.snapshot.mutedViewers],
+      knownViewerIds: [...this.knownViewerIds],
+      savedAt: Date.now(),
+    });
+  }
+
+  private fail(message: string) {
+    this.update({ error: message });
+    this.machine.send('FAIL');
+    this.emit('error', message);
+  }
+
+  private update(partial: Partial<PresenterSnapshot>) {
+    this.snapshot = { ...this.snapshot, ...partial };
+    this.emit('change', this.snapshot);
+  }
+}
@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest';
+import { defaultAudioProcessing } from '@/webrtc/audioProcessing';
+import {
+  createHello,
+  DataMessage,
+  isCompatibleVersion,
+  parseDataMessage,
+  PROTOCOL_VERSION,
+} from '@/webrtc/protocol';
+
+// One well-formed message of every type
+const validMessages: DataMessage[] = [
+  { type: 'hello', version: PROTOCOL_VERSION, role: 'viewer' },
+  { type: 'meeting-ended' },
+  { type: 'viewer-muted', viewerId: 'viewer-a' },
+  { type: 'viewer-unmuted', viewerId: 'viewer-a' },
+  { type: 'session-resumed', isSharing: true },
+  { type: 'request-stream' },
+  { type: 'ice-restart-offer', connectionId: 'mc_1', sdp: 'v=0' },
+  { type: 'ice-restart-answer', connectionId: 'mc_1', sdp: 'v=0' },
+  { type: 'ping', id: 1 },
+  { type: 'pong', id: 1 },
+  { type: 'ice-policy', policy: 'relay' },
+  { type: 'ice-policy-ack', policy: 'all' },
+  { type: 'connection-refused', reason: 'Relay required' },
+  { type: 'share-paused', resumeAt: null },
+  { type: 'share-paused', resumeAt: 1700000000000 },
+  { type: 'share-resumed' },
+  { type: 'media-tracks', screen: 't1', camera: null, sources: [{ id: 'source-1', trackId: 't2' }], groupAudio: 't3' },
+  // From a presenter that predates group audio
+  { type: 'media-tracks', screen: 't1', camera: 't4', sources: [] },
+  { type: 'source-names', names: { screen: 'Screen 1' } },
+  { type: 'audio-processing-defaults', settings: defaultAudioProcessing },
+  { type: 'active-speaker', speakerId: null },
+];
+
+// Known types with a field missing or of the wrong type
+const malformedMessages: unknown[] = [
+  { type: 'hello', version: '2', role: 'viewer' },
+  { type: 'hello', version: 1.5, role: 'viewer' },
+  { type: 'hello', version: PROTOCOL_VERSION, role: 'admin' },
+  { type: 'viewer-muted' },
+  { type: 'viewer-unmuted', viewerId: 42 },
+  { type: 'session-resumed', isSharing: 'yes' },
+  { type: 'ice-restart-offer', connectionId: 'mc_1' },
+  { type: 'ice-restart-answer', sdp: 'v=0' },
+  { type: 'ping', id: 'abc' },
+  { type: 'pong' },
+  { type: 'ice-policy', policy: 'none' },
+  { type: 'ice-policy-ack', policy: null },
+  { type: 'connection-refused', reason: null },
+  { type: 'share-paused' },
+  { type: 'share-paused', resumeAt: '10:00' },
+  { type: 'media-tracks', screen: null, camera: null, sources: [] },
+  { type: 'media-tracks', screen: 't1', camera: null, sources: {} },
+  { type: 'media-tracks', screen: 't1', camera: null, sources: [{ id: 'source-1' }] },
+  { type: 'media-tracks', screen: 't1', camera: null, sources: [], groupAudio: 7 },
+  { type: 'source-names', names: { screen: 1 } },
+  { type: 'source-names', names: null },
+  { type: 'audio-processing-defaults', settings: { ...defaultAudioProcessing, noiseGate: 'on' } },
+  { type: 'active-speaker' },
+];
+
+describe('parseDataMessage', () => {
+  it.each(validMessages)('accepts $type', (message) => {
+    expect(parseDataMessage(message)).toEqual({ kind: 'message', message });
+  });
+
+  it.each(malformedMessages)('rejects malformed %o', (data) => {
+    const result = parseDataMessage(data);
+    expect(result.kind).toBe('invalid');
+    expect(result).toHaveProperty('reason', `Malformed "${(data as { type: string }).type}" message`);
+  });
+
+  it.each([null, undefined, 'hello', 42, [], {}, { type: 3 }, { kind: 'ping' }])(
+    'rejects %o without a string type',
+    (data) => {
+      expect(parseDataMessage(data)).toEqual({
+        kind: 'invalid',
+        reason: 'Message is missing a string "type" field',
+      });
+    }
+  );
+
+  it('reports unknown types instead of rejecting them', () => {
+    expect(parseDataMessage({ type: 'raise-hand', viewerId: 'viewer-a' })).toEqual({
+      kind: 'unknown',
+      type: 'raise-hand',
+    });
+  });
+
+  it('does not treat inherited properties as message types', () => {
+    expect(parseDataMessage({ type: 'toString' })).toEqual({ kind: 'unknown', type: 'toString' });
+    expect(parseDataMessage({ type: '__proto__' })).toEqual({ kind: 'unknown', type: '__proto__' });
+  });
+
+  it('keeps extra fields from newer peers', () => {
+    const message = { type: 'ping', id: 1, sentAt: 123 };
+    expect(parseDataMessage(message)).toEqual({ kind: 'message', message });
+  });
+
+  it('parses a hello from an older version so its version can be checked', () => {
+    const result = parseDataMessage({ type: 'hello', version: 1, role: 'presenter' });
+    expect(result.kind).toBe('message');
+  });
+});
+
+describe('protocol versions', () => {
+  it('sends the current version in hello', () => {
+    expect(createHello('presenter')).toEqual({ type: 'hello', version: PROTOCOL_VERSION, role: 'presenter' });
+  });
+
+  it('is only compatible with the same version', () => {
+    expect(isCompatibleVersion(PROTOCOL_VERSION)).toBe(true);
+    expect(isCompatibleVersion(PROTOCOL_VERSION - 1)).toBe(false);
+    expect(isCompatibleVersion(PROTOCOL_VERSION + 1)).toBe(false);
+  });
+});
@@ -0,0 +1,135 @@
+// src/webrtc/protocol.ts
+//
+// Shared data channel protocol between presenter and viewers.
+// Every message sent over a PeerJS DataConnection must be declared here.
+
+import { AudioProcessing, isAudioProcessing } from '@/webrtc/audioProcessing';
+
+// Adding a message type needs no bump: peers ignore types they do not know.
+// Bump only when an existing message is removed or changes shape, or when
+// a message becomes one that older clients must handle.
+// v2: peers must answer `ping` or they are evicted as unresponsive.
+export const PROTOCOL_VERSION = 2;
+
+export type PeerRole = 'presenter' | 'viewer';
+
+export type IceTransportPolicy = 'all' | 'relay';
+
+export type DataMessage =
+  | { type: 'hello'; version: number; role: PeerRole }
+  | { type: 'meeting-ended' }
+  | { type: 'viewer-muted'; viewerId: string }
+  | { type: 'viewer-unmuted'; viewerId: string }
+  // Presenter reclaimed the room after a reload; viewers keep their place
+  | { type: 'session-resumed'; isSharing: boolean }
+  // Viewer asks the presenter to (re)send the screen share call
+  | { type: 'request-stream' }
+  // ICE restart for the media call with the given PeerJS connection ID
+  | { type: 'ice-restart-offer'; connectionId: string; sdp: string }
+  | { type: 'ice-restart-answer'; connectionId: string; sdp: string }
+  // Heartbeat, sent by both sides; the receiver echoes the ID back
+  | { type: 'ping'; id: number }
+  | { type: 'pong'; id: number }
+  // Room ICE policy, sent before the media call; the viewer answers with the policy it applied
+  | { type: 'ice-policy'; policy: IceTransportPolicy }
+  | { type: 'ice-policy-ack'; policy: IceTransportPolicy }
+  // Presenter refuses the viewer, e.g. it cannot honour the room's ICE policy
+  | { type: 'connection-refused'; reason: string }
+  // Sharing paused behind a slate; resumeAt is when the presenter expects to be back
+  | { type: 'share-paused'; resumeAt: number | null }
+  | { type: 'share-resumed' }
+  // Track IDs of the presenter's next media call. Old clients ignore this and
+  // play the first video track, which is always the screen. groupAudio is
+  // the other viewers' mix, absent from presenters that predate group audio.
+  | {
+      type: 'media-tracks';
+      screen: string;
+      camera: string | null;
+      sources: { id: string; trackId: string }[];
+      groupAudio?: string | null;
+    }
+  // Display names of the shared sources, keyed by source ID
+  | { type: 'source-names'; names: Record<string, string> }
+  // Room defaults for viewer mic processing; viewers who changed their own keep them
+  | { type: 'audio-processing-defaults'; settings: AudioProcessing }
+  // Peer ID of whoever is talking, the presenter's or a viewer's; null when nobody is
+  | { type: 'active-speaker'; speakerId: string | null };
+
+export type DataMessageType = DataMessage['type'];
+export type DataMessageOf<T extends DataMessageType> = Extract<DataMessage, { type: T }>;
+
+type Payload = Record<string, unknown>;
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isOptionalString = (value: unknown): value is string | null => value === null || isString(value);
+const isPayload = (value: unknown): value is Payload => typeof value === 'object' && value !== null;
+const isIcePolicy = (value: unknown): value is IceTransportPolicy => value === 'all' || value === 'relay';
+
+// Field validators for each message type. The `type` field itself is
+// checked by parseDataMessage before these run.
+const validators: { [T in DataMessageType]: (payload: Payload) => boolean } = {
+  'hello': (p) => Number.isInteger(p.version) && (p.role === 'presenter' || p.role === 'viewer'),
+  'meeting-ended': () => true,
+  'viewer-muted': (p) => isString(p.viewerId),
+  'viewer-unmuted': (p) => isString(p.viewerId),
+  'session-resumed': (p) => typeof p.isSharing === 'boolean',
+  'request-stream': () => true,
+  'ice-restart-offer': (p) => isString(p.connectionId) && isString(p.sdp),
+  'ice-restart-answer': (p) => isString(p.connectionId) && isString(p.sdp),
+  'ping': (p) => Number.isInteger(p.id),
+  'pong': (p) => Number.isInteger(p.id),
+  'ice-policy': (p) => isIcePolicy(p.policy),
+  'ice-policy-ack': (p) => isIcePolicy(p.policy),
+  'connection-refused': (p) => isString(p.reason),
+  'share-paused': (p) => p.resumeAt === null || typeof p.resumeAt === 'number',
+  'share-resumed': () => true,
+  'media-tracks': (p) =>
+    isString(p.screen) &&
+    isOptionalString(p.camera) &&
+    Array.isArray(p.sources) &&
+    p.sources.every((source) => isPayload(source) && isString(source.id) && isString(source.trackId)) &&
+    (p.groupAudio === undefined || isOptionalString(p.groupAudio)),
+  'source-names': (p) => isPayload(p.names) && Object.values(p.names).every(isString),
+  'audio-processing-defaults': (p) => isAudioProcessing(p.settings),
+  'active-speaker': (p) => isOptionalString(p.speakerId),
+};
+
+const isKnownType = (type: string): type is DataMessageType =>
+  Object.prototype.hasOwnProperty.call(validators, type);
+
+export type ParsedDataMessage =
+  | { kind: 'message'; message: DataMessage }
+  | { kind: 'unknown'; type: string }
+  | { kind: 'invalid'; reason: string };
+
+// Validate an incoming `conn.on('data')` payload.
+// Unknown types are reported separately so peers running a newer build
+// can be ignored instead of treated as errors.
+export const parseDataMessage = (data: unknown): ParsedDataMessage => {
+  if (typeof data !== 'object' || data === null || !isString((data as Payload).type)) {
+    return { kind: 'invalid', reason: 'Message is missing a string "type" field' };
+  }
+
+  const payload = data as Payload;
+  const type = payload.type as string;
+  if (!isKnownType(type)) {
+    return { kind: 'unknown', type };
+  }
+
+  if (!validators[type](payload)) {
+    return { kind: 'invalid', reason: `Malformed "${type}" message` };
+  }
+
+  return { kind: 'message', message: payload as DataMessage };
+};
+
+export const createHello = (role: PeerRole): DataMessageOf<'hello'> => ({
+  type: 'hello',
+  version: PROTOCOL_VERSION,
+  role,
+});
+
+export const isCompatibleVersion = (version: number) => version === PROTOCOL_VERSION;
+
+export const VERSION_MISMATCH_MESSAGE =
+  'This meeting is running a different version of the app. Please refresh the page to rejoin.';
@@ -0,0 +1,122 @@
+// src/webrtc/qualityPresets.ts
+//
+// Outbound video quality: capture constraints, the track's content hint
+// and encoder parameters on each viewer's RTCRtpSender.
+
+export type QualityPresetId = 'text' | 'motion' | 'low-bandwidth' | 'custom';
+
+export interface QualitySettings {
+  // Encoder limits
+  maxBitrateKbps: number;
+  maxFramerate: number;
+  scaleResolutionDownBy: number;
+  degradationPreference: RTCDegradationPreference;
+  // Capture
+  contentHint: 'detail' | 'text' | 'motion';
+  maxWidth: number;
+  maxHeight: number;
+}
+
+export interface QualityPreset {
+  label: string;
+  description: string;
+  settings: QualitySettings;
+}
+
+export const qualityPresets: Record<Exclude<QualityPresetId, 'custom'>, QualityPreset> = {
+  text: {
+    label: 'Text/Code',
+    description: 'Sharp text, lower framerate',
+    settings: {
+      maxBitrateKbps: 2500,
+      maxFramerate: 15,
+      scaleResolutionDownBy: 1,
+      degradationPreference: 'maintain-resolution',
+      contentHint: 'text',
+      maxWidth: 2560,
+      maxHeight: 1440,
+    },
+  },
+  motion: {
+    label: 'Motion',
+    description: 'Smooth video, resolution drops first',
+    settings: {
+      maxBitrateKbps: 4000,
+      maxFramerate: 30,
+      scaleResolutionDownBy: 1,
+      degradationPreference: 'maintain-framerate',
+      contentHint: 'motion',
+      maxWidth: 1920,
+      maxHeight: 1080,
+    },
+  },
+  'low-bandwidth': {
+    label: 'Low bandwidth',
+    description: 'For slow or metered connections',
+    settings: {
+      maxBitrateKbps: 600,
+      maxFramerate: 10,
+      scaleResolutionDownBy: 2,
+      degradationPreference: 'balanced',
+      contentHint: 'detail',
+      maxWidth: 1280,
+      maxHeight: 720,
+    },
+  },
+};
+
+export const DEFAULT_QUALITY_PRESET: Exclude<QualityPresetId, 'custom'> = 'text';
+
+// The webcam sent as its own track shows as a small bubble for viewers, so
+// it gets a share of the preset's bitrate under a ceiling of its own
+const CAMERA_BITRATE_SHARE = 0.25;
+const CAMERA_MAX_BITRATE_KBPS = 500;
+const CAMERA_MAX_FRAMERATE = 24;
+
+export const getCameraQuality = (settings: QualitySettings): QualitySettings => ({
+  maxBitrateKbps: Math.min(CAMERA_MAX_BITRATE_KBPS, Math.round(settings.maxBitrateKbps * CAMERA_BITRATE_SHARE)),
+  maxFramerate: Math.min(CAMERA_MAX_FRAMERATE, settings.maxFramerate),
+  scaleResolutionDownBy: 1,
+  degradationPreference: 'balanced',
+  contentHint: 'motion',
+  maxWidth: 640,
+  maxHeight: 480,
+});
+
+export const getCaptureConstraints = (settings: QualitySettings): MediaTrackConstraints => ({
+  width: { max: settings.maxWidth },
+  height: { max: settings.maxHeight },
+  frameRate: { max: settings.maxFramerate },
+});
+
+// Update a live capture track. Constraint failures are not fatal: the
+// encoder limits below still apply.
+export const applyTrackQuality = async (track: MediaStreamTrack, settings: QualitySettings) => {
+  track.contentHint = settings.contentHint;
+  try {
+    await track.applyConstraints(getCaptureConstraints(settings));
+  } catch (err) {
+    console.warn('Could not apply capture constraints:', err);
+  }
+};
+
+// `bitrateScale` lets callers lower the bitrate for one viewer without
+// changing the preset
+export const applySenderQuality = async (sender: RTCRtpSender, settings: QualitySettings, bitrateScale = 1) => {
+  const parameters = sender.getParameters();
+  // No encodings until negotiation has finished
+  if (!parameters.encodings?.length) return;
+
+  parameters.encodings.forEach((encoding) => {
+    encoding.maxBitrate = Math.round(settings.maxBitrateKbps * 1000 * bitrateScale);
+    encoding.maxFramerate = settings.maxFramerate;
+    encoding.scaleResolutionDownBy = settings.scaleResolutionDownBy;
+  });
+  parameters.degradationPreference = settings.degradationPreference;
+
+  try {
+    await sender.setParameters(parameters);
+  } catch (err) {
+    console.warn('Could not apply encoder parameters:', err);
+  }
+};
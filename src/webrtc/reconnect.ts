@@ -0,0 +1,112 @@
+// src/webrtc/reconnect.ts
+//
+// Exponential backoff with jitter for retrying connections to a peer
+// that is not (or no longer) online.
+
+import { TypedEmitter } from '@/webrtc/emitter';
+
+export interface BackoffOptions {
+  initialDelayMs: number;
+  maxDelayMs: number;
+  multiplier: number;
+  // Fraction of the delay that is randomised, e.g. 0.3 => +/- 30%
+  jitter: number;
+}
+
+export const defaultBackoffOptions: BackoffOptions = {
+  initialDelayMs: 1000,
+  maxDelayMs: 10000,
+  multiplier: 2,
+  jitter: 0.3,
+};
+
+// Delay before the given attempt (1-based), capped and jittered
+export const computeBackoffDelay = (
+  attempt: number,
+  options: BackoffOptions = defaultBackoffOptions,
+  random: () => number = Math.random
+) => {
+  const base = Math.min(
+    options.maxDelayMs,
+    options.initialDelayMs * Math.pow(options.multiplier, Math.max(0, attempt - 1))
+  );
+  const spread = base * options.jitter;
+  return Math.max(0, Math.round(base - spread + random() * spread * 2));
+};
+
+export interface ReconnectionManagerEvents {
+  'scheduled': [attempt: number, retryAt: number];
+  'attempt': [attempt: number];
+  'reset': [];
+}
+
+export class ReconnectionManager extends TypedEmitter<ReconnectionManagerEvents> {
+  private readonly options: BackoffOptions;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private task: (() => void) | null = null;
+  private currentAttempt = 0;
+  private retryAt: number | null = null;
+
+  constructor(options: Partial<BackoffOptions> = {}) {
+    super();
+    this.options = { ...defaultBackoffOptions, ...options };
+  }
+
+  get attempt() {
+    return this.currentAttempt;
+  }
+
+  get nextRetryAt() {
+    return this.retryAt;
+  }
+
+  get isPending() {
+    return this.timer !== null;
+  }
+
+  // Schedule the next attempt. Does nothing if one is already pending.
+  schedule(task: () => void) {
+    if (this.timer) return;
+
+    this.task = task;
+    const attempt = this.currentAttempt + 1;
+    const delay = computeBackoffDelay(attempt, this.options);
+    this.retryAt = Date.now() + delay;
+    this.timer = setTimeout(() => this.run(), delay);
+    this.emit('scheduled', attempt, this.retryAt);
+  }
+
+  // Run the pending attempt immediately
+  retryNow() {
+    if (!this.timer) return;
+    clearTimeout(this.timer);
+    this.run();
+  }
+
+  // Connection succeeded: start the next outage from the initial delay
+  reset() {
+    this.cancel();
+    if (this.currentAttempt === 0) return;
+    this.currentAttempt = 0;
+    this.emit('reset');
+  }
+
+  cancel() {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.task = null;
+    this.retryAt = null;
+  }
+
+  private run() {
+    const task = this.task;
+    this.timer = null;
+    this.task = null;
+    this.retryAt = null;
+    this.currentAttempt += 1;
+    this.emit('attempt', this.currentAttempt);
+    task?.();
+  }
+}
@@ -0,0 +1,150 @@
+// src/webrtc/regionCrop.ts
+//
+// Cropping the shared capture. When the presenter shares this app's own
+// tab, the Region Capture API crops the track to a registered element in
+// the browser itself. Any other surface is cropped on a canvas instead.
+
+import { TypedEmitter } from '@/webrtc/emitter';
+import { startTicker } from '@/webrtc/ticker';
+
+// Fractions of the capture, so the region survives resolution changes
+export interface CropRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Anything smaller is treated as an accidental click rather than a region
+export const MIN_CROP_SIZE = 0.05;
+
+// Region Capture is not in lib.dom yet
+interface CropTargetApi {
+  fromElement(element: Element): Promise<unknown>;
+}
+type CroppableTrack = MediaStreamTrack & { cropTo(target: unknown): Promise<void> };
+
+const getCropTargetApi = () => (globalThis as { CropTarget?: CropTargetApi }).CropTarget;
+
+export const isRegionCaptureSupported = () =>
+  getCropTargetApi() !== undefined && typeof (MediaStreamTrack.prototype as Partial<CroppableTrack>).cropTo === 'function';
+
+// Crop a capture of this tab to an element, or back to the whole tab with
+// null. Rejects when the track is not a capture of this tab.
+export const cropTrackToElement = async (track: MediaStreamTrack, element: Element | null) => {
+  const api = getCropTargetApi();
+  if (!api) throw new Error('Region Capture is not supported');
+  const target = element ? await api.fromElement(element) : null;
+  await (track as CroppableTrack).cropTo(target);
+};
+
+export interface CropTarget {
+  id: string;
+  name: string;
+  element: Element;
+}
+
+interface CropTargetStoreEvents {
+  'change': [targets: CropTarget[]];
+}
+
+// Elements of this app that can be shared on their own. Pages register
+// them while mounted (see useCropTarget).
+export class CropTargetStore extends TypedEmitter<CropTargetStoreEvents> {
+  private targets: CropTarget[] = [];
+
+  getSnapshot = (): CropTarget[] => this.targets;
+
+  // useSyncExternalStore-compatible subscription
+  subscribe = (listener: () => void) => this.on('change', listener);
+
+  get(id: string) {
+    return this.targets.find((target) => target.id === id) ?? null;
+  }
+
+  // Returns a function that unregisters the element again
+  register(id: string, name: string, element: Element) {
+    const target = { id, name, element };
+    this.targets = [...this.targets.filter((existing) => existing.id !== id), target];
+    this.emit('change', this.targets);
+
+    return () => {
+      if (!this.targets.includes(target)) return;
+      this.targets = this.targets.filter((existing) => existing !== target);
+      this.emit('change', this.targets);
+    };
+  }
+}
+
+export const cropTargetStore = new CropTargetStore();
+
+const createVideoElement = (track: MediaStreamTrack) => {
+  const video = document.createElement('video');
+  video.muted = true;
+  video.playsInline = true;
+  video.srcObject = new MediaStream([track]);
+  video.play().catch((err) => console.warn('Could not play crop source:', err));
+  return video;
+};
+
+// Canvas fallback: draws the chosen region of the capture at its native
+// resolution and captures that as a new track
+export class CanvasCropper {
+  private readonly canvas: HTMLCanvasElement;
+  private readonly ctx: CanvasRenderingContext2D;
+  private readonly sourceVideo: HTMLVideoElement;
+  private readonly stopTicker: () => void;
+  private readonly output: MediaStreamTrack;
+  private region: CropRegion;
+
+  constructor(sourceTrack: MediaStreamTrack, region: CropRegion, fps: number) {
+    this.canvas = document.createElement('canvas');
+    const ctx = this.canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas 2D context unavailable');
+    this.ctx = ctx;
+
+    this.region = region;
+    this.sourceVideo = createVideoElement(sourceTrack);
+
+    const { width = 1280, height = 720 } = sourceTrack.getSettings();
+    this.canvas.width = Math.max(1, Math.round(width * region.width));
+    this.canvas.height = Math.max(1, Math.round(height * region.height));
+
+    this.output = this.canvas.captureStream(fps).getVideoTracks()[0];
+    this.output.contentHint = sourceTrack.contentHint;
+    this.stopTicker = startTicker(1000 / fps, () => this.draw());
+  }
+
+  get outputTrack() {
+    return this.output;
+  }
+
+  setRegion(region: CropRegion) {
+    this.region = region;
+  }
+
+  dispose() {
+    this.stopTicker();
+    this.output.stop();
+    this.sourceVideo.srcObject = null;
+  }
+
+  private draw() {
+    const { ctx, canvas, sourceVideo, region } = this;
+    if (sourceVideo.readyState < HTMLMediaElement.HAVE_CURRENT_DATA || !sourceVideo.videoWidth) return;
+
+    const sourceX = sourceVideo.videoWidth * region.x;
+    const sourceY = sourceVideo.videoHeight * region.y;
+    const sourceWidth = sourceVideo.videoWidth * region.width;
+    const sourceHeight = sourceVideo.videoHeight * region.height;
+
+    // Keep the output at the region's native size as the region or source changes
+    const width = Math.max(1, Math.round(sourceWidth));
+    const height = Math.max(1, Math.round(sourceHeight));
+    if (canvas.width !== width || canvas.height !== height) {
+      canvas.width = width;
+      canvas.height = height;
+    }
+    ctx.drawImage(sourceVideo, sourceX, sourceY, sourceWidth, sourceHeight, 0, 0, width, height);
+  }
+}
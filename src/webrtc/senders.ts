@@ -0,0 +1,33 @@
+// src/webrtc/senders.ts
+//
+// Helpers for the RTCRtpSenders behind PeerJS media calls.
+
+export const getSender = (peerConnection: RTCPeerConnection | undefined, kind: 'audio' | 'video') =>
+  peerConnection?.getSenders().find((sender) => sender.track?.kind === kind) ?? null;
+
+// Swap the outgoing track of the matching kind without renegotiating, so
+// the call (and everything keyed on it) stays up
+export const replaceSenderTrack = async (peerConnection: RTCPeerConnection | undefined, track: MediaStreamTrack) => {
+  const sender = getSender(peerConnection, track.kind as 'audio' | 'video');
+  if (!sender) return false;
+
+  try {
+    await sender.replaceTrack(track);
+    return true;
+  } catch (err) {
+    console.warn('Could not replace outgoing track:', err);
+    return false;
+  }
+};
+
+// Stop sending a track without renegotiating; the receiver's track just goes quiet
+export const detachSenderTrack = async (peerConnection: RTCPeerConnection | undefined, track: MediaStreamTrack) => {
+  const sender = peerConnection?.getSenders().find((candidate) => candidate.track === track);
+  if (!sender) return;
+
+  try {
+    await sender.replaceTrack(null);
+  } catch (err) {
+    console.warn('Could not detach outgoing track:', err);
+  }
+};
@@ -0,0 +1,134 @@
+// src/webrtc/sessionPersistence.ts
+//
+// Presenter session metadata kept in sessionStorage so a reloaded or
+// crashed presenter tab can reclaim its room without ending the meeting.
+
+import { VideoCodecPreference, videoCodecs } from '@/webrtc/codecs';
+import { DEFAULT_QUALITY_PRESET, QualityPresetId, qualityPresets, QualitySettings } from '@/webrtc/qualityPresets';
+
+export type StorageLike = Pick<Storage, 'getItem' | 'setItem' | 'removeItem'>;
+
+// Increment if the stored shape changes; older records are discarded
+const STORAGE_VERSION = 1;
+
+// Records older than this are treated as an abandoned session. A live
+// session re-saves well within it, so a quiet meeting is not mistaken for one.
+const MAX_RECORD_AGE_MS = 30 * 60 * 1000;
+export const PERSIST_REFRESH_MS = 5 * 60 * 1000;
+
+export interface PersistedPresenterSession {
+  roomId: string;
+  isMicOn: boolean;
+  relayOnly: boolean;
+  groupAudio: boolean;
+  qualityPreset: QualityPresetId;
+  qualitySettings: QualitySettings;
+  videoCodec: VideoCodecPreference;
+  mutedViewers: string[];
+  knownViewerIds: string[];
+  savedAt: number;
+}
+
+interface StoredRecord extends PersistedPresenterSession {
+  version: number;
+}
+
+const storageKey = (roomId: string) => `presenter-session:${roomId}`;
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((item) => typeof item === 'string');
+
+const isQualityPresetId = (value: unknown): value is QualityPresetId =>
+  value === 'custom' || (typeof value === 'string' && Object.prototype.hasOwnProperty.call(qualityPresets, value));
+
+// Same fields, with the same types, as a built-in preset
+const isQualitySettings = (value: unknown): value is QualitySettings =>
+  typeof value === 'object' &&
+  value !== null &&
+  Object.entries(qualityPresets.text.settings).every(
+    ([key, example]) => typeof (value as Record<string, unknown>)[key] === typeof example
+  );
+
+const isVideoCodecPreference = (value: unknown): value is VideoCodecPreference =>
+  value === 'auto' || videoCodecs.some((codec) => codec === value);
+
+export const getDefaultSessionStorage = (): StorageLike | null => {
+  try {
+    return typeof window !== 'undefined' ? window.sessionStorage : null;
+  } catch {
+    // Accessing sessionStorage throws when storage is disabled
+    return null;
+  }
+};
+
+export const loadPresenterSession = (
+  storage: StorageLike | null,
+  roomId: string,
+  now = Date.now()
+): PersistedPresenterSession | null => {
+  if (!storage) return null;
+
+  try {
+    const raw = storage.getItem(storageKey(roomId));
+    if (!raw) return null;
+
+    const record = JSON.parse(raw) as Partial<StoredRecord>;
+    const isValid =
+      record.version === STORAGE_VERSION &&
+      record.roomId === roomId &&
+      typeof record.isMicOn === 'boolean' &&
+      isStringArray(record.mutedViewers) &&
+      isStringArray(record.knownViewerIds) &&
+      typeof record.savedAt === 'number';
+
+    if (!isValid || now - record.savedAt > MAX_RECORD_AGE_MS) {
+      storage.removeItem(storageKey(roomId));
+      return null;
+    }
+
+    // Quality and codec were added after v1 records were written; absent
+    // or unreadable values fall back to the defaults
+    const qualityPreset = isQualityPresetId(record.qualityPreset) ? record.qualityPreset : DEFAULT_QUALITY_PRESET;
+    const qualitySettings = isQualitySettings(record.qualitySettings)
+      ? record.qualitySettings
+      : qualityPresets[qualityPreset === 'custom' ? DEFAULT_QUALITY_PRESET : qualityPreset].settings;
+
+    return {
+      roomId,
+      isMicOn: record.isMicOn,
+      // Added after v1 records were written; absent means off
+      relayOnly: record.relayOnly === true,
+      groupAudio: record.groupAudio === true,
+      qualityPreset,
+      qualitySettings,
+      videoCodec: isVideoCodecPreference(record.videoCodec) ? record.videoCodec : 'auto',
+      mutedViewers: record.mutedViewers,
+      knownViewerIds: record.knownViewerIds,
+      savedAt: record.savedAt,
+    };
+  } catch (err) {
+    console.warn('Could not read persisted presenter session:', err);
+    return null;
+  }
+};
+
+export const savePresenterSession = (storage: StorageLike | null, session: PersistedPresenterSession) => {
+  if (!storage) return;
+
+  try {
+    const record: StoredRecord = { ...session, version: STORAGE_VERSION };
+    storage.setItem(storageKey(session.roomId), JSON.stringify(record));
+  } catch (err) {
+    console.warn('Could not persist presenter session:', err);
+  }
+};
+
+export const clearPresenterSession = (storage: StorageLike | null, roomId: string) => {
+  if (!storage) return;
+
+  try {
+    storage.removeItem(storageKey(roomId));
+  } catch (err) {
+    console.warn('Could not clear persisted presenter session:', err);
+  }
+};
@@ -0,0 +1,82 @@
+// src/webrtc/slate.ts
+//
+// "Be right back" slate rendered to a canvas and captured as a video
+// track, sent in place of the screen while sharing is paused.
+
+import { startTicker } from '@/webrtc/ticker';
+
+export interface SlateOptions {
+  title: string;
+  // Shown as a countdown when set
+  resumeAt: number | null;
+  width: number;
+  height: number;
+}
+
+export interface Slate {
+  track: MediaStreamTrack;
+  stop: () => void;
+}
+
+// Low framerate is enough for a mostly static image with a seconds countdown
+const SLATE_FPS = 5;
+const REDRAW_INTERVAL_MS = 500;
+
+const formatRemaining = (ms: number) => {
+  const totalSeconds = Math.ceil(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+const draw = (ctx: CanvasRenderingContext2D, { title, resumeAt, width, height }: SlateOptions) => {
+  ctx.fillStyle = '#0f172a';
+  ctx.fillRect(0, 0, width, height);
+
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  const unit = height / 20;
+
+  ctx.fillStyle = '#94a3b8';
+  ctx.font = `${unit}px sans-serif`;
+  ctx.fillText(title, width / 2, height / 2 - unit * 3);
+
+  ctx.fillStyle = '#f8fafc';
+  ctx.font = `bold ${unit * 2.5}px sans-serif`;
+  ctx.fillText('Be right back', width / 2, height / 2);
+
+  if (resumeAt !== null) {
+    const remaining = resumeAt - Date.now();
+    ctx.fillStyle = '#94a3b8';
+    ctx.font = `${unit * 1.2}px sans-serif`;
+    ctx.fillText(
+      remaining > 0 ? `Back in ${formatRemaining(remaining)}` : 'Back shortly',
+      width / 2,
+      height / 2 + unit * 3
+    );
+  }
+};
+
+export const createSlate = (options: SlateOptions): Slate => {
+  const canvas = document.createElement('canvas');
+  canvas.width = options.width;
+  canvas.height = options.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context unavailable');
+
+  draw(ctx, options);
+  const track = canvas.captureStream(SLATE_FPS).getVideoTracks()[0];
+  track.contentHint = 'detail';
+
+  // Keep repainting: some encoders stop sending frames for an unchanged canvas.
+  // The presenter is likely on another tab while paused, hence the worker ticker.
+  const stopTicker = startTicker(REDRAW_INTERVAL_MS, () => draw(ctx, options));
+
+  return {
+    track,
+    stop: () => {
+      stopTicker();
+      track.stop();
+    },
+  };
+};
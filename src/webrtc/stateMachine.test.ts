@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { presenterMachine, viewerMachine } from '@/webrtc/machines';
+import { StateMachine } from '@/webrtc/stateMachine';
+
+describe('StateMachine', () => {
+  it('applies legal events and reports the transition', () => {
+    const machine = new StateMachine(viewerMachine);
+    const records: string[] = [];
+    machine.onTransition(({ from, to, event }) => records.push(`${from} -${event}-> ${to}`));
+
+    expect(machine.send('PEER_OPEN')).toBe(true);
+    expect(machine.state).toBe('waiting');
+    expect(records).toEqual(['connecting -PEER_OPEN-> waiting']);
+  });
+
+  it('ignores illegal events', () => {
+    const machine = new StateMachine(viewerMachine);
+    expect(machine.send('REJOIN')).toBe(false);
+    expect(machine.state).toBe('connecting');
+  });
+
+  it('accepts self-transitions without notifying', () => {
+    const machine = new StateMachine(viewerMachine);
+    machine.send('PEER_OPEN');
+    let notified = false;
+    machine.onTransition(() => {
+      notified = true;
+    });
+
+    expect(machine.send('PEER_OPEN')).toBe(true);
+    expect(notified).toBe(false);
+  });
+
+  it('checks guards against the current context', () => {
+    let hasStream = false;
+    const machine = new StateMachine(presenterMachine, () => ({ hasStream }));
+    machine.send('CONNECT');
+    machine.send('PEER_OPEN');
+
+    expect(machine.can('SHARE_STARTED')).toBe(false);
+    hasStream = true;
+    expect(machine.send('SHARE_STARTED')).toBe(true);
+    expect(machine.state).toBe('sharing');
+  });
+});
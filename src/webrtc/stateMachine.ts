@@ -0,0 +1,96 @@
+// src/webrtc/stateMachine.ts
+//
+// Small finite state machine used for the presenter and viewer lifecycles.
+// Definitions declare every legal transition; anything else is logged and ignored.
+
+import { TypedEmitter } from '@/webrtc/emitter';
+
+export type Transition<S extends string, C> = S | { target: S; guard?: (context: C) => boolean };
+
+export interface MachineDefinition<S extends string, E extends string, C = void> {
+  id: string;
+  initial: S;
+  states: { [K in S]: { on?: { [Ev in E]?: Transition<S, C> } } };
+}
+
+export interface TransitionRecord<S extends string, E extends string> {
+  from: S;
+  to: S;
+  event: E;
+}
+
+// Resolve the target state for an event, or null if the transition is
+// not declared or its guard rejects it. Pure, so definitions can be
+// checked without instantiating a machine.
+export function resolveTransition<S extends string, E extends string, C>(
+  definition: MachineDefinition<S, E, C>,
+  state: S,
+  event: E,
+  context: C
+): S | null {
+  const transition: Transition<S, C> | undefined = definition.states[state].on?.[event];
+  if (transition === undefined) return null;
+  if (typeof transition === 'string') return transition;
+  if (transition.guard && !transition.guard(context)) return null;
+  return transition.target;
+}
+
+interface StateMachineEvents<S extends string, E extends string> {
+  'transition': [record: TransitionRecord<S, E>];
+}
+
+export class StateMachine<S extends string, E extends string, C = void> extends TypedEmitter<StateMachineEvents<S, E>> {
+  private current: S;
+
+  constructor(
+    private readonly definition: MachineDefinition<S, E, C>,
+    private readonly getContext: () => C = () => undefined as C
+  ) {
+    super();
+    this.current = definition.initial;
+  }
+
+  get state(): S {
+    return this.current;
+  }
+
+  can(event: E): boolean {
+    return resolveTransition(this.definition, this.current, event, this.getContext()) !== null;
+  }
+
+  // Apply an event. Returns false (and logs) if the transition is illegal.
+  send(event: E): boolean {
+    const from = this.current;
+    const to = resolveTransition(this.definition, from, event, this.getContext());
+
+    if (to === null) {
+      console.warn(`[${this.definition.id}] Ignoring illegal transition "${event}" in state "${from}"`);
+      return false;
+    }
+
+    // Self-transitions are accepted but have no side effects
+    if (to === from) return true;
+
+    this.current = to;
+    this.emit('transition', { from, to, event });
+    return true;
+  }
+
+  onTransition(listener: (record: TransitionRecord<S, E>) => void): () => void {
+    return this.on('transition', listener);
+  }
+
+  // Run a side effect whenever the machine enters the given state
+  onEnter(state: S, hook: (record: TransitionRecord<S, E>) => void): () => void {
+    return this.on('transition', (record) => {
+      if (record.to === state) hook(record);
+    });
+  }
+
+  // Run a side effect whenever the machine leaves the given state
+  onExit(state: S, hook: (record: TransitionRecord<S, E>) => void): () => void {
+    return this.on('transition', (record) => {
+      if (record.from === state) hook(record);
+    });
+  }
+}
@@ -0,0 +1,104 @@
+// src/webrtc/stats.ts
+//
+// Helpers for reading RTCPeerConnection.getStats() reports.
+
+export interface CandidatePair {
+  localType: RTCIceCandidateType | null;
+  remoteType: RTCIceCandidateType | null;
+  currentRoundTripTime: number | null;
+}
+
+// The candidate pair media is currently flowing over, if any
+export const getSelectedCandidatePair = async (peerConnection: RTCPeerConnection): Promise<CandidatePair | null> => {
+  const report = await peerConnection.getStats();
+
+  let pair: RTCIceCandidatePairStats | undefined;
+  report.forEach((stat) => {
+    if (stat.type === 'transport' && stat.selectedCandidatePairId) {
+      pair = report.get(stat.selectedCandidatePairId);
+    }
+  });
+
+  // Firefox does not expose selectedCandidatePairId on the transport
+  if (!pair) {
+    report.forEach((stat) => {
+      if (stat.type === 'candidate-pair' && stat.nominated && stat.state === 'succeeded') {
+        pair = stat;
+      }
+    });
+  }
+
+  if (!pair) return null;
+
+  const local = report.get(pair.localCandidateId);
+  const remote = report.get(pair.remoteCandidateId);
+  return {
+    localType: local?.candidateType ?? null,
+    remoteType: remote?.candidateType ?? null,
+    currentRoundTripTime: pair.currentRoundTripTime ?? null,
+  };
+};
+
+// True when either side of the selected pair goes through a TURN server
+export const isRelayedConnection = async (peerConnection: RTCPeerConnection) => {
+  const pair = await getSelectedCandidatePair(peerConnection);
+  return pair !== null && (pair.localType === 'relay' || pair.remoteType === 'relay');
+};
+
+// Cumulative counters for the outbound video stream, as reported by the
+// receiver (remote-inbound-rtp) and the transport
+export interface OutboundVideoSample {
+  timestamp: number;
+  packetsSent: number;
+  packetsLost: number;
+  roundTripTime: number | null;
+  // Estimate from the bandwidth estimator in bits per second; Chromium only
+  availableOutgoingBitrate: number | null;
+}
+
+// remote-inbound-rtp is missing from lib.dom
+interface RemoteInboundRtpStats extends RTCReceivedRtpStreamStats {
+  roundTripTime?: number;
+}
+
+// A call can carry several video senders (screen, camera, extra sources);
+// the sender's own report keeps them apart, and the receiver's view of the
+// stream is matched by SSRC
+const getOutboundRtp = (report: RTCStatsReport) => {
+  let outbound: RTCOutboundRtpStreamStats | undefined;
+  report.forEach((stat) => {
+    if (!outbound && stat.type === 'outbound-rtp' && stat.kind === 'video') outbound = stat;
+  });
+  return outbound;
+};
+
+export const getOutboundVideoSample = async (sender: RTCRtpSender): Promise<OutboundVideoSample | null> => {
+  const report = await sender.getStats();
+  const outbound = getOutboundRtp(report);
+  if (!outbound) return null;
+
+  let remoteInbound: RemoteInboundRtpStats | undefined;
+  let pair: RTCIceCandidatePairStats | undefined;
+  report.forEach((stat) => {
+    if (stat.type === 'remote-inbound-rtp' && stat.ssrc === outbound.ssrc) remoteInbound = stat;
+    if (stat.type === 'candidate-pair' && stat.nominated && stat.state === 'succeeded') pair = stat;
+  });
+
+  return {
+    timestamp: outbound.timestamp,
+    packetsSent: outbound.packetsSent ?? 0,
+    packetsLost: remoteInbound?.packetsLost ?? 0,
+    roundTripTime: remoteInbound?.roundTripTime ?? pair?.currentRoundTripTime ?? null,
+    availableOutgoingBitrate: pair?.availableOutgoingBitrate ?? null,
+  };
+};
+
+// MIME type of the codec a video sender is encoding with, e.g. "video/VP9"
+export const getOutboundVideoCodec = async (sender: RTCRtpSender): Promise<string | null> => {
+  const report = await sender.getStats();
+  const codecId = getOutboundRtp(report)?.codecId;
+
+  // The codec stats entry is missing from lib.dom
+  const codec: { mimeType?: string } | undefined = codecId ? report.get(codecId) : undefined;
+  return codec?.mimeType ?? null;
+};
@@ -0,0 +1,81 @@
+// src/webrtc/testing/fakeAudioContext.ts
+//
+// Just enough of Web Audio to check how a graph is wired: every node
+// records what it is connected to. Nothing is actually mixed.
+
+export class FakeAudioNode {
+  readonly outputs = new Set<FakeAudioNode>();
+
+  constructor(readonly context: FakeAudioContext) {}
+
+  connect(destination: FakeAudioNode) {
+    this.outputs.add(destination);
+    return destination;
+  }
+
+  // Without a destination, disconnects everything, as in Web Audio
+  disconnect(destination?: FakeAudioNode) {
+    if (destination) {
+      this.outputs.delete(destination);
+    } else {
+      this.outputs.clear();
+    }
+  }
+}
+
+export class FakeAudioParam {
+  constructor(public value: number) {}
+
+  setTargetAtTime(target: number) {
+    this.value = target;
+  }
+}
+
+export class FakeGainNode extends FakeAudioNode {
+  readonly gain = new FakeAudioParam(1);
+}
+
+export class FakeMediaStreamSource extends FakeAudioNode {
+  constructor(context: FakeAudioContext, readonly mediaStream: MediaStream) {
+    super(context);
+  }
+}
+
+export class FakeMediaStreamDestination extends FakeAudioNode {
+  readonly track = { kind: 'audio', stop: () => {} } as unknown as MediaStreamTrack;
+  readonly stream = {
+    getAudioTracks: () => [this.track],
+    getTracks: () => [this.track],
+  } as unknown as MediaStream;
+}
+
+export class FakeAudioContext {
+  state: AudioContextState = 'running';
+  currentTime = 0;
+  readonly sources: FakeMediaStreamSource[] = [];
+  readonly destinations: FakeMediaStreamDestination[] = [];
+
+  createMediaStreamSource(stream: MediaStream) {
+    const source = new FakeMediaStreamSource(this, stream);
+    this.sources.push(source);
+    return source;
+  }
+
+  createMediaStreamDestination() {
+    const destination = new FakeMediaStreamDestination(this);
+    this.destinations.push(destination);
+    return destination;
+  }
+
+  createGain() {
+    return new FakeGainNode(this);
+  }
+
+  async resume() {
+    this.state = 'running';
+  }
+
+  async close() {
+    this.state = 'closed';
+  }
+}
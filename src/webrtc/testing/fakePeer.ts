@@ -0,0 +1,171 @@
+// src/webrtc/testing/fakePeer.ts
+//
+// In-memory stand-in for PeerJS and its signalling server, for driving the
+// session engines through their createPeer injection point. Delivery is
+// asynchronous (microtasks), like the real thing. Media calls are not
+// simulated.
+
+import type Peer from 'peerjs';
+import type { PeerOptions } from 'peerjs';
+import { TypedEmitter } from '@/webrtc/emitter';
+
+interface FakePeerEvents {
+  'open': [id: string];
+  'connection': [conn: FakeDataConnection];
+  'call': [call: unknown];
+  'error': [err: { type: string; message: string }];
+  'disconnected': [id: string];
+  'close': [];
+}
+
+interface FakeDataConnectionEvents {
+  'open': [];
+  'data': [data: unknown];
+  'close': [];
+  'error': [err: Error];
+}
+
+export class FakeDataConnection extends TypedEmitter<FakeDataConnectionEvents> {
+  open = false;
+  // Everything sent through this end, oldest first
+  readonly sent: unknown[] = [];
+  remote: FakeDataConnection | null = null;
+
+  // `peer` is the ID of the other side, as in PeerJS
+  constructor(readonly peer: string) {
+    super();
+  }
+
+  send(data: unknown) {
+    if (!this.open) return;
+    this.sent.push(data);
+    const remote = this.remote;
+    queueMicrotask(() => {
+      if (remote?.open) remote.emit('data', data);
+    });
+  }
+
+  // Data sent before closing still arrives, as with a real data channel
+  close() {
+    const remote = this.remote;
+    if (this.open) {
+      this.open = false;
+      queueMicrotask(() => this.emit('close'));
+    }
+    queueMicrotask(() => {
+      if (!remote?.open) return;
+      remote.open = false;
+      remote.emit('close');
+    });
+  }
+
+  // Called by the network once both ends exist
+  connect() {
+    this.open = true;
+    queueMicrotask(() => this.emit('open'));
+  }
+}
+
+export class FakePeer extends TypedEmitter<FakePeerEvents> {
+  open = false;
+  disconnected = true;
+  destroyed = false;
+  readonly options: PeerOptions;
+  readonly connections: FakeDataConnection[] = [];
+
+  constructor(
+    private readonly network: FakePeerNetwork,
+    readonly id: string,
+    options: PeerOptions = {}
+  ) {
+    super();
+    this.options = { ...options };
+    this.reconnect();
+  }
+
+  connect(remoteId: string) {
+    const local = new FakeDataConnection(remoteId);
+    this.connections.push(local);
+    const remotePeer = this.network.getOpenPeer(remoteId);
+    if (!remotePeer) {
+      queueMicrotask(() =>
+        this.emit('error', { type: 'peer-unavailable', message: `Could not connect to peer ${remoteId}` })
+      );
+      return local;
+    }
+
+    const remote = new FakeDataConnection(this.id);
+    remotePeer.connections.push(remote);
+    local.remote = remote;
+    remote.remote = local;
+    queueMicrotask(() => {
+      remotePeer.emit('connection', remote);
+      remote.connect();
+      local.connect();
+    });
+    return local;
+  }
+
+  call(): never {
+    throw new Error('Media calls are not simulated by FakePeer');
+  }
+
+  // Opens on the next microtask if the server is up; fails like PeerJS otherwise
+  reconnect() {
+    if (this.destroyed || !this.disconnected) return;
+    queueMicrotask(() => {
+      if (this.destroyed || !this.disconnected) return;
+      if (!this.network.isServerUp) {
+        this.dropFromServer();
+        return;
+      }
+      this.disconnected = false;
+      this.open = true;
+      this.emit('open', this.id);
+    });
+  }
+
+  // The signalling socket closed, in PeerJS's order: error, then disconnected
+  dropFromServer() {
+    this.open = false;
+    this.disconnected = true;
+    this.emit('error', { type: 'network', message: 'Lost connection to server.' });
+    this.emit('disconnected', this.id);
+  }
+
+  destroy() {
+    if (this.destroyed) return;
+    this.connections.forEach((conn) => conn.close());
+    this.open = false;
+    this.disconnected = true;
+    this.emit('disconnected', this.id);
+    this.destroyed = true;
+    this.network.remove(this);
+    this.emit('close');
+  }
+}
+
+export class FakePeerNetwork {
+  isServerUp = true;
+  private peers = new Map<string, FakePeer>();
+
+  // Matches the createPeer option of both session engines
+  createPeer = (id: string, options: PeerOptions): Peer => {
+    const peer = new FakePeer(this, id, options);
+    this.peers.set(id, peer);
+    return peer as unknown as Peer;
+  };
+
+  getPeer(id: string) {
+    return this.peers.get(id) ?? null;
+  }
+
+  getOpenPeer(id: string) {
+    const peer = this.peers.get(id);
+    return peer?.open ? peer : null;
+  }
+
+  remove(peer: FakePeer) {
+    if (this.peers.get(peer.id) === peer) this.peers.delete(peer.id);
+  }
+}
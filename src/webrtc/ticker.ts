@@ -0,0 +1,24 @@
+// src/webrtc/ticker.ts
+//
+// Repeating timer for render loops. Presenters usually switch to the
+// tab they are sharing, and background tabs throttle setInterval and
+// requestAnimationFrame on the main thread, which would freeze a
+// canvas-composited stream. Worker timers are not throttled that way.
+
+const WORKER_SOURCE = 'let timer; onmessage = (e) => { clearInterval(timer); timer = setInterval(() => postMessage(0), e.data); };';
+
+// Calls `tick` every `intervalMs` until the returned function is called
+export const startTicker = (intervalMs: number, tick: () => void): (() => void) => {
+  try {
+    const url = URL.createObjectURL(new Blob([WORKER_SOURCE], { type: 'text/javascript' }));
+    const worker = new Worker(url);
+    URL.revokeObjectURL(url);
+    worker.onmessage = () => tick();
+    worker.postMessage(intervalMs);
+    return () => worker.terminate();
+  } catch (err) {
+    console.warn('Worker timer unavailable, falling back to setInterval:', err);
+    const timer = setInterval(tick, intervalMs);
+    return () => clearInterval(timer);
+  }
+};
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { createTurnRestCredentials, isTurnRestResponse, turnRestToIceServer } from '@/webrtc/turnCredentials';
+
+const URIS = ['turn:turn.example.com:3478?transport=udp', 'turns:turn.example.com:5349'];
+
+describe('createTurnRestCredentials', () => {
+  // Expected password computed independently:
+  // base64(HMAC-SHA1("north-secret", "1700086400:alice"))
+  it('matches a known HMAC-SHA1 vector', async () => {
+    const credentials = await createTurnRestCredentials('north-secret', URIS, 86400, 'alice', 1700000000000);
+
+    expect(credentials).toEqual({
+      username: '1700086400:alice',
+      password: 'Nni2GlD6PVaoCP0Cx2DhLKDWjyY=',
+      ttl: 86400,
+      uris: URIS,
+    });
+  });
+
+  it('puts the expiry in whole seconds before the user', async () => {
+    const credentials = await createTurnRestCredentials('north-secret', URIS, 600, undefined, 1700000000999);
+
+    expect(credentials.username).toBe('1700000600:screenshare');
+  });
+
+  it('signs each username differently', async () => {
+    const first = await createTurnRestCredentials('north-secret', URIS, 600, 'alice', 1700000000000);
+    const later = await createTurnRestCredentials('north-secret', URIS, 600, 'alice', 1700000060000);
+    const otherSecret = await createTurnRestCredentials('south-secret', URIS, 600, 'alice', 1700000000000);
+
+    expect(later.password).not.toBe(first.password);
+    expect(otherSecret.password).not.toBe(first.password);
+  });
+});
+
+describe('TURN REST responses', () => {
+  const response = { username: '1700086400:alice', password: 'secret', ttl: 86400, uris: URIS };
+
+  it('recognises a TURN REST response', () => {
+    expect(isTurnRestResponse(response)).toBe(true);
+    expect(isTurnRestResponse({ ...response, ttl: '86400' })).toBe(false);
+    expect(isTurnRestResponse({ ...response, uris: [1] })).toBe(false);
+    expect(isTurnRestResponse({ iceServers: [] })).toBe(false);
+    expect(isTurnRestResponse(null)).toBe(false);
+  });
+
+  it('maps the response to an ICE server', () => {
+    expect(turnRestToIceServer(response)).toEqual({
+      urls: URIS,
+      username: '1700086400:alice',
+      credential: 'secret',
+    });
+  });
+});
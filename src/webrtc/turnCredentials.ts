@@ -0,0 +1,65 @@
+// src/webrtc/turnCredentials.ts
+//
+// Time-limited TURN credentials per the TURN REST API draft
+// (draft-uberti-behave-turn-rest): username is "<expiry>:<user>" and the
+// password is base64(HMAC-SHA1(shared secret, username)).
+
+export interface TurnRestResponse {
+  username: string;
+  password: string;
+  // Lifetime of the credentials in seconds
+  ttl: number;
+  uris: string[];
+}
+
+export const isTurnRestResponse = (value: unknown): value is TurnRestResponse => {
+  if (typeof value !== 'object' || value === null) return false;
+  const candidate = value as Record<string, unknown>;
+  return (
+    typeof candidate.username === 'string' &&
+    typeof candidate.password === 'string' &&
+    typeof candidate.ttl === 'number' &&
+    Array.isArray(candidate.uris) &&
+    candidate.uris.every((uri) => typeof uri === 'string')
+  );
+};
+
+export const turnRestToIceServer = (response: TurnRestResponse): RTCIceServer => ({
+  urls: response.uris,
+  username: response.username,
+  credential: response.password,
+});
+
+const toBase64 = (buffer: ArrayBuffer) => {
+  let binary = '';
+  new Uint8Array(buffer).forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+};
+
+// Generate credentials locally from the shared secret. Only suitable for
+// development or a local stand-in: anyone with the bundle has the secret.
+// Production deployments should serve these from a config endpoint.
+export const createTurnRestCredentials = async (
+  secret: string,
+  uris: string[],
+  ttlSeconds: number,
+  userId = 'screenshare',
+  now = Date.now()
+): Promise<TurnRestResponse> => {
+  const expiry = Math.floor(now / 1000) + ttlSeconds;
+  const username = `${expiry}:${userId}`;
+
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-1' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(username));
+
+  return { username, password: toBase64(signature), ttl: ttlSeconds, uris };
+};
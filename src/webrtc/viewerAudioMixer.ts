@@ -0,0 +1,206 @@
+// src/webrtc/viewerAudioMixer.ts
+//
+// Plays viewer microphones on the presenter's side through one Web Audio
+// graph: a gain per viewer feeding a master gain. Volume, mute and solo
+// here are local only; muting a viewer for everyone goes through the
+// session instead.
+
+import { CreateAudioContext, MAX_AUDIO_GAIN } from '@/webrtc/audioMixer';
+import { applySpeaker } from '@/webrtc/devicePreferences';
+import { TypedEmitter } from '@/webrtc/emitter';
+
+export interface ViewerAudioMixState {
+  // Browsers keep audio suspended until a click; see enable()
+  isEnabled: boolean;
+  isMuted: boolean;
+  // Settings by viewer ID. Volume and mute are kept across reconnects.
+  volumes: Record<string, number>;
+  mutedIds: Set<string>;
+  soloIds: Set<string>;
+}
+
+interface ViewerAudioMixerEvents {
+  'change': [state: ViewerAudioMixState];
+}
+
+interface ViewerChannel {
+  source: MediaStreamAudioSourceNode;
+  gain: GainNode;
+  // Chrome only feeds remote WebRTC audio into Web Audio while the stream
+  // is also attached to a media element, so each viewer gets a muted one
+  sink: HTMLAudioElement;
+}
+
+export const idleViewerAudioMixState: ViewerAudioMixState = {
+  isEnabled: false,
+  isMuted: false,
+  volumes: {},
+  mutedIds: new Set(),
+  soloIds: new Set(),
+};
+
+const DEFAULT_VOLUME = 1;
+
+const defaultCreateAudioContext: CreateAudioContext = () => new AudioContext();
+
+export class ViewerAudioMixer extends TypedEmitter<ViewerAudioMixerEvents> {
+  private readonly createContext: CreateAudioContext;
+  private context: AudioContext | null = null;
+  private master: GainNode | null = null;
+  private channels = new Map<string, ViewerChannel>();
+  private speakerDeviceId: string | null = null;
+  private state: ViewerAudioMixState = idleViewerAudioMixState;
+
+  constructor(createContext: CreateAudioContext = defaultCreateAudioContext) {
+    super();
+    this.createContext = createContext;
+  }
+
+  getSnapshot = (): ViewerAudioMixState => this.state;
+
+  // useSyncExternalStore-compatible subscription
+  subscribe = (listener: () => void) => this.on('change', listener);
+
+  getVolume(viewerId: string) {
+    return this.state.volumes[viewerId] ?? DEFAULT_VOLUME;
+  }
+
+  // Start playing a viewer's mic, replacing any stream it had before
+  add(viewerId: string, stream: MediaStream) {
+    this.remove(viewerId);
+    try {
+      const { context, master } = this.getGraph();
+      const sink = new Audio();
+      sink.muted = true;
+      sink.srcObject = stream;
+      sink.play().catch(() => {});
+
+      const source = context.createMediaStreamSource(stream);
+      const gain = context.createGain();
+      source.connect(gain);
+      gain.connect(master);
+      this.channels.set(viewerId, { source, gain, sink });
+      this.applyGain(viewerId);
+      // Already running if the presenter enabled audio earlier
+      this.resume();
+    } catch (err) {
+      console.warn('Could not play viewer audio:', err);
+    }
+  }
+
+  // Disconnect a viewer's nodes; a solo on them ends with them
+  remove(viewerId: string) {
+    const channel = this.channels.get(viewerId);
+    if (channel) {
+      this.channels.delete(viewerId);
+      channel.source.disconnect();
+      channel.gain.disconnect();
+      channel.sink.srcObject = null;
+    }
+    if (this.state.soloIds.has(viewerId)) {
+      this.setSolo(viewerId, false);
+    }
+  }
+
+  // Forget every viewer and their settings, e.g. when the meeting ends
+  clear() {
+    [...this.channels.keys()].forEach((viewerId) => this.remove(viewerId));
+    this.update({ volumes: {}, mutedIds: new Set(), soloIds: new Set(), isMuted: false });
+  }
+
+  // Call from a click handler so the browser lets audio start
+  async enable() {
+    this.getGraph();
+    await this.resume();
+    this.setMuted(false);
+    return this.state.isEnabled;
+  }
+
+  setMuted(isMuted: boolean) {
+    this.update({ isMuted });
+    this.master?.gain.setTargetAtTime(isMuted ? 0 : 1, this.master.context.currentTime, 0.02);
+  }
+
+  setVolume(viewerId: string, volume: number) {
+    const clamped = Math.min(Math.max(volume, 0), MAX_AUDIO_GAIN);
+    this.update({ volumes: { ...this.state.volumes, [viewerId]: clamped } });
+    this.applyGain(viewerId);
+  }
+
+  setViewerMuted(viewerId: string, muted: boolean) {
+    const mutedIds = new Set(this.state.mutedIds);
+    if (muted) {
+      mutedIds.add(viewerId);
+    } else {
+      mutedIds.delete(viewerId);
+    }
+    this.update({ mutedIds });
+    this.applyGain(viewerId);
+  }
+
+  // While anyone is soloed only soloed viewers are heard
+  setSolo(viewerId: string, solo: boolean) {
+    const soloIds = new Set(this.state.soloIds);
+    if (solo) {
+      soloIds.add(viewerId);
+    } else {
+      soloIds.delete(viewerId);
+    }
+    this.update({ soloIds });
+    this.channels.forEach((_, id) => this.applyGain(id));
+  }
+
+  setSpeaker(deviceId: string | null) {
+    this.speakerDeviceId = deviceId;
+    if (this.context) applySpeaker(this.context, deviceId);
+  }
+
+  dispose() {
+    [...this.channels.keys()].forEach((viewerId) => this.remove(viewerId));
+    this.master?.disconnect();
+    this.master = null;
+    this.context?.close().catch((err) => console.warn('Error closing viewer audio context:', err));
+    this.context = null;
+    this.update({ isEnabled: false });
+  }
+
+  private getGraph() {
+    if (!this.context || !this.master) {
+      const context = this.createContext();
+      const master = context.createGain();
+      master.gain.value = this.state.isMuted ? 0 : 1;
+      master.connect(context.destination);
+      context.onstatechange = () => this.update({ isEnabled: context.state === 'running' });
+      if (this.speakerDeviceId) applySpeaker(context, this.speakerDeviceId);
+      this.context = context;
+      this.master = master;
+      this.update({ isEnabled: context.state === 'running' });
+    }
+    return { context: this.context, master: this.master };
+  }
+
+  private async resume() {
+    if (this.context?.state !== 'suspended') return;
+    try {
+      await this.context.resume();
+    } catch (err) {
+      console.warn('Viewer audio is waiting for a click to start:', err);
+    }
+  }
+
+  private applyGain(viewerId: string) {
+    const channel = this.channels.get(viewerId);
+    if (!channel) return;
+
+    const { mutedIds, soloIds } = this.state;
+    const isAudible = !mutedIds.has(viewerId) && (soloIds.size === 0 || soloIds.has(viewerId));
+    const value = isAudible ? this.getVolume(viewerId) : 0;
+    // Short ramp avoids clicks while dragging the slider
+    channel.gain.gain.setTargetAtTime(value, channel.gain.context.currentTime, 0.02);
+  }
+
+  private update(partial: Partial<ViewerAudioMixState>) {
+    this.state = { ...this.state, ...partial };
+    this.emit('change', this.state);
+  }
+}
@@ -0,0 +1,125 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { PresenterSession } from '@/webrtc/presenterSession';
+import { FakePeerNetwork } from '@/webrtc/testing/fakePeer';
+import { ViewerSession } from '@/webrtc/viewerSession';
+
+const ROOM_ID = 'room-1';
+const VIEWER_ID = 'viewer-room-1-a';
+
+const flush = () => vi.advanceTimersByTimeAsync(0);
+
+describe('ViewerSession', () => {
+  let network: FakePeerNetwork;
+  let presenter: PresenterSession;
+  let viewer: ViewerSession;
+
+  const startPresenter = async () => {
+    presenter.start();
+    await flush();
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    network = new FakePeerNetwork();
+    presenter = new PresenterSession({ roomId: ROOM_ID, createPeer: network.createPeer, storage: null });
+    viewer = new ViewerSession({ roomId: ROOM_ID, viewerId: VIEWER_ID, createPeer: network.createPeer });
+  });
+
+  afterEach(() => {
+    viewer.destroy();
+    presenter.destroy();
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('joins the presenter and waits for the share', async () => {
+    await startPresenter();
+    viewer.start();
+    await flush();
+
+    expect(viewer.getSnapshot().status).toBe('waiting');
+    expect(viewer.getSnapshot().error).toBeNull();
+    expect(presenter.getSnapshot().viewerIds).toEqual([VIEWER_ID]);
+  });
+
+  it('keeps retrying until the presenter opens the room', async () => {
+    viewer.start();
+    await flush();
+    expect(viewer.getSnapshot().status).toBe('waiting');
+    expect(viewer.getSnapshot().reconnectAttempt).toBe(1);
+
+    await startPresenter();
+    await vi.advanceTimersByTimeAsync(30000);
+
+    expect(presenter.getSnapshot().viewerIds).toEqual([VIEWER_ID]);
+    expect(viewer.getSnapshot().reconnectAttempt).toBe(0);
+  });
+
+  it('follows mutes from the presenter', async () => {
+    await startPresenter();
+    viewer.start();
+    await flush();
+    const mutedByPresenter = vi.fn();
+    viewer.on('muted-by-presenter', mutedByPresenter);
+
+    presenter.muteViewer(VIEWER_ID);
+    await flush();
+    expect(viewer.getSnapshot().isMutedByPresenter).toBe(true);
+
+    presenter.unmuteViewer(VIEWER_ID);
+    await flush();
+    expect(viewer.getSnapshot().isMutedByPresenter).toBe(false);
+    expect(mutedByPresenter.mock.calls).toEqual([[true], [false]]);
+  });
+
+  it('is muted again when rejoining a room that muted it', async () => {
+    await startPresenter();
+    viewer.start();
+    await flush();
+    presenter.muteViewer(VIEWER_ID);
+    await flush();
+
+    viewer.leave();
+    await flush();
+    expect(viewer.getSnapshot().isMutedByPresenter).toBe(false);
+
+    viewer.rejoin();
+    await flush();
+    expect(viewer.getSnapshot().isMutedByPresenter).toBe(true);
+  });
+
+  it('ends when the presenter ends the meeting', async () => {
+    await startPresenter();
+    viewer.start();
+    await flush();
+    const meetingEnded = vi.fn();
+    viewer.on('meeting-ended', meetingEnded);
+
+    presenter.endMeeting();
+    await flush();
+
+    expect(viewer.getSnapshot().status).toBe('ended');
+    expect(meetingEnded).toHaveBeenCalledTimes(1);
+  });
+
+  it('rides out a signalling server drop', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    await startPresenter();
+    viewer.start();
+    await flush();
+    const peer = network.getPeer(VIEWER_ID);
+
+    network.isServerUp = false;
+    peer?.dropFromServer();
+    expect(viewer.getSnapshot().status).toBe('waiting');
+
+    network.isServerUp = true;
+    await vi.advanceTimersByTimeAsync(30000);
+
+    expect(peer?.open).toBe(true);
+    expect(viewer.getSnapshot().status).toBe('waiting');
+    expect(viewer.getSnapshot().error).toBeNull();
+  });
+});
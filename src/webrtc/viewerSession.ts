@@ -0,0 +1,860 @@
+// src/webrtc/viewerSession.ts
+//
+// Framework-agnostic viewer engine. Connects to a room's presenter,
+// receives the shared screen and manages the optional viewer microphone.
+
+import Peer, { DataConnection, MediaConnection, PeerOptions } from 'peerjs';
+import { AudioLevelMonitor } from '@/webrtc/audioLevels';
+import type { CreateAudioContext } from '@/webrtc/audioMixer';
+import {
+  applyAudioProcessing,
+  AudioProcessing,
+  defaultAudioProcessing,
+  getProcessingConstraints,
+  NoiseGate,
+} from '@/webrtc/audioProcessing';
+import { devicePreferencesStore, DevicePreferencesStore, getMicConstraints } from '@/webrtc/devicePreferences';
+import { TypedEmitter } from '@/webrtc/emitter';
+import { Heartbeat, HeartbeatOptions } from '@/webrtc/heartbeat';
+import {
+  applyIceServers,
+  applyIceTransportPolicy,
+  hasRelayServer,
+  isSignallingError,
+  SIGNALLING_LOST_MESSAGE,
+} from '@/webrtc/peerConfig';
+import { ViewerEvent, viewerMachine, ViewerStatus } from '@/webrtc/machines';
+import { getPresenterPeerId, MediaDevicesLike } from '@/webrtc/presenterSession';
+import { answerIceRestartOffer } from '@/webrtc/iceRestart';
+import { MediaTrackIds, RemoteSource, splitRemoteStream } from '@/webrtc/mediaTracks';
+import {
+  createHello,
+  DataMessage,
+  IceTransportPolicy,
+  isCompatibleVersion,
+  parseDataMessage,
+  VERSION_MISMATCH_MESSAGE,
+} from '@/webrtc/protocol';
+import { BackoffOptions, ReconnectionManager } from '@/webrtc/reconnect';
+import { replaceSenderTrack } from '@/webrtc/senders';
+import { StateMachine } from '@/webrtc/stateMachine';
+
+export type { ViewerStatus };
+
+export interface ViewerSnapshot {
+  roomId: string | null;
+  status: ViewerStatus;
+  error: string | null;
+  remoteStream: MediaStream | null;
+  // remoteStream split into the shared screen (with audio) and the presenter's camera
+  screenStream: MediaStream | null;
+  cameraStream: MediaStream | null;
+  // Extra screens or windows the presenter shares alongside the main one
+  sourceStreams: RemoteSource[];
+  // Other viewers' voices, mixed by the presenter when the room has group audio on
+  groupAudioStream: MediaStream | null;
+  // Presenter's names for the main screen and each extra source, by source ID
+  sourceNames: Record<string, string>;
+  isMicEnabled: boolean;
+  isMicMuted: boolean; // Local mic mute (viewer controls)
+  // Device of the microphone being sent, while enabled
+  micDeviceId: string | null;
+  // Follows the presenter's room defaults until changed here
+  audioProcessing: AudioProcessing;
+  isMutedByPresenter: boolean;
+  // Peer ID of whoever the presenter hears talking, the presenter's or a viewer's
+  activeSpeakerId: string | null;
+  // Retries to reach the presenter since the last successful connection
+  reconnectAttempt: number;
+  nextRetryAt: number | null;
+  // Data channel round-trip time to the presenter, in milliseconds
+  rttMs: number | null;
+  // ICE policy the presenter asked for; 'relay' means media goes via TURN only
+  icePolicy: IceTransportPolicy;
+  // Presenter paused sharing; the stream shows a "be right back" slate
+  isPresenterPaused: boolean;
+  pausedResumeAt: number | null;
+}
+
+export interface ViewerSessionEvents {
+  'change': [snapshot: ViewerSnapshot];
+  'status-changed': [status: ViewerStatus];
+  'stream': [stream: MediaStream];
+  'meeting-ended': [];
+  'muted-by-presenter': [muted: boolean];
+  'presenter-resumed': [];
+  'paused-changed': [paused: boolean];
+  'mic-enabled': [];
+  'mic-disabled': [];
+  'mic-error': [message: string];
+  'left': [];
+  'error': [message: string];
+}
+
+export interface ViewerSessionOptions {
+  roomId: string;
+  peerOptions?: PeerOptions;
+  viewerId?: string;
+  backoff?: Partial<BackoffOptions>;
+  heartbeat?: Partial<HeartbeatOptions>;
+  // Injection points so the engine can run without a browser
+  createPeer?: (id: string, options: PeerOptions) => Peer;
+  mediaDevices?: MediaDevicesLike;
+  createAudioContext?: CreateAudioContext;
+  // Remembered microphone; defaults to the browser-wide store
+  devicePreferences?: DevicePreferencesStore;
+}
+
+export const createViewerPeerId = (roomId: string) =>
+  `viewer-${roomId}-${Math.random().toString(36).substr(2, 9)}`;
+
+export const initialViewerSnapshot: ViewerSnapshot = {
+  roomId: null,
+  status: 'connecting',
+  error: null,
+  remoteStream: null,
+  screenStream: null,
+  cameraStream: null,
+  sourceStreams: [],
+  groupAudioStream: null,
+  sourceNames: {},
+  isMicEnabled: false,
+  isMicMuted: false,
+  micDeviceId: null,
+  audioProcessing: defaultAudioProcessing,
+  isMutedByPresenter: false,
+  activeSpeakerId: null,
+  reconnectAttempt: 0,
+  nextRetryAt: null,
+  rttMs: null,
+  icePolicy: 'all',
+  isPresenterPaused: false,
+  pausedResumeAt: null,
+};
+
+const defaultCreatePeer = (id: string, options: PeerOptions) => new Peer(id, options);
+
+export class ViewerSession extends TypedEmitter<ViewerSessionEvents> {
+  readonly roomId: string;
+  readonly viewerId: string;
+  // Level of this viewer's own mic, under viewerId
+  readonly audioLevels: AudioLevelMonitor;
+
+  private readonly options: ViewerSessionOptions;
+  private readonly devicePreferences: DevicePreferencesStore;
+  private peer: Peer | null = null;
+  private connection: DataConnection | null = null;
+  private call: MediaConnection | null = null;
+  private micStream: MediaStream | null = null;
+  // Sits between the mic and the call while the noise gate is on
+  private micGate: NoiseGate | null = null;
+  // Set once this viewer changes processing; room defaults stop applying
+  private hasOwnAudioProcessing = false;
+  private micCall: MediaConnection | null = null;
+  private heartbeat: Heartbeat | null = null;
+  // Announced by the presenter ahead of each call
+  private mediaTrackIds: MediaTrackIds | null = null;
+  private snapshot: ViewerSnapshot;
+  private destroyed = false;
+  private readonly machine = new StateMachine<ViewerStatus, ViewerEvent>(viewerMachine);
+  private readonly reconnection: ReconnectionManager;
+
+  constructor(options: ViewerSessionOptions) {
+    super();
+    this.options = options;
+    this.devicePreferences = options.devicePreferences ?? devicePreferencesStore;
+    this.roomId = options.roomId;
+    this.viewerId = options.viewerId ?? createViewerPeerId(options.roomId);
+    this.audioLevels = new AudioLevelMonitor(options.createAudioContext);
+    this.snapshot = { ...initialViewerSnapshot, roomId: options.roomId };
+
+    this.reconnection = new ReconnectionManager(options.backoff);
+    this.reconnection.on('scheduled', (attempt, retryAt) => {
+      this.update({ reconnectAttempt: attempt, nextRetryAt: retryAt });
+    });
+    this.reconnection.on('attempt', () => this.update({ nextRetryAt: null }));
+    this.reconnection.on('reset', () => this.update({ reconnectAttempt: 0, nextRetryAt: null }));
+
+    // The snapshot status always mirrors the machine
+    this.machine.onTransition(({ to }) => {
+      this.update({ status: to });
+      this.emit('status-changed', to);
+    });
+
+    // Nothing is received once the meeting is over
+    this.machine.onEnter('ended', () => {
+      this.reconnection.cancel();
+      this.cleanupConnections();
+    });
+
+    this.machine.onEnter('error', () => this.reconnection.cancel());
+
+    this.machine.onEnter('left', () => {
+      console.log('Leaving meeting...');
+      this.reconnection.cancel();
+      this.cleanupConnections();
+      this.peer?.destroy();
+      this.peer = null;
+      this.update({ isMicEnabled: false, isMicMuted: false, isMutedByPresenter: false });
+      this.emit('left');
+    });
+  }
+
+  get presenterId() {
+    return getPresenterPeerId(this.roomId);
+  }
+
+  getSnapshot = (): ViewerSnapshot => this.snapshot;
+
+  // useSyncExternalStore-compatible subscription
+  subscribe = (listener: () => void) => this.on('change', listener);
+
+  // Register with the signalling server and connect to the presenter
+  start() {
+    if (this.peer || this.destroyed) return;
+
+    const createPeer = this.options.createPeer ?? defaultCreatePeer;
+    const peer = createPeer(this.viewerId, { debug: 2, ...this.options.peerOptions });
+
+    peer.on('open', (id) => {
+      console.log('Viewer connected with ID:', id);
+      this.machine.send('PEER_OPEN');
+      // Back from a signalling drop with the presenter still connected
+      if (this.connection?.open) {
+        this.reconnection.reset();
+        this.update({ error: null });
+        return;
+      }
+      this.connectToPresenter();
+    });
+
+    // Handle incoming call (screen share stream)
+    peer.on('call', (call) => this.handlePresenterCall(call));
+
+    peer.on('error', (err) => {
+      console.error('Peer error:', err);
+
+      // Handle specific error types
+      if (err.type === 'peer-unavailable') {
+        this.update({ error: 'Presenter not available yet. Waiting...' });
+        this.machine.send('PRESENTER_UNAVAILABLE');
+        this.scheduleReconnect();
+      } else if (isSignallingError(err.type)) {
+        // The disconnected handler reopens the peer
+        this.update({ error: SIGNALLING_LOST_MESSAGE });
+      } else {
+        this.fail(err.message);
+      }
+    });
+
+    peer.on('disconnected', () => {
+      if (this.destroyed || this.peer !== peer) return;
+      console.log('Peer disconnected, reconnecting...');
+      this.scheduleReconnect();
+    });
+
+    this.peer = peer;
+  }
+
+  // Enable viewer microphone (simple toggle, not push-to-talk)
+  async enableMicrophone() {
+    if (!this.peer) {
+      this.emit('mic-error', 'Not connected to room');
+      return;
+    }
+
+    const mediaDevices = this.options.mediaDevices ?? navigator.mediaDevices;
+
+    try {
+      const preferredId = this.devicePreferences.getSnapshot().micDeviceId;
+      const micStream = await mediaDevices.getUserMedia({ audio: this.getMicConstraints(preferredId) });
+      const micTrack = micStream.getAudioTracks()[0];
+      const micGate = micTrack && this.snapshot.audioProcessing.noiseGate ? await this.createMicGate(micTrack) : null;
+      if (this.destroyed || !this.peer) {
+        micGate?.dispose();
+        micStream.getTracks().forEach(track => track.stop());
+        return;
+      }
+      this.micStream = micStream;
+      this.micGate = micGate;
+      this.meterMic();
+      const micDeviceId = micStream.getAudioTracks()[0]?.getSettings().deviceId ?? null;
+      this.update({ isMicEnabled: true, isMicMuted: false, micDeviceId });
+      this.applyMicState();
+      this.callPresenterWithMic();
+
+      this.emit('mic-enabled');
+    } catch (err) {
+      console.error('Error accessing microphone:', err);
+      this.emit('mic-error', 'Could not access microphone');
+    }
+  }
+
+  // Switch to another microphone. While the mic is on the track is swapped
+  // on the existing call; otherwise the choice is remembered for next time.
+  // Resolves true if the live microphone changed.
+  async changeMicrophone(deviceId: string) {
+    const previousStream = this.micStream;
+    if (!previousStream) {
+      this.devicePreferences.setMicDeviceId(deviceId);
+      return false;
+    }
+
+    const mediaDevices = this.options.mediaDevices ?? navigator.mediaDevices;
+    let micStream: MediaStream;
+    try {
+      micStream = await mediaDevices.getUserMedia({ audio: this.getMicConstraints(deviceId, true) });
+    } catch (err) {
+      console.error('Could not switch microphone:', err);
+      this.emit('mic-error', 'Could not switch microphone');
+      return false;
+    }
+    const micTrack = micStream.getAudioTracks()[0];
+    const micGate = micTrack && this.snapshot.audioProcessing.noiseGate ? await this.createMicGate(micTrack) : null;
+    if (this.micStream !== previousStream || !micTrack) {
+      micGate?.dispose();
+      micStream.getTracks().forEach(track => track.stop());
+      return false;
+    }
+
+    const previousGate = this.micGate;
+    this.micStream = micStream;
+    this.micGate = micGate;
+    this.applyMicState();
+    this.meterMic();
+    await this.sendMicOutput();
+    previousGate?.dispose();
+    previousStream.getTracks().forEach(track => track.stop());
+
+    const micDeviceId = micTrack.getSettings().deviceId ?? deviceId;
+    this.update({ micDeviceId });
+    this.devicePreferences.setMicDeviceId(micDeviceId);
+    return true;
+  }
+
+  // Disable viewer microphone completely
+  disableMicrophone() {
+    this.releaseMicrophone();
+    this.update({ isMicEnabled: false, isMicMuted: false, micDeviceId: null });
+    this.emit('mic-disabled');
+  }
+
+  // Change this viewer's mic processing. From then on the presenter's room
+  // defaults no longer apply.
+  async setAudioProcessing(partial: Partial<AudioProcessing>) {
+    this.hasOwnAudioProcessing = true;
+    await this.updateAudioProcessing({ ...this.snapshot.audioProcessing, ...partial });
+  }
+
+  // Toggle microphone mute (viewer controls whether audio is sent)
+  setMicMuted(muted: boolean) {
+    if (!this.micStream) return;
+
+    this.update({ isMicMuted: muted });
+    this.applyMicState();
+  }
+
+  toggleMicMute() {
+    this.setMicMuted(!this.snapshot.isMicMuted);
+  }
+
+  // Leave the meeting and release the peer
+  leave() {
+    this.machine.send('LEAVE');
+  }
+
+  // Join again after the meeting ended or the viewer left, without reloading the page
+  rejoin() {
+    if (!this.machine.send('REJOIN')) return;
+
+    this.reconnection.reset();
+    this.update({ error: null });
+
+    if (this.peer?.open) {
+      this.machine.send('PEER_OPEN');
+      this.connectToPresenter();
+    } else {
+      const peer = this.peer;
+      this.peer = null;
+      peer?.destroy();
+      this.start();
+    }
+  }
+
+  // Use refreshed ICE servers (e.g. renewed TURN credentials) without reconnecting
+  setIceServers(iceServers: RTCIceServer[]) {
+    if (!this.peer) return;
+    const connections = [this.connection, this.call, this.micCall];
+    applyIceServers(this.peer, iceServers, connections.map((conn) => conn?.peerConnection).filter(Boolean));
+  }
+
+  // Skip the remaining backoff delay and try to reach the presenter now
+  retryNow() {
+    this.reconnection.retryNow();
+  }
+
+  destroy() {
+    if (this.destroyed) return;
+
+    this.destroyed = true;
+    this.reconnection.cancel();
+    this.cleanupConnections();
+    this.audioLevels.dispose();
+    this.peer?.destroy();
+    this.peer = null;
+    this.removeAllListeners();
+  }
+
+  private connectToPresenter() {
+    const peer = this.peer;
+    if (!peer || peer.disconnected) return;
+
+    // Drop any previous attempt so its late events are ignored
+    const previous = this.connection;
+    this.connection = null;
+    this.stopHeartbeat();
+    previous?.close();
+
+    const conn = peer.connect(this.presenterId);
+    this.connection = conn;
+
+    conn.on('open', () => {
+      console.log('Connected to presenter data channel');
+      conn.send(createHello('viewer'));
+      this.startHeartbeat(conn);
+      this.reconnection.reset();
+      this.update({ error: null });
+
+      // Restore the microphone call after a reconnect
+      if (this.micStream && !this.micCall?.open) {
+        this.callPresenterWithMic();
+      }
+    });
+
+    conn.on('data', (data) => {
+      const parsed = parseDataMessage(data);
+      if (parsed.kind === 'unknown') {
+        console.warn('Ignoring unknown message type from presenter:', parsed.type);
+        return;
+      }
+      if (parsed.kind === 'invalid') {
+        console.warn('Ignoring invalid message from presenter:', parsed.reason);
+        return;
+      }
+
+      if (this.connection !== conn) return;
+      this.heartbeat?.markAlive();
+      this.handleMessage(parsed.message);
+    });
+
+    conn.on('close', () => {
+      console.log('Presenter disconnected');
+      this.handlePresenterLost(conn);
+    });
+
+    conn.on('error', (err) => {
+      console.error('Connection error:', err);
+    });
+  }
+
+  private handlePresenterLost(conn: DataConnection) {
+    if (this.connection !== conn) return;
+    this.connection = null;
+    this.stopHeartbeat();
+    if (this.machine.send('PRESENTER_LOST')) {
+      this.scheduleReconnect();
+    }
+  }
+
+  private startHeartbeat(conn: DataConnection) {
+    this.stopHeartbeat();
+
+    const heartbeat = new Heartbeat((ping) => {
+      if (conn.open) conn.send(ping);
+    }, this.options.heartbeat);
+
+    heartbeat.on('rtt', (rttMs) => this.update({ rttMs }));
+
+    // The presenter vanished without the connection closing (crash, network loss)
+    heartbeat.on('timeout', () => {
+      console.warn('Presenter stopped responding');
+      this.handlePresenterLost(conn);
+      conn.close();
+      if (this.call) {
+        this.dropCall(this.call);
+      }
+    });
+
+    this.heartbeat = heartbeat;
+    heartbeat.start();
+  }
+
+  private stopHeartbeat() {
+    this.heartbeat?.stop();
+    this.heartbeat = null;
+    if (this.snapshot.rttMs !== null) {
+      this.update({ rttMs: null });
+    }
+  }
+
+  private handleMessage(message: DataMessage) {
+    if (message.type !== 'ping' && message.type !== 'pong') {
+      console.log('Received message from presenter:', message);
+    }
+
+    switch (message.type) {
+      case 'hello':
+        if (!isCompatibleVersion(message.version)) {
+          this.cleanupConnections();
+          this.fail(VERSION_MISMATCH_MESSAGE);
+        }
+        break;
+      case 'meeting-ended':
+        if (this.machine.send('MEETING_ENDED')) {
+          this.emit('meeting-ended');
+        }
+        break;
+      case 'viewer-muted':
+      case 'viewer-unmuted': {
+        // The presenter repeats our mute state after reconnects; only notify on change
+        const muted = message.type === 'viewer-muted';
+        if (muted === this.snapshot.isMutedByPresenter) break;
+        this.update({ isMutedByPresenter: muted });
+        this.applyMicState();
+        this.emit('muted-by-presenter', muted);
+        break;
+      }
+      case 'session-resumed':
+        this.handleSessionResumed(message.isSharing);
+        break;
+      case 'ice-policy':
+        this.handleIcePolicy(message.policy);
+        break;
+      case 'share-paused':
+        this.setPresenterPaused(true, message.resumeAt);
+        break;
+      case 'share-resumed':
+        this.setPresenterPaused(false, null);
+        break;
+      case 'media-tracks':
+        // Usually arrives before the call it describes; only re-split a stream it matches
+        this.mediaTrackIds = {
+          screen: message.screen,
+          camera: message.camera,
+          sources: message.sources,
+          groupAudio: message.groupAudio ?? null,
+        };
+        if (this.snapshot.remoteStream?.getTrackById(message.screen)) {
+          this.setRemoteStream(this.snapshot.remoteStream);
+        }
+        break;
+      case 'source-names':
+        this.update({ sourceNames: message.names });
+        break;
+      case 'active-speaker':
+        this.update({ activeSpeakerId: message.speakerId });
+        break;
+      case 'audio-processing-defaults':
+        if (!this.hasOwnAudioProcessing) {
+          this.updateAudioProcessing(message.settings);
+        }
+        break;
+      case 'connection-refused':
+        this.cleanupConnections();
+        this.fail(message.reason);
+        break;
+      case 'ice-restart-offer':
+        this.handleIceRestartOffer(message.connectionId, message.sdp);
+        break;
+      case 'ping':
+        this.sendToPresenter({ type: 'pong', id: message.id });
+        break;
+      case 'pong':
+        this.heartbeat?.handlePong(message);
+        break;
+      case 'request-stream':
+      case 'ice-restart-answer':
+      case 'ice-policy-ack':
+        // Viewer-to-presenter only
+        break;
+    }
+  }
+
+  // Adopt the presenter's ICE policy and confirm what we actually applied.
+  // Without a TURN server we cannot go relay-only; the presenter decides what to do.
+  private handleIcePolicy(policy: IceTransportPolicy) {
+    if (!this.peer) return;
+
+    const applied: IceTransportPolicy =
+      policy === 'relay' && !hasRelayServer(this.peer.options.config?.iceServers) ? 'all' : policy;
+    const previous = this.snapshot.icePolicy;
+
+    const connections = [this.call, this.micCall];
+    applyIceTransportPolicy(this.peer, applied, connections.map((conn) => conn?.peerConnection).filter(Boolean));
+    this.update({ icePolicy: applied });
+    this.sendToPresenter({ type: 'ice-policy-ack', policy: applied });
+
+    // An existing mic call may be direct; place it again under the new policy
+    if (applied === 'relay' && previous !== 'relay') {
+      this.callPresenterWithMic();
+    }
+  }
+
+  private async handleIceRestartOffer(connectionId: string, offerSdp: string) {
+    const call = this.call;
+    if (!call?.peerConnection || call.connectionId !== connectionId) {
+      console.warn('Ignoring ICE restart for unknown call:', connectionId);
+      return;
+    }
+
+    try {
+      console.log('Presenter requested ICE restart');
+      const sdp = await answerIceRestartOffer(call.peerConnection, offerSdp);
+      if (this.call !== call) return;
+      this.sendToPresenter({ type: 'ice-restart-answer', connectionId, sdp });
+    } catch (err) {
+      console.error('ICE restart failed:', err);
+    }
+  }
+
+  private setRemoteStream(remoteStream: MediaStream | null) {
+    if (!remoteStream) {
+      this.update({
+        remoteStream: null,
+        screenStream: null,
+        cameraStream: null,
+        sourceStreams: [],
+        groupAudioStream: null,
+      });
+      return;
+    }
+    const { screenStream, cameraStream, sourceStreams, groupAudioStream } = splitRemoteStream(
+      remoteStream,
+      this.mediaTrackIds
+    );
+    this.update({ remoteStream, screenStream, cameraStream, sourceStreams, groupAudioStream });
+  }
+
+  private setPresenterPaused(paused: boolean, resumeAt: number | null) {
+    const changed = paused !== this.snapshot.isPresenterPaused;
+    this.update({ isPresenterPaused: paused, pausedResumeAt: resumeAt });
+    if (changed) this.emit('paused-changed', paused);
+  }
+
+  // The presenter reloaded and reclaimed the room
+  private handleSessionResumed(isSharing: boolean) {
+    console.log('Presenter resumed the session, sharing:', isSharing);
+    this.emit('presenter-resumed');
+
+    if (isSharing) {
+      if (!this.call) {
+        this.sendToPresenter({ type: 'request-stream' });
+      }
+      return;
+    }
+
+    // Any call still open belongs to the presenter's previous page load
+    if (this.call) {
+      this.dropCall(this.call);
+    }
+  }
+
+  private handlePresenterCall(call: MediaConnection) {
+    console.log('Receiving call from presenter');
+    this.call = call;
+
+    // Answer the call without sending any stream (view-only by default)
+    call.answer();
+
+    call.on('stream', (remoteStream) => {
+      console.log('Received remote stream, tracks:', remoteStream.getTracks().map(t => t.kind));
+      this.setRemoteStream(remoteStream);
+      this.machine.send('STREAM_RECEIVED');
+      this.emit('stream', remoteStream);
+    });
+
+    call.on('close', () => {
+      console.log('Call ended');
+      this.dropCall(call);
+    });
+
+    // The presenter re-calls us after a failed call, so wait for it
+    // instead of treating this as fatal
+    call.on('error', (err) => {
+      console.error('Call error:', err);
+      this.dropCall(call);
+    });
+  }
+
+  private dropCall(call: MediaConnection) {
+    if (this.call !== call) return;
+    this.call = null;
+    call.close();
+    // A stopped share is not paused any more
+    this.setRemoteStream(null);
+    this.update({ isPresenterPaused: false, pausedResumeAt: null });
+    this.machine.send('STREAM_CLOSED');
+  }
+
+  // Retry with backoff: the signalling server first if it was lost (PeerJS
+  // destroys a peer that never opened), then the presenter
+  private scheduleReconnect() {
+    if (this.destroyed || !this.canReconnect()) return;
+    this.reconnection.schedule(() => {
+      const peer = this.peer;
+      if (this.destroyed || !peer || !this.canReconnect()) return;
+      if (peer.destroyed) {
+        this.peer = null;
+        this.start();
+      } else if (peer.disconnected) {
+        peer.reconnect();
+      } else if (this.machine.state === 'waiting') {
+        this.connectToPresenter();
+      }
+    });
+  }
+
+  private canReconnect() {
+    const state = this.machine.state;
+    return state === 'connecting' || state === 'waiting' || state === 'receiving';
+  }
+
+  // Call presenter with our audio stream
+  private callPresenterWithMic() {
+    if (!this.peer || !this.micStream) return;
+
+    this.micCall?.close();
+    const stream = this.micGate ? new MediaStream([this.micGate.outputTrack]) : this.micStream;
+    const call = this.peer.call(this.presenterId, stream);
+    this.micCall = call;
+
+    call.on('error', (err) => {
+      console.error('Mic call error:', err);
+      this.emit('mic-error', 'Failed to send audio to presenter');
+    });
+  }
+
+  private getMicConstraints(deviceId: string | null, exact = false): MediaTrackConstraints {
+    return { ...getMicConstraints(deviceId, exact), ...getProcessingConstraints(this.snapshot.audioProcessing) };
+  }
+
+  private async updateAudioProcessing(audioProcessing: AudioProcessing) {
+    this.update({ audioProcessing });
+    const micTrack = this.micStream?.getAudioTracks()[0];
+    if (!micTrack) return;
+
+    await applyAudioProcessing(micTrack, audioProcessing);
+    await this.refreshMicGate();
+  }
+
+  // A failed gate turns the setting back off rather than leaving the mic silent
+  private async createMicGate(micTrack: MediaStreamTrack) {
+    try {
+      return await NoiseGate.create(micTrack, undefined, this.options.createAudioContext);
+    } catch (err) {
+      console.warn('Noise gate unavailable:', err);
+      this.update({ audioProcessing: { ...this.snapshot.audioProcessing, noiseGate: false } });
+      this.emit('mic-error', 'Noise gate is not available in this browser');
+      return null;
+    }
+  }
+
+  // Put the gate into or take it out of the mic path to match the setting
+  private async refreshMicGate() {
+    const micStream = this.micStream;
+    const micTrack = micStream?.getAudioTracks()[0];
+    const previousGate = this.micGate;
+    const wantsGate = this.snapshot.audioProcessing.noiseGate;
+    if (!micTrack || wantsGate === (previousGate !== null)) return;
+
+    const micGate = wantsGate ? await this.createMicGate(micTrack) : null;
+    // The mic, the gate or the setting changed while the worklet loaded
+    if (
+      this.micStream !== micStream ||
+      this.micGate !== previousGate ||
+      this.snapshot.audioProcessing.noiseGate !== wantsGate
+    ) {
+      micGate?.dispose();
+      return;
+    }
+
+    this.micGate = micGate;
+    this.meterMic();
+    await this.sendMicOutput();
+    previousGate?.dispose();
+  }
+
+  // Meter what the presenter hears, so a gated or muted mic reads as silent
+  private meterMic() {
+    const track = this.micGate?.outputTrack ?? this.micStream?.getAudioTracks()[0];
+    if (track) this.audioLevels.add(this.viewerId, track);
+  }
+
+  // Swap the outbound mic track on the call, or place a new call if it cannot be swapped in place
+  private async sendMicOutput() {
+    const track = this.micGate?.outputTrack ?? this.micStream?.getAudioTracks()[0];
+    if (track && !(await replaceSenderTrack(this.micCall?.peerConnection, track))) {
+      this.callPresenterWithMic();
+    }
+  }
+
+  // Audio is only sent while enabled, not locally muted and not muted by the presenter
+  private applyMicState() {
+    const audioTrack = this.micStream?.getAudioTracks()[0];
+    if (!audioTrack) return;
+
+    const { isMicEnabled, isMicMuted, isMutedByPresenter } = this.snapshot;
+    audioTrack.enabled = isMicEnabled && !isMicMuted && !isMutedByPresenter;
+  }
+
+  private releaseMicrophone() {
+    this.audioLevels.remove(this.viewerId);
+    this.micGate?.dispose();
+    this.micGate = null;
+    if (this.micStream) {
+      this.micStream.getTracks().forEach(track => track.stop());
+      this.micStream = null;
+    }
+    if (this.micCall) {
+      this.micCall.close();
+      this.micCall = null;
+    }
+  }
+
+  // Clean up all connections and streams
+  private cleanupConnections() {
+    this.releaseMicrophone();
+    this.stopHeartbeat();
+
+    const call = this.call;
+    const connection = this.connection;
+    this.call = null;
+    this.connection = null;
+    call?.close();
+    connection?.close();
+
+    this.mediaTrackIds = null;
+    this.update({ sourceNames: {}, activeSpeakerId: null });
+    if (this.snapshot.remoteStream || this.snapshot.isPresenterPaused) {
+      this.setRemoteStream(null);
+      this.update({ isPresenterPaused: false, pausedResumeAt: null });
+    }
+  }
+
+  private sendToPresenter(message: DataMessage) {
+    if (this.connection?.open) {
+      this.connection.send(message);
+    }
+  }
+
+  private fail(message: string) {
+    this.update({ error: message });
+    this.machine.send('FAIL');
+    this.emit('error', message);
+  }
+
+  private update(partial: Partial<ViewerSnapshot>) {
+    this.snapshot = { ...this.snapshot, ...partial };
+    this.emit('change', this.snapshot);
+  }
+}